@@ -0,0 +1,128 @@
+// c:\Users\marti\gemini-fs\src\auditLog.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+const AUDIT_LOG_FILE_NAME = 'audit-log.jsonl';
+
+/**
+ * How an audited step ended. Gemini requests end 'completed', 'blocked', 'failed' or 'cancelled'; file operations
+ * are 'proposed' when the preview is shown and then 'confirmed', 'discarded', 'refused' (by the workspace policy) or 'failed'.
+ */
+export type AuditOutcome = 'completed' | 'blocked' | 'failed' | 'cancelled' | 'proposed' | 'confirmed' | 'discarded' | 'refused';
+
+// What callers report; AuditLog adds the time and the session
+export interface AuditEvent {
+    command: string; // Slash command without the slash, 'chat' for chat messages, 'index' for background indexing
+    paths?: string[]; // Workspace-relative, as shown in the chat
+    prompt?: string; // As sent to Gemini, i.e. after secret redaction
+    response?: string; // As received from Gemini
+    outcome: AuditOutcome;
+    detail?: string;
+}
+
+export interface AuditContent {
+    sha256: string;
+    length: number;
+    text?: string; // Only with geminiFS.audit.content set to 'bodies'
+}
+
+// One line of the log file
+export interface AuditEntry {
+    timestamp: string; // ISO 8601, UTC
+    session: { id: string, name: string };
+    command: string;
+    paths: string[];
+    prompt?: AuditContent;
+    response?: AuditContent;
+    outcome: AuditOutcome;
+    detail?: string;
+}
+
+export function toAuditContent(text: string, includeBody: boolean): AuditContent {
+    const content: AuditContent = { sha256: createHash('sha256').update(text).digest('hex'), length: text.length };
+    if (includeBody) {
+        content.text = text;
+    }
+    return content;
+}
+
+export function createAuditEntry(event: AuditEvent, session: { id: string, name: string }, includeBodies: boolean, now = new Date()): AuditEntry {
+    const entry: AuditEntry = { timestamp: now.toISOString(), session, command: event.command, paths: event.paths ?? [], outcome: event.outcome };
+    if (event.prompt !== undefined) {
+        entry.prompt = toAuditContent(event.prompt, includeBodies);
+    }
+    if (event.response !== undefined) {
+        entry.response = toAuditContent(event.response, includeBodies);
+    }
+    if (event.detail) {
+        entry.detail = event.detail;
+    }
+    return entry;
+}
+
+/**
+ * Append-only JSONL record of what was sent to Gemini and what was changed on disk, one file per workspace in the
+ * extension's workspace storage. Entries are written in the order they were recorded; a failing write is reported
+ * once and does not stop the operation being audited.
+ */
+export class AuditLog {
+    private writes: Promise<void> = Promise.resolve();
+    private reportedWriteError = false;
+
+    constructor(private storageUri: vscode.Uri | undefined) {} // Without workspace storage nothing is recorded
+
+    public get logUri(): vscode.Uri | undefined {
+        return this.storageUri ? vscode.Uri.joinPath(this.storageUri, AUDIT_LOG_FILE_NAME) : undefined;
+    }
+
+    public record(event: AuditEvent, session: { id: string, name: string }): void {
+        const config = vscode.workspace.getConfiguration('geminiFS');
+        const logUri = this.logUri;
+        if (!logUri || !config.get<boolean>('audit.enabled', true)) {
+            return;
+        }
+        const line = `${JSON.stringify(createAuditEntry(event, session, config.get<string>('audit.content', 'hashes') === 'bodies'))}\n`;
+        this.writes = this.writes.then(() => this.append(logUri, line)).catch((error: any) => {
+            console.error(`AuditLog: Could not write to ${logUri.fsPath}:`, error);
+            if (!this.reportedWriteError) {
+                this.reportedWriteError = true;
+                vscode.window.showWarningMessage(`Gemini FS could not write its audit log: ${error.message}`);
+            }
+        });
+    }
+
+    private async append(logUri: vscode.Uri, line: string): Promise<void> {
+        await vscode.workspace.fs.createDirectory(this.storageUri!);
+        if (logUri.scheme === 'file') {
+            await fs.promises.appendFile(logUri.fsPath, line, 'utf8');
+            return;
+        }
+        // Other file systems have no append; rewriting is slower but keeps the same content
+        let existing = new Uint8Array();
+        try {
+            existing = await vscode.workspace.fs.readFile(logUri);
+        } catch (error: any) {
+            // First entry
+        }
+        await vscode.workspace.fs.writeFile(logUri, new Uint8Array([...existing, ...new TextEncoder().encode(line)]));
+    }
+
+    /**
+     * Copies the log to `target` once all pending entries are written. Returns false if nothing was recorded yet.
+     */
+    public async exportTo(target: vscode.Uri): Promise<boolean> {
+        await this.writes;
+        const logUri = this.logUri;
+        if (!logUri) {
+            return false;
+        }
+        try {
+            await vscode.workspace.fs.stat(logUri);
+        } catch (error: any) {
+            return false;
+        }
+        await vscode.workspace.fs.copy(logUri, target, { overwrite: true });
+        return true;
+    }
+}
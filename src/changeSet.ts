@@ -0,0 +1,67 @@
+// c:\Users\marti\gemini-fs\src\changeSet.ts
+
+// Format of a /refactor response: one section per file, introduced by a header line. Modified files carry
+// search/replace blocks (see patchApplier), new files their full content.
+
+// Tolerates markdown decoration models like to add, e.g. "### FILE: `src/a.ts`" or "**NEW FILE: src/b.ts**"
+const SECTION_HEADER = /^\s*(?:#+\s*)?(?:\*\*)?(FILE|NEW FILE|DELETE FILE):\s*`?([^`*\s]+)`?\s*(?:\*\*)?\s*$/i;
+
+export type ProposedChangeKind = 'modify' | 'create' | 'delete';
+
+export interface ProposedFileSection {
+    kind: ProposedChangeKind;
+    path: string;
+    body: string; // Text between this header and the next one
+}
+
+export const CHANGE_SET_FORMAT_INSTRUCTIONS = [
+    'Describe every file you change in its own section. Start each section with a header line:',
+    'FILE: <path>         for an existing file, followed by one or more search/replace blocks:',
+    '<<<<<<< SEARCH',
+    '<lines copied exactly from the current file>',
+    '=======',
+    '<the lines that replace them>',
+    '>>>>>>> REPLACE',
+    'NEW FILE: <path>     for a new file, followed by its complete content in a code block.',
+    'DELETE FILE: <path>  for a file that should be removed.',
+    'Use workspace-relative paths. Each SEARCH section must match the current file exactly and be unique in it.',
+    'Only include files that actually change.'
+].join('\n');
+
+/**
+ * Splits a /refactor response into per-file sections. Text before the first header is ignored. When a path shows
+ * up more than once, the sections are merged (modify) or the last one wins (create/delete).
+ */
+export function parseChangeSet(responseText: string): ProposedFileSection[] {
+    const lines = responseText.replace(/\r\n/g, '\n').split('\n');
+    const sections: ProposedFileSection[] = [];
+    let current: { kind: ProposedChangeKind, path: string, bodyLines: string[] } | undefined;
+
+    const finishSection = () => {
+        if (!current) {
+            return;
+        }
+        const section = { kind: current.kind, path: current.path.replace(/\\/g, '/').replace(/^\.?\//, ''), body: current.bodyLines.join('\n') };
+        const existing = sections.findIndex(s => s.path === section.path);
+        if (existing === -1) {
+            sections.push(section);
+        } else if (section.kind === 'modify' && sections[existing].kind === 'modify') {
+            sections[existing].body += `\n${section.body}`;
+        } else {
+            sections[existing] = section;
+        }
+    };
+
+    for (const line of lines) {
+        const header = line.match(SECTION_HEADER);
+        if (header) {
+            finishSection();
+            const keyword = header[1].toUpperCase();
+            current = { kind: keyword === 'NEW FILE' ? 'create' : keyword === 'DELETE FILE' ? 'delete' : 'modify', path: header[2], bodyLines: [] };
+        } else if (current) {
+            current.bodyLines.push(line);
+        }
+    }
+    finishSection();
+    return sections;
+}
@@ -0,0 +1,336 @@
+// c:\Users\marti\gemini-fs\src\changeSetCommands.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GeminiService, ChatMessage, GeminiRequestCancelledError } from './geminiService';
+import { readFileContentUtil, resolvePathAcrossRootsUtil } from './fileSystemUtils';
+import { applyFileEdits, parseFileEdits } from './patchApplier';
+import { extractFileContent } from './responseCleaner';
+import { CHANGE_SET_FORMAT_INSTRUCTIONS, ProposedChangeKind, parseChangeSet } from './changeSet';
+import { JournalFileChange, OperationJournal } from './operationJournal';
+import { parseWorkspacePath } from './workspaceFolders';
+import { checkPolicyBeforeApplying, PolicyOperation } from './workspacePolicy';
+import { AuditEvent } from './auditLog';
+
+export interface ChangeSetFileChange {
+    kind: ProposedChangeKind;
+    uri: vscode.Uri;
+    relativePath: string;
+    originalContent: string | undefined; // undefined for new files
+    proposedContent: string | undefined; // undefined for deletions
+}
+
+// The single-file command whose policy rules apply to each kind of change in a change set
+const POLICY_OPERATION_OF: Record<ProposedChangeKind, PolicyOperation> = { create: 'create', modify: 'write', delete: 'delete' };
+
+interface PendingChangeSet {
+    id: string;
+    description: string;
+    changes: ChangeSetFileChange[];
+}
+
+/**
+ * /refactor: asks Gemini for edits across the files in /context, previews them as one change set and applies the
+ * accepted files with a single WorkspaceEdit, so either all of them change or none does.
+ */
+export class ChangeSetCommands {
+    // The change set shown in the webview. Kept here so the webview only has to send back which files it accepted.
+    private pendingChangeSet: PendingChangeSet | undefined;
+
+    constructor(
+        private getWorkspaceRoot: () => vscode.Uri | undefined,
+        private showSystemMessage: (webview: vscode.Webview, message: string, historyToUpdate?: ChatMessage[]) => void,
+        private getCurrentHistory: () => ChatMessage[],
+        private geminiService: GeminiService,
+        private getContextualContent: () => { path: string, content: string }[],
+        private journal: OperationJournal,
+        private audit: (event: AuditEvent) => void
+    ) {}
+
+    private get currentHistory(): ChatMessage[] {
+        return this.getCurrentHistory();
+    }
+
+    public async handleRefactorCommand(description: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
+        if (!description) {
+            this.showSystemMessage(webview, "Usage: /refactor <description of the change>", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        const contextualContent = this.getContextualContent();
+        if (contextualContent.length === 0) {
+            this.showSystemMessage(webview, "/refactor works on the files in context. Add them first with /context <path|glob>.", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        if (!apiKey || !modelToUse) {
+            this.showSystemMessage(webview, "API key or model not set. Cannot propose a refactoring.", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        this.showSystemMessage(webview, `Gemini is preparing changes across ${contextualContent.length} context file(s)...`);
+
+        const historyForGemini: ChatMessage[] = [
+            ...this.currentHistory.slice(0, -1), // Exclude the user's '/refactor' command itself
+            ...contextualContent.flatMap((item): ChatMessage[] => [
+                { role: 'user', parts: [{ text: `CONTEXT FILE: ${item.path}\n\`\`\`\n${item.content}\n\`\`\`` }] },
+                { role: 'model', parts: [{ text: `Acknowledged context for ${item.path}.` }] }
+            ]),
+            { role: 'user', parts: [{ text: `Make the following change across the context files: ${description}\n\n${CHANGE_SET_FORMAT_INSTRUCTIONS}` }] }
+        ];
+
+        let geminiResponse: string;
+        try {
+            geminiResponse = this.geminiService.restoreRedactedSecrets(await this.geminiService.askGeminiWithHistory(historyForGemini));
+        } catch (error: any) {
+            if (error instanceof GeminiRequestCancelledError) {
+                this.showSystemMessage(webview, "Request cancelled by user. No changes were proposed.", this.currentHistory);
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return;
+            }
+            const errorMessage = `Error generating changes with Gemini: ${error.message || 'Unknown error'}`;
+            this.showSystemMessage(webview, errorMessage, this.currentHistory);
+            console.error(errorMessage, error);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        const sections = parseChangeSet(geminiResponse);
+        if (sections.length === 0) {
+            // Most likely an explanation or an error message instead of edits; show it as is
+            this.currentHistory.push({ role: 'model', parts: [{ text: geminiResponse }] });
+            this.showSystemMessage(webview, "Gemini did not propose any file changes.", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        const report: string[] = [];
+        const changes: ChangeSetFileChange[] = [];
+        for (const section of sections) {
+            const resolvedPath = await resolvePathAcrossRootsUtil(section.path, this.getWorkspaceRoot(), webview, this.showSystemMessage, this.currentHistory, 'write');
+            if (!resolvedPath) {
+                report.push(`Skipped ${section.path}: invalid or read-only path.`);
+                continue;
+            }
+            const change = await this.buildFileChange(section.kind, section.body, resolvedPath, report);
+            if (change) {
+                changes.push(change);
+            }
+        }
+
+        const summary = `Gemini proposed changes to ${sections.length} file(s); ${changes.length} can be previewed.`;
+        this.showSystemMessage(webview, [summary, ...report].join('\n'), this.currentHistory);
+        if (changes.length === 0) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        this.pendingChangeSet = { id: `${Date.now().toString(36)}`, description, changes };
+        this.currentHistory.push({ role: 'model', parts: [{ text: `Okay, I've prepared changes to ${changes.map(c => c.relativePath).join(', ')}. Please review and confirm.` }] });
+        this.audit({ command: 'refactor', paths: changes.map(c => c.relativePath), outcome: 'proposed', detail: description });
+        webview.postMessage({
+            command: 'showChangeSetPreview',
+            changeSetId: this.pendingChangeSet.id,
+            description: `Review proposed changes for: ${description}`,
+            files: changes.map(c => ({
+                filePath: c.relativePath,
+                kind: c.kind,
+                originalContent: c.originalContent ?? '',
+                proposedContent: c.proposedContent ?? ''
+            })),
+            history: [...this.currentHistory]
+        });
+    }
+
+    // Turns one section of the response into a change against the file's current content, or explains why it can't
+    private async buildFileChange(
+        kind: ProposedChangeKind,
+        body: string,
+        resolvedPath: { uri: vscode.Uri, relativePath: string },
+        report: string[]
+    ): Promise<ChangeSetFileChange | undefined> {
+        const { uri, relativePath } = resolvedPath;
+        let originalContent: string | undefined;
+        try {
+            originalContent = await readFileContentUtil(uri);
+        } catch (error: any) {
+            if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                report.push(`Skipped ${relativePath}: could not read it (${error.message}).`);
+                return undefined;
+            }
+        }
+
+        if (kind === 'create') {
+            if (originalContent !== undefined) {
+                report.push(`Skipped ${relativePath}: proposed as a new file, but it already exists.`);
+                return undefined;
+            }
+            return { kind, uri, relativePath, originalContent, proposedContent: extractFileContent(body, relativePath).content };
+        }
+        if (originalContent === undefined) {
+            report.push(`Skipped ${relativePath}: file not found.`);
+            return undefined;
+        }
+        if (kind === 'delete') {
+            return { kind, uri, relativePath, originalContent, proposedContent: undefined };
+        }
+
+        const edits = parseFileEdits(body);
+        if (edits.length === 0) {
+            report.push(`Skipped ${relativePath}: no search/replace blocks found.`);
+            return undefined;
+        }
+        const result = applyFileEdits(originalContent, edits);
+        result.rejectedEdits.forEach(rejected => report.push(`${relativePath}: rejected ${rejected.label}: ${rejected.reason}.`));
+        if (result.appliedEdits.length === 0 || result.content === originalContent) {
+            report.push(`Skipped ${relativePath}: none of its edits could be applied.`);
+            return undefined;
+        }
+        return { kind, uri, relativePath, originalContent, proposedContent: result.content };
+    }
+
+    /**
+     * Applies the accepted files of the previewed change set in one WorkspaceEdit. Nothing is applied if any file
+     * changed since the preview was built.
+     */
+    public async performConfirmedChangeSet(changeSetId: string, acceptedPaths: string[], webview: vscode.Webview): Promise<void> {
+        const changeSet = this.pendingChangeSet;
+        if (!changeSet || changeSet.id !== changeSetId) {
+            this.showSystemMessage(webview, "This change set is no longer available. Run /refactor again.", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        this.pendingChangeSet = undefined;
+
+        const accepted = changeSet.changes.filter(c => acceptedPaths.includes(c.relativePath));
+        if (accepted.length === 0) {
+            this.showSystemMessage(webview, "No files were accepted; nothing was changed.", this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        const refusal = await this.checkPolicy(accepted);
+        if (refusal) {
+            this.audit({ command: 'refactor', paths: accepted.map(c => c.relativePath), outcome: 'refused', detail: refusal });
+            this.showSystemMessage(webview, refusal, this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        try {
+            const changedSincePreview = await this.findChangedFiles(accepted);
+            if (changedSincePreview.length > 0) {
+                const errorMsg = `Nothing was applied: ${changedSincePreview.join(', ')} changed since the preview was created. Run /refactor again.`;
+                this.audit({ command: 'refactor', paths: accepted.map(c => c.relativePath), outcome: 'failed', detail: errorMsg });
+                this.showSystemMessage(webview, errorMsg, this.currentHistory);
+                webview.postMessage({ command: 'operationError', message: errorMsg, history: [...this.currentHistory] });
+                return;
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            for (const change of accepted) {
+                if (change.kind === 'create') {
+                    edit.createFile(change.uri, { overwrite: false, contents: new TextEncoder().encode(change.proposedContent) });
+                } else if (change.kind === 'delete') {
+                    edit.deleteFile(change.uri, { recursive: false, ignoreIfNotExists: false });
+                } else {
+                    const document = await vscode.workspace.openTextDocument(change.uri);
+                    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+                    edit.replace(change.uri, fullRange, change.proposedContent!);
+                }
+            }
+            if (!(await vscode.workspace.applyEdit(edit))) {
+                throw new Error('VS Code rejected the workspace edit; no files were changed.');
+            }
+            // Text edits only change the open documents; save them so the change set lands on disk like /write does
+            for (const change of accepted.filter(c => c.kind === 'modify')) {
+                await vscode.workspace.save(change.uri);
+            }
+            const journalChanges: JournalFileChange[] = [];
+            for (const change of accepted) {
+                journalChanges.push({
+                    relativePath: change.relativePath,
+                    before: change.originalContent === undefined ? undefined : new TextEncoder().encode(change.originalContent),
+                    after: await this.journal.readCurrent(change.uri) // As saved, so /undo compares against the real bytes
+                });
+            }
+            this.journal.record({
+                operation: 'changeSet',
+                label: `refactor ${accepted.length} file(s): ${changeSet.description}`,
+                changes: journalChanges,
+                removedDirectories: []
+            });
+
+            const rejectedCount = changeSet.changes.length - accepted.length;
+            const successMsg = `Applied changes to ${accepted.length} file(s): ${accepted.map(c => `${c.relativePath} (${c.kind})`).join(', ')}.`
+                + (rejectedCount > 0 ? ` ${rejectedCount} file(s) were rejected and left unchanged.` : '');
+            this.audit({ command: 'refactor', paths: accepted.map(c => c.relativePath), outcome: 'confirmed', detail: rejectedCount > 0 ? `${rejectedCount} file(s) rejected` : undefined });
+            this.showSystemMessage(webview, successMsg, this.currentHistory);
+            webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
+        } catch (error: any) {
+            this.audit({ command: 'refactor', paths: accepted.map(c => c.relativePath), outcome: 'failed', detail: error.message });
+            const errorMsg = `Error applying change set: ${error.message}`;
+            this.showSystemMessage(webview, errorMsg, this.currentHistory);
+            console.error(errorMsg, error);
+            webview.postMessage({ command: 'operationError', message: errorMsg, history: [...this.currentHistory] });
+        }
+    }
+
+    /**
+     * A change set must not get around the rules for the single-file commands: besides 'refactor' itself, each
+     * accepted file is checked as the create, write or delete it amounts to. The first refusal refuses the whole set.
+     */
+    private async checkPolicy(accepted: ChangeSetFileChange[]): Promise<string | undefined> {
+        const rootOf = (change: ChangeSetFileChange) => parseWorkspacePath(change.relativePath, this.getWorkspaceRoot()!).rootUri;
+        const refusal = await checkPolicyBeforeApplying('refactor', accepted.map(rootOf), `Apply the proposed changes to ${accepted.length} file(s)?`, 'refactor');
+        if (refusal) {
+            return refusal;
+        }
+        for (const kind of ['create', 'modify', 'delete'] as const) {
+            const changes = accepted.filter(change => change.kind === kind);
+            if (changes.length === 0) {
+                continue;
+            }
+            const operation = POLICY_OPERATION_OF[kind];
+            const fileRefusal = await checkPolicyBeforeApplying(
+                operation,
+                changes.map(rootOf),
+                `${operation.charAt(0).toUpperCase()}${operation.slice(1)} ${changes.map(change => change.relativePath).join(', ')} as part of the change set?`,
+                path.posix.basename(changes[0].relativePath.replace(/^[^/:]*:/, '')) || changes[0].relativePath
+            );
+            if (fileRefusal) {
+                return fileRefusal;
+            }
+        }
+        return undefined;
+    }
+
+    // Returns the files of the discarded change set, for the audit log
+    public discardPendingChangeSet(): string[] {
+        const paths = this.pendingChangeSet?.changes.map(c => c.relativePath) ?? [];
+        this.pendingChangeSet = undefined;
+        return paths;
+    }
+
+    private async findChangedFiles(changes: ChangeSetFileChange[]): Promise<string[]> {
+        const changed: string[] = [];
+        for (const change of changes) {
+            // Unsaved edits would be overwritten by the change set
+            if (vscode.workspace.textDocuments.some(d => d.uri.toString() === change.uri.toString() && d.isDirty)) {
+                changed.push(`${change.relativePath} (unsaved changes in the editor)`);
+                continue;
+            }
+            let currentContent: string | undefined;
+            try {
+                currentContent = await readFileContentUtil(change.uri);
+            } catch (error: any) {
+                if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                    throw error;
+                }
+            }
+            if (currentContent !== change.originalContent) {
+                changed.push(change.relativePath);
+            }
+        }
+        return changed;
+    }
+}
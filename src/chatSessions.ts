@@ -0,0 +1,166 @@
+// c:\Users\marti\gemini-fs\src\chatSessions.ts
+import * as vscode from 'vscode';
+import { ChatMessage } from './geminiService';
+
+// Persistence of the conversations in the workspace state
+const CHAT_STATE_STORAGE_KEY = 'geminiFS.chatState';
+const MAX_PERSISTED_HISTORY_MESSAGES = 200; // Older messages are dropped from storage, not from the live history
+const DEFAULT_SESSION_NAME = 'Default';
+
+export interface ConversationSession {
+    id: string;
+    name: string;
+    history: ChatMessage[];
+    contextualContent: { path: string, content: string }[];
+    pendingContextPaths: string[]; // Restored from storage, contents not read from disk yet
+}
+
+// Shape of a session in workspaceState. Only context paths are stored; contents are re-read from disk on restore.
+interface PersistedSession {
+    id: string;
+    name: string;
+    history: ChatMessage[];
+    contextPaths: string[];
+}
+
+interface PersistedChatState {
+    sessions?: PersistedSession[];
+    activeSessionId?: string;
+    // Single-conversation format written before sessions existed
+    history?: ChatMessage[];
+    contextPaths?: string[];
+}
+
+export class ChatSessionStore {
+    private sessions: ConversationSession[] = [];
+    private activeSessionId: string;
+
+    constructor(private workspaceState?: vscode.Memento) {
+        this.load();
+        if (this.sessions.length === 0) {
+            this.sessions.push(this.buildSession(DEFAULT_SESSION_NAME));
+        }
+        const savedActiveId = this.workspaceState?.get<PersistedChatState>(CHAT_STATE_STORAGE_KEY)?.activeSessionId;
+        this.activeSessionId = this.sessions.some(s => s.id === savedActiveId) ? savedActiveId! : this.sessions[0].id;
+    }
+
+    public get activeSession(): ConversationSession {
+        return this.sessions.find(s => s.id === this.activeSessionId) ?? this.sessions[0];
+    }
+
+    public listSessions(): ReadonlyArray<ConversationSession> {
+        return this.sessions;
+    }
+
+    // Summary sent to the webview's session dropdown
+    public getSessionSummaries(): { id: string, name: string, active: boolean }[] {
+        return this.sessions.map(s => ({ id: s.id, name: s.name, active: s.id === this.activeSessionId }));
+    }
+
+    /**
+     * Looks a session up by id or by name (case-insensitive).
+     */
+    public findSession(nameOrId: string): ConversationSession | undefined {
+        const wanted = nameOrId.trim().toLowerCase();
+        return this.sessions.find(s => s.id === nameOrId.trim()) ?? this.sessions.find(s => s.name.toLowerCase() === wanted);
+    }
+
+    public createSession(name?: string): ConversationSession {
+        const sessionName = name?.trim() || this.nextDefaultName();
+        this.assertNameAvailable(sessionName);
+        const session = this.buildSession(sessionName);
+        this.sessions.push(session);
+        this.activeSessionId = session.id;
+        return session;
+    }
+
+    public switchTo(session: ConversationSession): void {
+        this.activeSessionId = session.id;
+    }
+
+    public renameSession(session: ConversationSession, newName: string): void {
+        const trimmedName = newName.trim();
+        if (!trimmedName) {
+            throw new Error("Session name cannot be empty.");
+        }
+        if (trimmedName.toLowerCase() !== session.name.toLowerCase()) {
+            this.assertNameAvailable(trimmedName);
+        }
+        session.name = trimmedName;
+    }
+
+    /**
+     * Deletes a session. Deleting the active session activates the first remaining one.
+     */
+    public deleteSession(session: ConversationSession): void {
+        if (this.sessions.length === 1) {
+            throw new Error(`Cannot delete "${session.name}", it is the only session.`);
+        }
+        this.sessions = this.sessions.filter(s => s.id !== session.id);
+        if (this.activeSessionId === session.id) {
+            this.activeSessionId = this.sessions[0].id;
+        }
+    }
+
+    public async save(): Promise<void> {
+        if (!this.workspaceState) {
+            return;
+        }
+        const state: PersistedChatState = {
+            activeSessionId: this.activeSessionId,
+            sessions: this.sessions.map(s => ({
+                id: s.id,
+                name: s.name,
+                history: s.history.slice(-MAX_PERSISTED_HISTORY_MESSAGES),
+                // Context that has not been re-read yet must not be lost if the panel is closed before it was restored
+                contextPaths: [...s.contextualContent.map(c => c.path), ...s.pendingContextPaths.filter(p => !s.contextualContent.some(c => c.path === p))]
+            }))
+        };
+        try {
+            await this.workspaceState.update(CHAT_STATE_STORAGE_KEY, state);
+        } catch (error) {
+            console.error("ChatSessionStore: Failed to save chat state:", error);
+        }
+    }
+
+    private load(): void {
+        const savedState = this.workspaceState?.get<PersistedChatState>(CHAT_STATE_STORAGE_KEY);
+        if (!savedState) {
+            return;
+        }
+        if (savedState.sessions) {
+            this.sessions = savedState.sessions.map(s => ({
+                id: s.id,
+                name: s.name,
+                history: s.history ?? [],
+                contextualContent: [],
+                pendingContextPaths: s.contextPaths ?? []
+            }));
+        } else if (savedState.history) {
+            const migrated = this.buildSession(DEFAULT_SESSION_NAME);
+            migrated.history = savedState.history;
+            migrated.pendingContextPaths = savedState.contextPaths ?? [];
+            this.sessions = [migrated];
+        }
+        console.log(`ChatSessionStore: Loaded ${this.sessions.length} session(s) from workspace state.`);
+    }
+
+    private buildSession(name: string): ConversationSession {
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        return { id, name, history: [], contextualContent: [], pendingContextPaths: [] };
+    }
+
+    private nextDefaultName(): string {
+        let counter = this.sessions.length + 1;
+        while (this.findSession(`Session ${counter}`)) {
+            counter++;
+        }
+        return `Session ${counter}`;
+    }
+
+    private assertNameAvailable(name: string): void {
+        if (this.sessions.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`A session named "${name}" already exists.`);
+        }
+    }
+}
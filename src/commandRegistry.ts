@@ -0,0 +1,343 @@
+// c:\Users\marti\gemini-fs\src\commandRegistry.ts
+
+// Parsing and dispatch of the slash commands typed into the chat panel. Each command declares its usage,
+// flags and argument counts here, which drives validation, `/help` and the "did you mean" hints.
+
+export interface CommandFlag {
+    name: string; // Without dashes, e.g. 'recursive'
+    alias?: string; // Single letter, used as -r
+    valueName?: string; // Set if the flag takes a value: --glob <valueName> or --glob=value
+    description: string;
+}
+
+export interface CommandDefinition<TContext> {
+    name: string; // Without the slash
+    usage: string[]; // One line per form, e.g. '/context list'
+    description: string;
+    flags?: CommandFlag[];
+    subcommands?: string[]; // If set, the first argument must be one of these
+    minArgs?: number;
+    maxArgs?: number;
+    // After this many arguments, the rest of the line is passed on verbatim as `text` (descriptions, session names)
+    freeTextAfter?: number;
+    pathArguments?: number; // How many leading arguments are workspace paths, for the webview's path completion
+    run(command: ParsedCommand, context: TContext): Promise<void>;
+}
+
+// What the webview's autocomplete knows about a command
+export interface CommandDescription {
+    name: string;
+    usage: string;
+    description: string;
+    subcommands: string[];
+    pathArguments: number;
+}
+
+export interface ParsedCommand {
+    name: string;
+    args: string[];
+    flags: Record<string, string | true>; // Keyed by the flag's long name
+    text: string; // Verbatim rest of the line for commands with freeTextAfter (unquoted if it is one quoted argument), otherwise ''
+}
+
+// Thrown for input that does not fit a command's declaration. The message is meant for the chat.
+export class CommandLineError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CommandLineError';
+    }
+}
+
+export interface CommandToken {
+    value: string;
+    quoted: boolean; // Quoted tokens are never flags
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits a command line on whitespace. "double" and 'single' quotes group words (a quote may start mid-token,
+ * as in name="a b"), and inside double quotes \" and \\ are escapes.
+ */
+export function tokenizeCommandLine(text: string): CommandToken[] {
+    const tokens: CommandToken[] = [];
+    let token: CommandToken | undefined;
+    let position = 0;
+    while ((token = readToken(text, position)) !== undefined) {
+        tokens.push(token);
+        position = token.end;
+    }
+    return tokens;
+}
+
+// Reads one token starting at or after `position`, or returns undefined at the end of the line. Reading token by
+// token lets free text such as "don't touch it" follow the arguments without its quotes being parsed.
+function readToken(text: string, position: number): CommandToken | undefined {
+    let i = position;
+    while (i < text.length && /\s/.test(text[i])) {
+        i++;
+    }
+    if (i >= text.length) {
+        return undefined;
+    }
+    const start = i;
+    let value = '';
+    let quoted = false;
+    while (i < text.length && !/\s/.test(text[i])) {
+        const quote = text[i];
+        if (quote !== '"' && quote !== "'") {
+            value += text[i++];
+            continue;
+        }
+        quoted = true;
+        i++;
+        while (i < text.length && text[i] !== quote) {
+            if (quote === '"' && text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+                i++;
+            }
+            value += text[i++];
+        }
+        if (i >= text.length) {
+            throw new CommandLineError(`Missing closing ${quote} in: ${text.substring(start)}`);
+        }
+        i++; // Closing quote
+    }
+    return { value, quoted, start, end: i };
+}
+
+// `/session new "My session"` names the session My session: free text that is exactly one quoted argument is
+// unquoted like any other argument. Anything else, such as a description quoting a word, stays verbatim.
+function unquoteFreeText(text: string): string {
+    if (!/^["']/.test(text)) {
+        return text;
+    }
+    try {
+        const token = readToken(text, 0);
+        return token && token.end === text.length ? token.value : text;
+    } catch (error: any) {
+        return text; // An apostrophe in prose, not a quoted argument
+    }
+}
+
+/**
+ * Quotes a single argument if it would otherwise be split or read as a flag.
+ */
+export function quoteArgument(value: string): string {
+    if (value !== '' && !/[\s"'\\]/.test(value) && !value.startsWith('-')) {
+        return value;
+    }
+    return `"${value.replace(/[\\"]/g, match => `\\${match}`)}"`;
+}
+
+/**
+ * The name of the command `messageText` invokes ('read' for "/read x"), or undefined if it is not a
+ * command. Paths such as "/etc/hosts is missing" are not commands, so they still go to Gemini.
+ */
+export function getCommandName(messageText: string): string | undefined {
+    const match = messageText.match(/^\/([A-Za-z][\w-]*)(?=\s|$)/);
+    return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Closest candidates within a small edit distance, best first. Prefixes count as close in both directions
+ * ("/ref" → /refactor, "/listfoo" → /list).
+ */
+export function suggestSimilar(input: string, candidates: string[]): string[] {
+    const lowerInput = input.toLowerCase();
+    const maxDistance = lowerInput.length <= 3 ? 1 : 2;
+    return candidates
+        .map(candidate => ({
+            candidate,
+            distance: lowerInput.length >= 2 && (candidate.startsWith(lowerInput) || lowerInput.startsWith(candidate))
+                ? 0
+                : editDistance(lowerInput, candidate.toLowerCase())
+        }))
+        .filter(entry => entry.distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .map(entry => entry.candidate);
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function didYouMean(suggestions: string[]): string {
+    return suggestions.length > 0 ? ` Did you mean ${suggestions.slice(0, 3).join(', ')}?` : '';
+}
+
+export class CommandRegistry<TContext> {
+    private commands = new Map<string, CommandDefinition<TContext>>();
+
+    public register(definition: CommandDefinition<TContext>): void {
+        if (this.commands.has(definition.name) || definition.name === 'help') {
+            throw new Error(`Command /${definition.name} is already registered.`);
+        }
+        this.commands.set(definition.name, definition);
+    }
+
+    public has(name: string): boolean {
+        return name === 'help' || this.commands.has(name);
+    }
+
+    public get names(): string[] {
+        return [...this.commands.keys(), 'help'].sort();
+    }
+
+    /**
+     * Parses `messageText` against its command's declaration. `/help` is built in and parsed like any other command.
+     */
+    public parse(messageText: string): ParsedCommand {
+        const name = getCommandName(messageText);
+        if (!name) {
+            throw new CommandLineError(`Not a command: ${messageText}`);
+        }
+        const definition = name === 'help' ? this.helpDefinition : this.commands.get(name);
+        if (!definition) {
+            throw new CommandLineError(`Unknown command /${name}.${didYouMean(suggestSimilar(name, this.names).map(candidate => `/${candidate}`))} Type /help for the list of commands.`);
+        }
+
+        const argumentText = messageText.substring(name.length + 1);
+        const flags: Record<string, string | true> = {};
+        const args: string[] = [];
+        let text = '';
+        let flagsEnded = false;
+        let position = 0;
+        for (;;) {
+            if (definition.freeTextAfter !== undefined && args.length === definition.freeTextAfter) {
+                text = unquoteFreeText(argumentText.substring(position).trim());
+                break;
+            }
+            const token = readToken(argumentText, position);
+            if (!token) {
+                break;
+            }
+            position = token.end;
+            if (!flagsEnded && !token.quoted && token.value === '--') {
+                flagsEnded = true;
+                continue;
+            }
+            if (flagsEnded || token.quoted || !/^--?[A-Za-z]/.test(token.value)) {
+                args.push(token.value);
+                continue;
+            }
+            if (token.value === '--help' || token.value === '-h') {
+                // `/read --help` is the same as `/help read`, whatever else is on the line
+                return { name: 'help', args: [name], flags: {}, text: '' };
+            }
+            const equalsIndex = token.value.indexOf('=');
+            const flagText = equalsIndex === -1 ? token.value : token.value.substring(0, equalsIndex);
+            const inlineValue = equalsIndex === -1 ? undefined : token.value.substring(equalsIndex + 1);
+            const flag = this.findFlag(definition, flagText);
+            if (flag.valueName) {
+                const valueToken = inlineValue === undefined ? readToken(argumentText, position) : undefined;
+                const value = inlineValue ?? valueToken?.value;
+                if (value === undefined) {
+                    throw new CommandLineError(`--${flag.name} needs a value: --${flag.name} <${flag.valueName}>`);
+                }
+                position = valueToken?.end ?? position;
+                flags[flag.name] = value;
+            } else {
+                if (inlineValue !== undefined) {
+                    throw new CommandLineError(`--${flag.name} does not take a value.`);
+                }
+                flags[flag.name] = true;
+            }
+        }
+
+        const usage = `Usage: ${definition.usage.join(' | ')}`;
+        if (definition.subcommands && args.length > 0 && !definition.subcommands.includes(args[0].toLowerCase())) {
+            throw new CommandLineError(`Unknown subcommand "${args[0]}" for /${name}.${didYouMean(suggestSimilar(args[0], definition.subcommands))}\n${usage}`);
+        }
+        if (args.length < (definition.minArgs ?? 0)) {
+            throw new CommandLineError(usage);
+        }
+        if (definition.maxArgs !== undefined && args.length > definition.maxArgs) {
+            throw new CommandLineError(`Too many arguments for /${name}. Quote paths that contain spaces, e.g. "my file.txt".\n${usage}`);
+        }
+        return { name, args, flags, text };
+    }
+
+    /**
+     * Parses and runs a command. Input errors are thrown as CommandLineError before anything runs.
+     */
+    public async execute(messageText: string, context: TContext, showHelp: (helpText: string) => void): Promise<void> {
+        await this.run(this.parse(messageText), context, showHelp);
+    }
+
+    // Runs an already parsed command, for callers that check it (e.g. against the workspace policy) in between
+    public async run(command: ParsedCommand, context: TContext, showHelp: (helpText: string) => void): Promise<void> {
+        if (command.name === 'help') {
+            showHelp(this.formatHelp(command.args[0]));
+            return;
+        }
+        await this.commands.get(command.name)!.run(command, context);
+    }
+
+    public describeCommands(): CommandDescription[] {
+        const definitions = [...this.commands.values(), this.helpDefinition].sort((a, b) => a.name.localeCompare(b.name));
+        return definitions.map(definition => ({
+            name: definition.name,
+            usage: definition.usage[0],
+            description: definition.description,
+            subcommands: definition.name === 'help' ? this.names : definition.subcommands ?? [],
+            pathArguments: definition.pathArguments ?? 0
+        }));
+    }
+
+    /**
+     * `/help` output: an overview of all commands, or the details of one.
+     */
+    public formatHelp(commandName?: string): string {
+        if (!commandName) {
+            const lines = [...this.commands.values()]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(definition => `${definition.usage[0]} — ${definition.description}`);
+            return ['Commands:', ...lines, '/help [command] — Show this list, or details about one command.', '', 'Type /help <command> for options and examples. Quote paths that contain spaces.'].join('\n');
+        }
+        const name = commandName.replace(/^\//, '').toLowerCase();
+        const definition = name === 'help' ? this.helpDefinition : this.commands.get(name);
+        if (!definition) {
+            throw new CommandLineError(`Unknown command /${name}.${didYouMean(suggestSimilar(name, this.names).map(candidate => `/${candidate}`))}`);
+        }
+        const lines = [`/${definition.name} — ${definition.description}`, 'Usage:', ...definition.usage.map(line => `  ${line}`)];
+        if (definition.flags && definition.flags.length > 0) {
+            lines.push('Options:');
+            for (const flag of definition.flags) {
+                const names = `--${flag.name}${flag.valueName ? ` <${flag.valueName}>` : ''}${flag.alias ? `, -${flag.alias}` : ''}`;
+                lines.push(`  ${names}  ${flag.description}`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    private findFlag(definition: CommandDefinition<TContext>, flagText: string): CommandFlag {
+        const flags = definition.flags ?? [];
+        const flag = flagText.startsWith('--')
+            ? flags.find(candidate => candidate.name === flagText.substring(2))
+            : flags.find(candidate => candidate.alias === flagText.substring(1));
+        if (!flag) {
+            const suggestions = suggestSimilar(flagText.replace(/^--?/, ''), flags.map(candidate => candidate.name)).map(candidate => `--${candidate}`);
+            const known = flags.length > 0 ? ` Options: ${flags.map(candidate => `--${candidate.name}`).join(', ')}.` : ` /${definition.name} has no options.`;
+            throw new CommandLineError(`Unknown option ${flagText} for /${definition.name}.${suggestions.length > 0 ? didYouMean(suggestions) : known}`);
+        }
+        return flag;
+    }
+
+    private get helpDefinition(): CommandDefinition<TContext> {
+        return {
+            name: 'help',
+            usage: ['/help', '/help <command>'],
+            description: 'List the commands, or show the usage and options of one.',
+            maxArgs: 1,
+            run: async () => { /* Handled in execute */ }
+        };
+    }
+}
@@ -0,0 +1,116 @@
+// c:\Users\marti\gemini-fs\src\contextCollector.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore = require('ignore');
+import { formatWorkspacePath } from './workspaceFolders';
+
+// Folders that are never worth sending to Gemini, regardless of .gitignore or files.exclude
+const ALWAYS_EXCLUDED_GLOBS = ['**/node_modules/**', '**/.git/**'];
+const MAX_CONTEXT_CANDIDATES = 1000; // Upper bound on files considered for a single /context call
+
+const BINARY_FILE_EXTENSIONS = new Set([
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tiff', '.psd',
+    '.pdf', '.zip', '.gz', '.tgz', '.bz2', '.7z', '.rar', '.tar', '.jar', '.war',
+    '.exe', '.dll', '.so', '.dylib', '.bin', '.o', '.a', '.lib', '.class', '.pyc', '.wasm',
+    '.woff', '.woff2', '.ttf', '.otf', '.eot',
+    '.mp3', '.mp4', '.wav', '.ogg', '.flac', '.avi', '.mov', '.mkv', '.webm',
+    '.sqlite', '.db', '.vsix'
+]);
+const BINARY_SNIFF_BYTES = 8000; // Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+
+export interface ContextCandidate {
+    uri: vscode.Uri;
+    relativePath: string; // Relative to the workspace root, always with forward slashes
+}
+
+export interface ContextCandidateResult {
+    candidates: ContextCandidate[];
+    truncated: boolean; // More files matched than MAX_CONTEXT_CANDIDATES
+}
+
+export function isGlobPattern(rawPath: string): boolean {
+    return /[*?[\]{}]/.test(rawPath);
+}
+
+export function hasBinaryExtension(relativePath: string): boolean {
+    return BINARY_FILE_EXTENSIONS.has(path.extname(relativePath).toLowerCase());
+}
+
+export function looksLikeBinaryContent(bytes: Uint8Array): boolean {
+    const end = Math.min(bytes.length, BINARY_SNIFF_BYTES);
+    for (let i = 0; i < end; i++) {
+        if (bytes[i] === 0) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Builds the exclude glob passed to findFiles. Passing our own exclude turns off VS Code's default
+ * files.exclude handling, so those patterns are merged in here, plus search.exclude for /search.
+ */
+export function buildExcludeGlob(workspaceRoot: vscode.Uri, sections: ('files' | 'search')[] = ['files']): string {
+    const configuredGlobs = sections.flatMap(section => {
+        const excludes = vscode.workspace.getConfiguration(section, workspaceRoot).get<Record<string, boolean>>('exclude') ?? {};
+        return Object.entries(excludes)
+            .filter(([, enabled]) => enabled === true) // Conditional ("when") excludes are objects and are not supported by findFiles
+            .map(([glob]) => glob);
+    });
+    return `{${[...ALWAYS_EXCLUDED_GLOBS, ...configuredGlobs].join(',')}}`;
+}
+
+export function toRelativePath(workspaceRoot: vscode.Uri, uri: vscode.Uri): string {
+    return path.relative(workspaceRoot.fsPath, uri.fsPath).replace(/\\/g, '/');
+}
+
+/**
+ * Finds the files a /context argument refers to: a glob relative to the workspace root, or the files in a
+ * directory (direct children, or everything below it when `recursive` is set). `workspaceRoot` is the workspace
+ * folder the files are in; candidate paths carry its name in multi-root workspaces.
+ */
+export async function findContextCandidates(
+    workspaceRoot: vscode.Uri,
+    target: { glob: string } | { directory: vscode.Uri, recursive: boolean }
+): Promise<ContextCandidateResult> {
+    const pattern = 'glob' in target
+        ? new vscode.RelativePattern(workspaceRoot, target.glob.replace(/\\/g, '/').replace(/^\.?\//, ''))
+        : new vscode.RelativePattern(target.directory, target.recursive ? '**/*' : '*');
+    // Ask for one more than the cap so we can tell the user the result was cut off
+    const uris = await vscode.workspace.findFiles(pattern, buildExcludeGlob(workspaceRoot), MAX_CONTEXT_CANDIDATES + 1);
+    const truncated = uris.length > MAX_CONTEXT_CANDIDATES;
+    const candidates = uris
+        .slice(0, MAX_CONTEXT_CANDIDATES)
+        .map(uri => ({ uri, relativePath: formatWorkspacePath(workspaceRoot, toRelativePath(workspaceRoot, uri)) }))
+        .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    return { candidates, truncated };
+}
+
+/**
+ * Loads every .gitignore in the workspace (outside node_modules/.git) and returns a predicate telling whether
+ * a workspace-relative path is ignored. Each file's rules apply relative to the folder it lives in.
+ */
+export async function loadGitignoreFilter(workspaceRoot: vscode.Uri): Promise<(relativePath: string) => boolean> {
+    const gitignoreUris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(workspaceRoot, '**/.gitignore'),
+        `{${ALWAYS_EXCLUDED_GLOBS.join(',')}}`
+    );
+    const matchers: { baseDir: string, matcher: ReturnType<typeof ignore> }[] = [];
+    for (const uri of gitignoreUris) {
+        try {
+            const rules = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+            const baseDir = path.posix.dirname(toRelativePath(workspaceRoot, uri));
+            matchers.push({ baseDir: baseDir === '.' ? '' : baseDir, matcher: ignore().add(rules) });
+        } catch (error: any) {
+            console.warn(`contextCollector: Could not read ${uri.fsPath}: ${error.message}`);
+        }
+    }
+
+    return (relativePath: string) => matchers.some(({ baseDir, matcher }) => {
+        if (baseDir && !relativePath.startsWith(`${baseDir}/`)) {
+            return false;
+        }
+        const pathFromBase = baseDir ? relativePath.slice(baseDir.length + 1) : relativePath;
+        return pathFromBase !== '' && matcher.ignores(pathFromBase);
+    });
+}
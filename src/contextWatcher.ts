@@ -0,0 +1,210 @@
+// c:\Users\marti\gemini-fs\src\contextWatcher.ts
+import * as vscode from 'vscode';
+import { ChatSessionStore, ConversationSession } from './chatSessions';
+import { getWorkspaceFolders, isMultiRootWorkspace, toWorkspacePath } from './workspaceFolders';
+import { looksLikeBinaryContent } from './contextCollector';
+
+const REFRESH_DEBOUNCE_MS = 1500; // Coalesces bursts of saves and keystrokes into one refresh per file
+
+type RefreshReason = 'changed on disk' | 'edited in the editor' | 'editor closed' | 'deleted';
+
+/**
+ * Keeps the files in /context in sync with the workspace: changed files are re-read (preferring unsaved editor
+ * buffers), renamed files follow their new path and deleted files are dropped. Covers every session, not only
+ * the active one.
+ */
+export class ContextWatcher implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
+    private pendingRefreshes = new Map<string, { uri: vscode.Uri, reason: RefreshReason }>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        private getWorkspaceRoot: () => vscode.Uri | undefined,
+        private sessionStore: ChatSessionStore,
+        private maxFileSize: (uri: vscode.Uri) => number, // Per file, the workspace policy can lower it per folder
+        // `uiOnly` notices are not kept in the history, so refreshes while typing don't grow every later prompt
+        private notify: (session: ConversationSession, notices: string[], uiOnly: boolean) => void
+    ) {
+        this.createFileWatchers();
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.createFileWatchers()),
+            vscode.workspace.onDidRenameFiles(e => e.files.forEach(({ oldUri, newUri }) => this.handleRename(oldUri, newUri))),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.contentChanges.length > 0) {
+                    this.scheduleRefresh(e.document.uri, 'edited in the editor');
+                }
+            }),
+            // Closing a dirty editor without saving discards the buffer we may have used; fall back to the disk version
+            vscode.workspace.onDidCloseTextDocument(document => this.scheduleRefresh(document.uri, 'editor closed'))
+        );
+    }
+
+    // One watcher per workspace folder, since context entries can come from any of them
+    private createFileWatchers(): void {
+        this.fileWatchers.forEach(watcher => watcher.dispose());
+        const workspaceRoot = this.getWorkspaceRoot();
+        const roots = isMultiRootWorkspace() ? getWorkspaceFolders().map(folder => folder.uri) : workspaceRoot ? [workspaceRoot] : [];
+        this.fileWatchers = roots.map(root => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, '**/*'));
+            watcher.onDidChange(uri => this.scheduleRefresh(uri, 'changed on disk'));
+            watcher.onDidCreate(uri => this.scheduleRefresh(uri, 'changed on disk'));
+            // A rename done outside VS Code shows up as delete + create; the delete is only applied if the file is still gone
+            watcher.onDidDelete(uri => this.scheduleRefresh(uri, 'deleted'));
+            return watcher;
+        });
+    }
+
+    private toContextPath(uri: vscode.Uri): string | undefined {
+        return toWorkspacePath(uri, this.getWorkspaceRoot());
+    }
+
+    // Context paths saved by older versions may start with a slash
+    private static samePath(contextPath: string, relativePath: string): boolean {
+        return contextPath.replace(/^\/+/, '') === relativePath;
+    }
+
+    private isInAnyContext(relativePath: string): boolean {
+        return this.sessionStore.listSessions().some(session =>
+            session.contextualContent.some(c => ContextWatcher.samePath(c.path, relativePath)));
+    }
+
+    private scheduleRefresh(uri: vscode.Uri, reason: RefreshReason): void {
+        const relativePath = this.toContextPath(uri);
+        if (!relativePath || !this.isInAnyContext(relativePath)) {
+            return;
+        }
+        this.pendingRefreshes.set(relativePath, { uri, reason });
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            void this.flushRefreshes();
+        }, REFRESH_DEBOUNCE_MS);
+    }
+
+    private async flushRefreshes(): Promise<void> {
+        const refreshes = [...this.pendingRefreshes.entries()];
+        this.pendingRefreshes.clear();
+        const noticesBySession = new Map<ConversationSession, string[]>();
+        const refreshesBySession = new Map<ConversationSession, string[]>();
+
+        for (const [relativePath, { uri, reason }] of refreshes) {
+            const latest = await this.readLatestContent(uri);
+            for (const session of this.sessionStore.listSessions()) {
+                const index = session.contextualContent.findIndex(c => ContextWatcher.samePath(c.path, relativePath));
+                if (index === -1) {
+                    continue;
+                }
+                const notices = noticesBySession.get(session) ?? [];
+                const refreshed = refreshesBySession.get(session) ?? [];
+                if (latest.status === 'missing') {
+                    session.contextualContent.splice(index, 1);
+                    notices.push(`Removed ${relativePath} from context: the file was deleted.`);
+                } else if (latest.status === 'tooLarge') {
+                    session.contextualContent.splice(index, 1);
+                    notices.push(`Removed ${relativePath} from context: it grew beyond ${this.maxFileSize(uri) / 1024}KB.`);
+                } else if (latest.status === 'binary') {
+                    session.contextualContent.splice(index, 1);
+                    notices.push(`Removed ${relativePath} from context: it no longer looks like a text file.`);
+                } else if (latest.status === 'ok' && latest.content !== session.contextualContent[index].content) {
+                    session.contextualContent[index].content = latest.content;
+                    refreshed.push(`Refreshed ${relativePath} in context (${latest.fromEditor ? 'unsaved editor changes' : reason}).`);
+                }
+                if (notices.length > 0) {
+                    noticesBySession.set(session, notices);
+                }
+                if (refreshed.length > 0) {
+                    refreshesBySession.set(session, refreshed);
+                }
+            }
+        }
+
+        noticesBySession.forEach((notices, session) => this.notify(session, notices, false));
+        refreshesBySession.forEach((notices, session) => this.notify(session, notices, true));
+    }
+
+    // Applies the same per-file limit and binary check as /context, whether the text comes from the editor or the disk
+    private async readLatestContent(uri: vscode.Uri): Promise<{ status: 'ok', content: string, fromEditor: boolean } | { status: 'missing' | 'tooLarge' | 'binary' | 'unreadable' }> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument?.isDirty) {
+            const content = openDocument.getText();
+            const bytes = new TextEncoder().encode(content);
+            if (bytes.length > this.maxFileSize(uri)) {
+                return { status: 'tooLarge' };
+            }
+            return looksLikeBinaryContent(bytes) ? { status: 'binary' } : { status: 'ok', content, fromEditor: true };
+        }
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type !== vscode.FileType.File) {
+                return { status: 'missing' };
+            }
+            if (stat.size > this.maxFileSize(uri)) {
+                return { status: 'tooLarge' };
+            }
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            if (looksLikeBinaryContent(bytes)) {
+                return { status: 'binary' };
+            }
+            return { status: 'ok', content: new TextDecoder().decode(bytes), fromEditor: false };
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return { status: 'missing' };
+            }
+            // Keep the previous content rather than dropping the entry on a transient error
+            console.warn(`ContextWatcher: Could not re-read ${uri.fsPath}: ${error.message}`);
+            return { status: 'unreadable' };
+        }
+    }
+
+    private handleRename(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        const oldPath = this.toContextPath(oldUri);
+        const newPath = this.toContextPath(newUri);
+        if (!oldPath) {
+            return;
+        }
+        for (const session of this.sessionStore.listSessions()) {
+            const notices: string[] = [];
+            // Renaming a folder moves every context entry below it as well
+            for (const entry of session.contextualContent) {
+                const entryPath = entry.path.replace(/^\/+/, '');
+                if (entryPath !== oldPath && !entryPath.startsWith(`${oldPath}/`)) {
+                    continue;
+                }
+                if (newPath) {
+                    entry.path = newPath + entryPath.slice(oldPath.length);
+                    notices.push(`Context entry ${entryPath} renamed to ${entry.path}.`);
+                }
+            }
+            if (newPath) {
+                // Not loaded yet, they are re-read from disk on restore; only the path has to follow
+                session.pendingContextPaths = session.pendingContextPaths.map(p =>
+                    p === oldPath || p.startsWith(`${oldPath}/`) ? newPath + p.slice(oldPath.length) : p);
+            } else {
+                // Moved out of the workspace: treat as deleted
+                const before = session.contextualContent.length;
+                session.contextualContent = session.contextualContent.filter(c => {
+                    const entryPath = c.path.replace(/^\/+/, '');
+                    return entryPath !== oldPath && !entryPath.startsWith(`${oldPath}/`);
+                });
+                if (session.contextualContent.length !== before) {
+                    notices.push(`Removed ${before - session.contextualContent.length} file(s) under ${oldPath} from context: moved out of the workspace.`);
+                }
+            }
+            if (notices.length > 0) {
+                this.notify(session, notices, false);
+            }
+        }
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.fileWatchers.forEach(watcher => watcher.dispose());
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,102 @@
+// c:\Users\marti\gemini-fs\src\embeddingProvider.ts
+import * as vscode from 'vscode';
+import { GeminiService } from './geminiService';
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+/**
+ * Turns texts into vectors for the semantic index. Vectors from different providers (or models) cannot be
+ * compared, so `id` is stored with the index and a change of provider means a full rebuild.
+ */
+export interface EmbeddingProvider {
+    readonly id: string;
+    embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from the Gemini API. Better retrieval, but every rebuild and every chat message costs requests.
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+
+    constructor(private geminiService: GeminiService, private modelName: string) {
+        this.id = `gemini:${modelName}`;
+    }
+
+    public embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]> {
+        return this.geminiService.embedTexts(texts, this.modelName, purpose);
+    }
+}
+
+/**
+ * Deterministic, offline embeddings: a hashed bag of words, with identifiers also split into their
+ * camelCase/snake_case parts. Finds code that shares vocabulary with the question, nothing more clever.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    public readonly id = `local:hash-${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => embedLocally(text));
+    }
+}
+
+export function tokenizeForEmbedding(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) ?? []) {
+        const lower = word.toLowerCase();
+        const parts = word
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .split(/[\s_]+/)
+            .map(part => part.toLowerCase())
+            .filter(part => part.length > 1);
+        if (lower.length > 1) {
+            tokens.push(lower);
+        }
+        if (parts.length > 1) {
+            tokens.push(...parts);
+        }
+    }
+    return tokens;
+}
+
+function embedLocally(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenizeForEmbedding(text)) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, token) => {
+        const hash = fnv1a(token);
+        // The sign bit keeps colliding tokens from always adding up
+        vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    });
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * The provider chosen in geminiFS.index.embeddingProvider. Without an API key, `gemini` falls back to the
+ * local provider so the index keeps working offline; `usingFallback` tells the caller to mention it.
+ */
+export async function createEmbeddingProvider(geminiService: GeminiService): Promise<{ provider: EmbeddingProvider, usingFallback: boolean }> {
+    const config = vscode.workspace.getConfiguration('geminiFS');
+    if (config.get<string>('index.embeddingProvider', 'gemini') === 'local') {
+        return { provider: new LocalEmbeddingProvider(), usingFallback: false };
+    }
+    if (!(await geminiService.getApiKey())) {
+        return { provider: new LocalEmbeddingProvider(), usingFallback: true };
+    }
+    const modelName = config.get<string>('index.embeddingModel', DEFAULT_GEMINI_EMBEDDING_MODEL) || DEFAULT_GEMINI_EMBEDDING_MODEL;
+    return { provider: new GeminiEmbeddingProvider(geminiService, modelName), usingFallback: false };
+}
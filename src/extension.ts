@@ -4,6 +4,9 @@ import * as fs from 'fs';
 import * as path from 'path'; // Added for path operations
 import { GeminiService } from './geminiService';
 import { FileService } from './fileService';
+import { AuditLog } from './auditLog';
+import { isTokenBudgetChoice } from './tokenBudget';
+import { isIntentClarificationChoice } from './intentRouter';
 
 export function activate(context: vscode.ExtensionContext) {
     try {
@@ -12,7 +15,11 @@ export function activate(context: vscode.ExtensionContext) {
         const geminiService = new GeminiService(context);
         console.log('gemini-fs: GeminiService instantiated');
 
-        const fileService = new FileService({ geminiService });
+        const auditLog = new AuditLog(context.storageUri);
+        const fileService = new FileService({ geminiService, workspaceState: context.workspaceState, storageUri: context.storageUri, auditLog });
+        context.subscriptions.push(fileService); // Stops the context file watcher on deactivation
+        context.subscriptions.push(geminiService.onDidRedactSecrets(findings => fileService.notifySecretsRedacted(findings)));
+        context.subscriptions.push(geminiService.onDidCompleteRequest(request => fileService.recordGeminiRequest(request)));
         console.log('gemini-fs: FileService instantiated');
 
         console.log('Congratulations, your extension "gemini-fs" is now active!');
@@ -34,6 +41,31 @@ export function activate(context: vscode.ExtensionContext) {
             })
         );
 
+        context.subscriptions.push(
+            vscode.commands.registerCommand('gemini-fs.exportAuditLog', async () => {
+                try {
+                    const defaultName = `gemini-fs-audit-${new Date().toISOString().slice(0, 10)}.jsonl`;
+                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+                    const target = await vscode.window.showSaveDialog({
+                        title: 'Export Gemini FS Audit Log',
+                        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, defaultName) : undefined,
+                        filters: { 'JSON Lines': ['jsonl'] }
+                    });
+                    if (!target) {
+                        return;
+                    }
+                    if (await auditLog.exportTo(target)) {
+                        vscode.window.showInformationMessage(`Gemini FS audit log exported to ${target.fsPath}.`);
+                    } else {
+                        vscode.window.showInformationMessage('The Gemini FS audit log is empty for this workspace; nothing was exported.');
+                    }
+                } catch (error: any) {
+                    console.error("Error in exportAuditLog command:", error);
+                    vscode.window.showErrorMessage(`Failed to export the audit log: ${error.message}`);
+                }
+            })
+        );
+
         context.subscriptions.push(
             vscode.commands.registerCommand('gemini-fs.startChat', () => {
                 console.log('gemini-fs: startChat command triggered');
@@ -96,10 +128,44 @@ export function activate(context: vscode.ExtensionContext) {
                                 panel.webview.postMessage({ command: 'apiKey', key: currentApiKey });
                                 return;
 
+                            case 'webviewReady':
+                                // Sent once the webview script has loaded, so a restored transcript is not posted into the void
+                                fileService.postCommandList(panel.webview);
+                                await fileService.restoreConversation(panel.webview);
+                                return;
+
+                            case 'completePath':
+                                await fileService.completePath(typeof message.partialPath === 'string' ? message.partialPath : '', Number(message.requestId) || 0, panel.webview);
+                                return;
+
+                            case 'switchSession':
+                                console.log('gemini-fs: Webview requested session switch to:', message.sessionId);
+                                await fileService.switchSession(message.sessionId, panel.webview);
+                                return;
+
+                            case 'newSession':
+                                await fileService.createSession(undefined, panel.webview);
+                                return;
+
+                            case 'resolveTokenBudget':
+                                console.log('gemini-fs: Webview chose how to fit the token budget:', message.choice);
+                                await fileService.resolveTokenBudget(isTokenBudgetChoice(message.choice) ? message.choice : 'cancel', panel.webview);
+                                return;
+
+                            case 'resolveIntent': {
+                                console.log('gemini-fs: Webview answered intent clarification:', message.choice);
+                                const intentApiKey = await geminiService.getApiKey();
+                                const intentModelName = vscode.workspace.getConfiguration('geminiFS').get<string>('modelName', 'gemini-1.5-flash-latest');
+                                await fileService.resolveIntentClarification(isIntentClarificationChoice(message.choice) ? message.choice : 'cancel', panel.webview, intentApiKey ?? '', intentModelName);
+                                return;
+                            }
+
                             case 'sendToGemini':
                             case 'confirmCreate':
                             case 'confirmWrite':
                             case 'confirmDelete':
+                            case 'confirmChangeSet':
+                            case 'confirmTransfer':
                                 console.log('gemini-fs: Message from webview to Gemini:', message.text);
                                 const apiKey = await geminiService.getApiKey();
                                 console.log('[Extension.ts] Value from geminiService.getApiKey() for FileService:', apiKey ? `Exists (ends with ...${apiKey.slice(-4)})` : `Not set/Empty`, `(Raw: "${apiKey}")`);
@@ -121,7 +187,13 @@ export function activate(context: vscode.ExtensionContext) {
                                 } else if (message.command === 'confirmWrite') {
                                     console.log('gemini-fs: Webview confirmed file write for:', message.filePath);
                                     if (message.filePath && typeof message.proposedContent === 'string') {
-                                        payloadForFileService = { command: 'confirmWriteFile', filePath: message.filePath, newContent: message.proposedContent };
+                                        payloadForFileService = {
+                                            command: 'confirmWriteFile',
+                                            filePath: message.filePath,
+                                            newContent: message.proposedContent,
+                                            originalContent: typeof message.originalContent === 'string' ? message.originalContent : undefined, // Base for merging into unsaved edits
+                                            contentHash: typeof message.contentHash === 'string' ? message.contentHash : undefined // Detects changes since the preview
+                                        };
                                         messageTextForFileService = ''; // No text needed
                                     } else {
                                         console.error('gemini-fs: Invalid payload for confirmWrite', message);
@@ -138,14 +210,61 @@ export function activate(context: vscode.ExtensionContext) {
                                         panel.webview.postMessage({ command: 'geminiResponse', sender: 'system', text: 'Invalid data received for file deletion.', isError: true });
                                         return;
                                     }
+                                } else if (message.command === 'confirmChangeSet') {
+                                    console.log('gemini-fs: Webview confirmed change set', message.changeSetId, 'for:', message.acceptedPaths);
+                                    if (typeof message.changeSetId === 'string' && Array.isArray(message.acceptedPaths)) {
+                                        payloadForFileService = { command: 'confirmChangeSet', changeSetId: message.changeSetId, acceptedPaths: message.acceptedPaths.filter((p: unknown) => typeof p === 'string') };
+                                        messageTextForFileService = ''; // No text needed
+                                    } else {
+                                        console.error('gemini-fs: Invalid payload for confirmChangeSet', message);
+                                        panel.webview.postMessage({ command: 'geminiResponse', sender: 'system', text: 'Invalid data received for the change set.', isError: true });
+                                        return;
+                                    }
+                                } else if (message.command === 'confirmTransfer') {
+                                    console.log(`gemini-fs: Webview confirmed ${message.operation} of`, message.sourcePath, 'to', message.destinationPath);
+                                    if (['rename', 'move', 'copy'].includes(message.operation) && typeof message.sourcePath === 'string' && typeof message.destinationPath === 'string') {
+                                        payloadForFileService = {
+                                            command: 'confirmTransferFile',
+                                            operation: message.operation,
+                                            sourcePath: message.sourcePath,
+                                            destinationPath: message.destinationPath,
+                                            overwrite: message.overwrite === true
+                                        };
+                                        messageTextForFileService = ''; // No text needed
+                                    } else {
+                                        console.error('gemini-fs: Invalid payload for confirmTransfer', message);
+                                        panel.webview.postMessage({ command: 'geminiResponse', sender: 'system', text: 'Invalid data received for the rename, move or copy.', isError: true });
+                                        return;
+                                    }
                                 }
                                 await fileService.handleChatMessage(messageTextForFileService, panel.webview, apiKey as string, modelName as string, payloadForFileService || message.payload);
                                 return;
+                            case 'openSearchResult':
+                                if (typeof message.filePath === 'string') {
+                                    await fileService.openSearchResult(message.filePath, Number(message.line) || 1, Number(message.column) || 1, panel.webview);
+                                }
+                                return;
+
+                            case 'addSearchResultToContext':
+                                console.log('gemini-fs: Webview asked to add a search result to context:', message.filePath);
+                                if (typeof message.filePath === 'string') {
+                                    await fileService.addSearchResultToContext(message.filePath, panel.webview);
+                                }
+                                return;
+
+                            case 'cancelRequest':
+                                console.log('gemini-fs: Webview requested cancellation of the active Gemini request');
+                                if (!geminiService.cancelActiveRequests()) {
+                                    panel.webview.postMessage({ command: 'systemMessage', text: 'No Gemini request is in progress.' });
+                                }
+                                // The handler that issued the request reports the cancellation once it unwinds
+                                return;
                             // Case for when user discards changes from a preview in the webview
                             case 'discardChanges': // This command might be sent by webview if user clicks "Discard"
                                 console.log('gemini-fs: Webview requested to discard changes for file preview:', message.filePath);
                                 // Inform the user in the webview that the action was cancelled.
-                                // FileService doesn't need to do anything here as no FS operation was pending for confirmation.
+                                // No FS operation was pending for confirmation; FileService drops a pending /refactor change set and audits the discard.
+                                fileService.discardPreview(message.action, [message.filePath, message.destinationPath].filter(Boolean));
                                 panel.webview.postMessage({ command: 'geminiResponse', sender: 'system', text: `Changes discarded for ${message.filePath}. No action taken.` });
                                 return;
                             default:
@@ -156,8 +275,16 @@ export function activate(context: vscode.ExtensionContext) {
                     context.subscriptions
                 );
 
+                // Let the webview show the Stop button only while a request is actually in flight
+                const busyStateSubscription = geminiService.onDidChangeBusyState(busy => {
+                    panel.webview.postMessage({ command: 'requestStateChanged', busy });
+                });
+
                 panel.onDidDispose(() => {
                     console.log('gemini-fs: Webview panel disposed');
+                    busyStateSubscription.dispose();
+                    fileService.detachWebview(panel.webview);
+                    void fileService.saveState();
                     // Clean up resources when the panel is closed
                     // (e.g., if you had specific listeners or states tied to this panel instance)
                 }, null, context.subscriptions);
@@ -1,38 +1,174 @@
 // c:\Users\marti\gemini-fs\src\fileOperationCommands.ts
 import * as vscode from 'vscode';
-import { GeminiService, ChatMessage } from './geminiService';
-import { readFileContentUtil, writeFileContentUtil, resolvePathUtil, ensureWorkspaceOpenUtil } from './fileSystemUtils';
+import * as path from 'path';
+import { GeminiService, ChatMessage, GeminiRequestCancelledError } from './geminiService';
+import { readFileContentUtil, writeFileContentUtil, resolvePathUtil, resolvePathAcrossRootsUtil, ensureWorkspaceOpenUtil, hashContentUtil } from './fileSystemUtils';
+import { applyFileEdits, parseFileEdits } from './patchApplier';
+import { extractFileContent } from './responseCleaner';
+import { JournalError, OperationJournal } from './operationJournal';
+import { buildSearchRegex, searchWorkspaceFolders } from './workspaceSearch';
+import { mergeProposedChanges } from './textMerge';
+import { dirnameOfWorkspacePath, findWorkspaceFolder, formatWorkspacePath, getWorkspaceFolders, isMultiRootWorkspace, isWorkspaceFolderRoot, parseWorkspacePath, splitRootPrefix } from './workspaceFolders';
+import { checkPolicyBeforeApplying, getWorkspacePolicy, PolicyOperation } from './workspacePolicy';
+import { AuditEvent } from './auditLog';
+import { getDeniedPathMatcher, isRealPathInsideRoot } from './pathSecurity';
 
 // Constants from FileService, could be moved to a shared constants file or passed if they vary
 const MAX_FILE_SIZE_FOR_READ = 5 * 1024 * 1024;
 const MAX_FILE_SIZE_FOR_WRITE_PREVIEW = 1 * 1024 * 1024;
+const MAX_PATH_COMPLETIONS = 50;
+
+const PATCH_FORMAT_INSTRUCTIONS = [
+    'Describe the changes as one or more search/replace blocks in exactly this format:',
+    '<<<<<<< SEARCH',
+    '<lines copied exactly from the current file>',
+    '=======',
+    '<the lines that replace them>',
+    '>>>>>>> REPLACE',
+    'Each SEARCH section must match the current file exactly, including indentation, and must be unique in the file.',
+    'Include a few unchanged lines around each change if needed to make it unique. Do not output the whole file.'
+].join('\n');
+
+export type TransferOperation = 'rename' | 'move' | 'copy';
+
+export interface PathCompletion {
+    value: string; // Workspace-relative path as it should be inserted; folders end with '/'
+    isDirectory: boolean;
+}
 
 export class FileOperationCommands {
     constructor(
         private getWorkspaceRoot: () => vscode.Uri | undefined,
         private showSystemMessage: (webview: vscode.Webview, message: string, historyToUpdate?: ChatMessage[]) => void,
-        private currentHistory: ChatMessage[], // Direct reference for reading and appending
+        private getCurrentHistory: () => ChatMessage[], // History of the active session, read and appended to in place
         private geminiService: GeminiService,
-        private getContextualContent: () => { path: string, content: string }[]
+        private getContextualContent: () => { path: string, content: string }[],
+        private journal: OperationJournal, // Records confirmed file operations for /undo
+        private audit: (event: AuditEvent) => void // Proposed, confirmed, refused and failed operations go to the audit log
     ) {}
 
-    private _resolvePath(rawPath: string, webview: vscode.Webview, historyToUpdateForMessage?: ChatMessage[]): { uri: vscode.Uri, relativePath: string } | null {
-        return resolvePathUtil(rawPath, this.getWorkspaceRoot(), webview, this.showSystemMessage, historyToUpdateForMessage ?? this.currentHistory);
+    private get currentHistory(): ChatMessage[] {
+        return this.getCurrentHistory();
+    }
+
+    // `fallbackRoot` is where a path without folder prefix goes in a multi-root workspace if no folder has it.
+    // `access` 'write' refuses paths the workspace policy marks read-only.
+    private _resolvePath(
+        rawPath: string,
+        webview: vscode.Webview,
+        historyToUpdateForMessage?: ChatMessage[],
+        fallbackRoot?: vscode.Uri,
+        access: 'read' | 'write' = 'read'
+    ): Promise<{ uri: vscode.Uri, relativePath: string } | null> {
+        return resolvePathAcrossRootsUtil(rawPath, fallbackRoot ?? this.getWorkspaceRoot(), webview, this.showSystemMessage, historyToUpdateForMessage ?? this.currentHistory, access);
+    }
+
+    private rootOf(workspacePath: string): vscode.Uri {
+        return parseWorkspacePath(workspacePath, this.getWorkspaceRoot()!).rootUri;
+    }
+
+    /**
+     * Deleting or moving a folder also removes the files in it, so one holding a read-only path is refused as a whole.
+     * Reports the first read-only path found and returns true.
+     */
+    private async holdsReadOnlyPath(uri: vscode.Uri, workspacePath: string, webview: vscode.Webview): Promise<boolean> {
+        const { rootUri, relativePath } = parseWorkspacePath(workspacePath, this.getWorkspaceRoot()!);
+        const policy = getWorkspacePolicy(rootUri);
+        if (!policy.source) {
+            return false;
+        }
+        const findReadOnly = async (folderUri: vscode.Uri, folderPath: string): Promise<string | undefined> => {
+            let entries: [string, vscode.FileType][];
+            try {
+                entries = await vscode.workspace.fs.readDirectory(folderUri);
+            } catch (error: any) {
+                return undefined; // A file, or gone; the operation itself reports that
+            }
+            for (const [name, type] of entries) {
+                const childPath = folderPath && folderPath !== '.' ? `${folderPath}/${name}` : name;
+                const found = policy.isReadOnly(childPath) ? childPath
+                    : type === vscode.FileType.Directory ? await findReadOnly(vscode.Uri.joinPath(folderUri, name), childPath) : undefined;
+                if (found) {
+                    return found;
+                }
+            }
+            return undefined;
+        };
+        const readOnlyPath = await findReadOnly(uri, relativePath);
+        if (readOnlyPath) {
+            this.showSystemMessage(webview, `${workspacePath} contains ${formatWorkspacePath(rootUri, readOnlyPath)}, which is read-only according to ${policy.source}.`, this.currentHistory);
+            return true;
+        }
+        return false;
+    }
+
+    // Commands can be disabled and confirmations tightened in .gemini-fs.json while a preview is open, so this runs on confirmation
+    private async passesPolicy(operation: PolicyOperation, relativePaths: string[], description: string, webview: vscode.Webview): Promise<boolean> {
+        const typedConfirmation = path.posix.basename(relativePaths[0].replace(/^[^/:]*:/, '')) || relativePaths[0];
+        const refusal = await checkPolicyBeforeApplying(operation, relativePaths.map(relativePath => this.rootOf(relativePath)), description, typedConfirmation);
+        if (refusal) {
+            this.audit({ command: operation, paths: relativePaths, outcome: 'refused', detail: refusal });
+            this.showSystemMessage(webview, refusal, this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return false;
+        }
+        return true;
     }
     
     private _ensureWorkspaceOpen(webview: vscode.Webview): boolean {
         return ensureWorkspaceOpenUtil(this.getWorkspaceRoot(), webview, this.showSystemMessage, this.currentHistory);
     }
 
-    public async handleReadCommand(messageText: string, webview: vscode.Webview): Promise<void> {
-        const filePath = messageText.substring('/read '.length).trim();
+    /**
+     * Entries of the folder `partialPath` points into whose names start with its last segment, folders first.
+     * Invalid or missing folders give no completions rather than a chat message.
+     */
+    public async completePath(partialPath: string, webview: vscode.Webview): Promise<PathCompletion[]> {
+        const normalized = partialPath.replace(/\\/g, '/');
+        const prefixed = splitRootPrefix(normalized);
+        if (isMultiRootWorkspace() && !normalized.includes('/') && !(prefixed && findWorkspaceFolder(prefixed.rootName))) {
+            // Nothing chosen yet: offer the workspace folders
+            return getWorkspaceFolders()
+                .filter(folder => folder.name.toLowerCase().startsWith(normalized.toLowerCase()))
+                .map(folder => ({ value: `${folder.name}:`, isDirectory: true }))
+                .slice(0, MAX_PATH_COMPLETIONS);
+        }
+        const prefixLength = prefixed && isMultiRootWorkspace() ? prefixed.rootName.length + 1 : 0;
+        const folderPart = normalized.substring(0, Math.max(normalized.lastIndexOf('/') + 1, prefixLength));
+        const namePrefix = normalized.substring(folderPart.length).toLowerCase();
+        const resolved = resolvePathUtil(folderPart || '.', this.getWorkspaceRoot(), webview, () => { /* No chat message while typing */ });
+        if (!resolved) {
+            return [];
+        }
+        // A symlinked folder may point out of the workspace; don't list what is behind it
+        const { rootUri, relativePath } = parseWorkspacePath(resolved.relativePath, this.getWorkspaceRoot()!);
+        if (!await isRealPathInsideRoot(rootUri, resolved.uri)) {
+            return [];
+        }
+        const isDenied = getDeniedPathMatcher();
+        const policy = getWorkspacePolicy(rootUri);
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(resolved.uri);
+        } catch (error: any) {
+            return []; // Folder does not exist (yet) or is unreadable
+        }
+        return entries
+            .filter(([name]) => name.toLowerCase().startsWith(namePrefix) && (namePrefix.startsWith('.') || !name.startsWith('.')))
+            .filter(([name]) => !isDenied(path.posix.join(relativePath, name)) && !policy.isForbidden(path.posix.join(relativePath, name)))
+            .map(([name, type]) => ({ value: `${folderPart}${name}${type & vscode.FileType.Directory ? '/' : ''}`, isDirectory: (type & vscode.FileType.Directory) !== 0 }))
+            .sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.value.localeCompare(b.value))
+            .slice(0, MAX_PATH_COMPLETIONS);
+    }
+
+    public async handleReadCommand(filePath: string, webview: vscode.Webview): Promise<void> {
         if (!filePath) {
             this.showSystemMessage(webview, "Usage: /read <filePath>", this.currentHistory);
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
 
-        const resolvedPath = this._resolvePath(filePath, webview);
+        const resolvedPath = await this._resolvePath(filePath, webview);
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
@@ -45,8 +181,9 @@ export class FileOperationCommands {
                 webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
                 return;
             }
-            if (stat.size > MAX_FILE_SIZE_FOR_READ) {
-                this.showSystemMessage(webview, `File is too large to read directly (${(stat.size / (1024*1024)).toFixed(2)}MB). Max size: ${(MAX_FILE_SIZE_FOR_READ / (1024*1024))}MB.`, this.currentHistory);
+            const maxReadFileSize = getWorkspacePolicy(this.rootOf(resolvedPath.relativePath)).maxReadFileSize ?? MAX_FILE_SIZE_FOR_READ;
+            if (stat.size > maxReadFileSize) {
+                this.showSystemMessage(webview, `File is too large to read directly (${(stat.size / (1024*1024)).toFixed(2)}MB). Max size: ${(maxReadFileSize / (1024*1024)).toFixed(2)}MB.`, this.currentHistory);
                 webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
                 return;
             }
@@ -71,9 +208,15 @@ export class FileOperationCommands {
         }
     }
 
-    public async handleListCommand(messageText: string, webview: vscode.Webview): Promise<void> {
-        const folderPath = messageText.substring('/list'.length).trim() || '.';
-        const resolvedPath = this._resolvePath(folderPath, webview);
+    public async handleListCommand(folderPath: string | undefined, webview: vscode.Webview): Promise<void> {
+        if (folderPath === undefined && isMultiRootWorkspace()) {
+            let listing = 'Workspace folders (prefix paths with the folder name, e.g. /list name:src):\n';
+            listing += getWorkspaceFolders().map(folder => `${folder.name}:  ${folder.uri.fsPath}`).join('\n');
+            this.currentHistory.push({ role: 'model', parts: [{ text: listing }] });
+            webview.postMessage({ command: 'directoryListed', path: '', listing: listing, history: [...this.currentHistory] });
+            return;
+        }
+        const resolvedPath = await this._resolvePath(folderPath ?? '.', webview);
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
@@ -107,17 +250,8 @@ export class FileOperationCommands {
         }
     }
 
-    public async handleCreateCommand(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
-        const parts = messageText.substring('/create '.length).trim().match(/^(\S+)\s*(.*)$/);
-        if (!parts) {
-            this.showSystemMessage(webview, "Usage: /create <filePath> [description of content]", this.currentHistory);
-            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
-            return;
-        }
-        const filePath = parts[1];
-        const description = parts[2] || "Create an empty file.";
-
-        const resolvedPath = this._resolvePath(filePath, webview);
+    public async handleCreateCommand(filePath: string, description: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
@@ -167,16 +301,25 @@ export class FileOperationCommands {
         }
 
         try {
-            const generatedContent = await this.geminiService.askGeminiWithHistory(historyForGemini);
+            const geminiResponse = this.geminiService.restoreRedactedSecrets(await this.geminiService.askGeminiWithHistory(historyForGemini));
+            const generated = this.cleanGeneratedContent(geminiResponse, resolvedPath.relativePath, webview);
             this.currentHistory.push({ role: 'model', parts: [{ text: `Okay, I've generated content for ${resolvedPath.relativePath}. Please review and confirm.` }] });
+            this.audit({ command: 'create', paths: [resolvedPath.relativePath], outcome: 'proposed' });
             webview.postMessage({
                 command: 'showFilePreviewForCreate', // Updated command
                 filePath: resolvedPath.relativePath,
-                proposedContent: generatedContent,
+                proposedContent: generated.content,
+                strippedText: generated.strippedText,
                 description: `Preview of content for ${resolvedPath.relativePath}:`,
                 history: [...this.currentHistory]
             });
         } catch (error: any) {
+            if (error instanceof GeminiRequestCancelledError) {
+                // No preview for a cancelled turn, not even the "create empty file?" fallback
+                this.showSystemMessage(webview, `Request cancelled by user. No file was created for ${resolvedPath.relativePath}.`, this.currentHistory);
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return;
+            }
             const errorMessage = `Error generating content with Gemini: ${error.message || 'Unknown error'}`;
             this.showSystemMessage(webview, errorMessage, this.currentHistory);
             console.error(errorMessage, error);
@@ -190,18 +333,76 @@ export class FileOperationCommands {
         }
     }
 
+    /**
+     * Shows content Gemini proposed through the propose_write tool in the usual create or write preview, so it goes
+     * through the same confirmation as /create and /write. Returns the workspace-relative path; throws on invalid paths.
+     */
+    public async showProposedChange(filePath: string, redactedContent: string, summary: string, webview: vscode.Webview): Promise<{ relativePath: string, isNewFile: boolean }> {
+        let pathProblem: string | undefined;
+        const resolvedPath = await resolvePathAcrossRootsUtil(filePath, this.getWorkspaceRoot(), webview, (_webview, message) => { pathProblem = message; }, undefined, 'write');
+        if (!resolvedPath) {
+            throw new Error(pathProblem ?? `Invalid path: ${filePath}`);
+        }
+        const proposedContent = this.geminiService.restoreRedactedSecrets(redactedContent);
+        const originalContent = await this.readCurrentText(resolvedPath.uri);
+        const description = summary ? `Gemini proposes: ${summary}` : `Review proposed changes for ${resolvedPath.relativePath}:`;
+        this.audit({ command: originalContent === undefined ? 'create' : 'write', paths: [resolvedPath.relativePath], outcome: 'proposed', detail: 'proposed through the propose_write tool' });
+        if (originalContent === undefined) {
+            webview.postMessage({
+                command: 'showFilePreviewForCreate',
+                filePath: resolvedPath.relativePath,
+                proposedContent,
+                description,
+                history: [...this.currentHistory]
+            });
+            return { relativePath: resolvedPath.relativePath, isNewFile: true };
+        }
+        webview.postMessage({
+            command: 'showFilePreviewForWrite',
+            filePath: resolvedPath.relativePath,
+            originalContent,
+            contentHash: hashContentUtil(originalContent),
+            proposedContent,
+            description,
+            history: [...this.currentHistory]
+        });
+        return { relativePath: resolvedPath.relativePath, isNewFile: false };
+    }
+
     public async performConfirmedCreate(filePath: string, content: string, webview: vscode.Webview): Promise<void> {
-        const resolvedPath = this._resolvePath(filePath, webview);
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
+        if (!await this.passesPolicy('create', [resolvedPath.relativePath], `Create ${resolvedPath.relativePath}?`, webview)) {
+            return;
+        }
         try {
-            await writeFileContentUtil(resolvedPath.uri, content);
+            const before = await this.journal.readCurrent(resolvedPath.uri);
+            if (before !== undefined) {
+                throw new Error('the file was created by someone else since the preview was shown');
+            }
+            if (this.usesEditorApplyMode()) {
+                const edit = new vscode.WorkspaceEdit();
+                edit.createFile(resolvedPath.uri, { overwrite: false });
+                edit.insert(resolvedPath.uri, new vscode.Position(0, 0), content);
+                await this.applyAndSave(edit, resolvedPath.uri, true);
+            } else {
+                await writeFileContentUtil(resolvedPath.uri, content);
+            }
+            this.journal.record({
+                operation: 'create',
+                label: `create ${resolvedPath.relativePath}`,
+                changes: [{ relativePath: resolvedPath.relativePath, before, after: await this.journal.readCurrent(resolvedPath.uri) }],
+                removedDirectories: []
+            });
             const successMsg = `File created: ${resolvedPath.relativePath}`;
+            this.audit({ command: 'create', paths: [resolvedPath.relativePath], outcome: 'confirmed' });
             this.showSystemMessage(webview, successMsg, this.currentHistory);
             webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
         } catch (error: any) {
+            this.audit({ command: 'create', paths: [resolvedPath.relativePath], outcome: 'failed', detail: error.message });
             const errorMsg = `Error creating file ${resolvedPath.relativePath}: ${error.message}`;
             this.showSystemMessage(webview, errorMsg, this.currentHistory);
             console.error(errorMsg, error);
@@ -209,23 +410,14 @@ export class FileOperationCommands {
         }
     }
 
-    public async handleWriteCommand(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
-        const parts = messageText.substring('/write '.length).trim().match(/^(\S+)\s*(.*)$/);
-        if (!parts) {
-            this.showSystemMessage(webview, "Usage: /write <filePath> <description of changes>", this.currentHistory);
-            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
-            return;
-        }
-        const filePath = parts[1];
-        const description = parts[2];
-
+    public async handleWriteCommand(filePath: string, description: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
         if (!description) {
             this.showSystemMessage(webview, "Please provide a description of the changes for the /write command.", this.currentHistory);
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
 
-        const resolvedPath = this._resolvePath(filePath, webview);
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
@@ -244,7 +436,12 @@ export class FileOperationCommands {
                 webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
                 return;
             }
-            originalContent = await readFileContentUtil(resolvedPath.uri);
+            // The same text performConfirmedWrite hashes, so an unsaved but unchanged editor doesn't look stale on confirm
+            const currentText = await this.readCurrentText(resolvedPath.uri);
+            if (currentText === undefined) {
+                throw vscode.FileSystemError.FileNotFound(resolvedPath.uri);
+            }
+            originalContent = currentText;
         } catch (error: any) {
             let errorMsg = '';
             if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
@@ -266,9 +463,13 @@ export class FileOperationCommands {
 
         this.showSystemMessage(webview, `Gemini is analyzing ${resolvedPath.relativePath} and preparing modifications...`);
 
+        const usePatchMode = vscode.workspace.getConfiguration('geminiFS').get<string>('writeMode', 'patch') === 'patch';
+        const outputInstructions = usePatchMode
+            ? PATCH_FORMAT_INSTRUCTIONS
+            : 'Provide the complete new content of the file. Output only the raw file content.';
         const historyForGemini: ChatMessage[] = [
             ...this.currentHistory.slice(0,-1), // Exclude the user's '/write' command itself
-            { role: 'user', parts: [{ text: `The current content of the file "${resolvedPath.relativePath}" is:\n\`\`\`\n${originalContent}\n\`\`\`\n\nPlease modify this content based on the following instruction: ${description}. Provide the complete new content of the file. Output only the raw file content.` }] }
+            { role: 'user', parts: [{ text: `The current content of the file "${resolvedPath.relativePath}" is:\n\`\`\`\n${originalContent}\n\`\`\`\n\nPlease modify this content based on the following instruction: ${description}. ${outputInstructions}` }] }
         ];
         
         const contextualContent = this.getContextualContent();
@@ -284,17 +485,39 @@ export class FileOperationCommands {
         }
 
         try {
-            const proposedNewContent = await this.geminiService.askGeminiWithHistory(historyForGemini);
+            // Search blocks quote the file as Gemini saw it; with the secrets back in place they match the real file
+            const geminiResponse = this.geminiService.restoreRedactedSecrets(await this.geminiService.askGeminiWithHistory(historyForGemini));
+            let strippedText: string[] = [];
+            let proposedNewContent: string | undefined;
+            if (usePatchMode) {
+                proposedNewContent = this.applyProposedEdits(geminiResponse, originalContent, resolvedPath.relativePath, webview);
+            } else {
+                const generated = this.cleanGeneratedContent(geminiResponse, resolvedPath.relativePath, webview);
+                proposedNewContent = generated.content;
+                strippedText = generated.strippedText;
+            }
+            if (proposedNewContent === undefined) {
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return;
+            }
             this.currentHistory.push({ role: 'model', parts: [{ text: `Okay, I've prepared modifications for ${resolvedPath.relativePath}. Please review and confirm.` }] });
+            this.audit({ command: 'write', paths: [resolvedPath.relativePath], outcome: 'proposed' });
             webview.postMessage({
                 command: 'showFilePreviewForWrite', // Updated command
                 filePath: resolvedPath.relativePath,
                 originalContent: originalContent,
+                contentHash: hashContentUtil(originalContent), // Checked again when the write is confirmed
                 proposedContent: proposedNewContent,
+                strippedText,
                 description: `Review proposed changes for ${resolvedPath.relativePath}:`,
                 history: [...this.currentHistory]
             });
         } catch (error: any) {
+            if (error instanceof GeminiRequestCancelledError) {
+                this.showSystemMessage(webview, `Request cancelled by user. No changes were proposed for ${resolvedPath.relativePath}.`, this.currentHistory);
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return;
+            }
             const errorMessage = `Error generating modifications with Gemini: ${error.message || 'Unknown error'}`;
             this.showSystemMessage(webview, errorMessage, this.currentHistory);
             console.error(errorMessage, error);
@@ -302,18 +525,108 @@ export class FileOperationCommands {
         }
     }
 
-    public async performConfirmedWrite(filePath: string, newContent: string, webview: vscode.Webview): Promise<void> {
-        const resolvedPath = this._resolvePath(filePath, webview);
+    /**
+     * Reduces a Gemini response to the content of `relativePath` (no fences, no chatter). Warnings about dropped
+     * blocks or prose go to the chat; the dropped text itself is shown in the preview.
+     */
+    private cleanGeneratedContent(geminiResponse: string, relativePath: string, webview: vscode.Webview): { content: string, strippedText: string[] } {
+        const cleaned = extractFileContent(geminiResponse, relativePath);
+        if (cleaned.warnings.length > 0) {
+            this.showSystemMessage(webview, `${relativePath}: ${cleaned.warnings.join(' ')}`, this.currentHistory);
+        }
+        return { content: cleaned.content, strippedText: cleaned.strippedText };
+    }
+
+    /**
+     * Applies the edits in Gemini's /write response to `originalContent` and reports which edits were applied or
+     * rejected. Returns undefined when nothing could be applied, in which case no preview should be shown.
+     */
+    private applyProposedEdits(geminiResponse: string, originalContent: string, relativePath: string, webview: vscode.Webview): string | undefined {
+        const edits = parseFileEdits(geminiResponse);
+        if (edits.length === 0) {
+            this.showSystemMessage(webview, `Gemini did not return any search/replace blocks or diff hunks for ${relativePath}, so no changes were proposed. Try rephrasing the request, or set "geminiFS.writeMode" to "fullFile".`, this.currentHistory);
+            return undefined;
+        }
+        const result = applyFileEdits(originalContent, edits);
+        const report = [`Applied ${result.appliedEdits.length} of ${edits.length} edit(s) to ${relativePath}.`];
+        result.rejectedEdits.forEach(rejected => report.push(`Rejected ${rejected.label}: ${rejected.reason}.`));
+        if (result.appliedEdits.length === 0) {
+            report.push('Nothing to preview.');
+        }
+        this.showSystemMessage(webview, report.join('\n'), this.currentHistory);
+        return result.appliedEdits.length > 0 ? result.content : undefined;
+    }
+
+    /**
+     * Writes confirmed /write content. `originalContent` is the version the proposal was based on and `contentHash`
+     * its hash from the preview: if the file no longer matches it, a three-way view is shown instead of writing.
+     */
+    public async performConfirmedWrite(
+        filePath: string,
+        newContent: string,
+        webview: vscode.Webview,
+        options: { originalContent?: string, contentHash?: string } = {}
+    ): Promise<void> {
+        const { originalContent, contentHash } = options;
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
+        if (!await this.passesPolicy('write', [resolvedPath.relativePath], `Write the proposed changes to ${resolvedPath.relativePath}?`, webview)) {
+            return;
+        }
         try {
-            await writeFileContentUtil(resolvedPath.uri, newContent);
-            const successMsg = `File updated: ${resolvedPath.relativePath}`;
+            if (contentHash) {
+                const currentContent = await this.readCurrentText(resolvedPath.uri);
+                if (currentContent === undefined) {
+                    this.showSystemMessage(webview, `${resolvedPath.relativePath} was deleted after the preview was shown. Nothing was written; use /create to recreate it.`, this.currentHistory);
+                    webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                    return;
+                }
+                if (hashContentUtil(currentContent) !== contentHash) {
+                    this.showStaleWritePreview(resolvedPath.relativePath, originalContent, currentContent, newContent, webview);
+                    return;
+                }
+            }
+            const before = await this.journal.readCurrent(resolvedPath.uri);
+            let leftUnsaved = false;
+            if (this.usesEditorApplyMode()) {
+                const document = await vscode.workspace.openTextDocument(resolvedPath.uri);
+                let contentToApply = newContent;
+                if (document.isDirty && originalContent !== undefined && originalContent === document.getText()) {
+                    leftUnsaved = true; // The proposal already builds on the unsaved edits (see the three-way view)
+                } else if (document.isDirty) {
+                    const merged = await this.mergeIntoDirtyDocument(document, resolvedPath.relativePath, originalContent, newContent, webview);
+                    if (merged === undefined) {
+                        webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                        return;
+                    }
+                    contentToApply = merged;
+                    leftUnsaved = true; // Saving would also save the user's own unsaved edits
+                }
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(resolvedPath.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), contentToApply);
+                await this.applyAndSave(edit, resolvedPath.uri, !leftUnsaved);
+            } else {
+                await writeFileContentUtil(resolvedPath.uri, newContent);
+            }
+            if (!leftUnsaved) {
+                this.journal.record({
+                    operation: 'write',
+                    label: `write ${resolvedPath.relativePath}`,
+                    changes: [{ relativePath: resolvedPath.relativePath, before, after: await this.journal.readCurrent(resolvedPath.uri) }],
+                    removedDirectories: []
+                });
+            }
+            const successMsg = leftUnsaved
+                ? `Merged the changes into the unsaved editor for ${resolvedPath.relativePath}. Review and save it yourself; Undo in the editor reverts the merge.`
+                : `File updated: ${resolvedPath.relativePath}`;
+            this.audit({ command: 'write', paths: [resolvedPath.relativePath], outcome: 'confirmed', detail: leftUnsaved ? 'merged into an unsaved editor' : undefined });
             this.showSystemMessage(webview, successMsg, this.currentHistory);
             webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
         } catch (error: any) {
+            this.audit({ command: 'write', paths: [resolvedPath.relativePath], outcome: 'failed', detail: error.message });
             const errorMsg = `Error writing file ${resolvedPath.relativePath}: ${error.message}`;
             this.showSystemMessage(webview, errorMsg, this.currentHistory);
             console.error(errorMsg, error);
@@ -321,14 +634,353 @@ export class FileOperationCommands {
         }
     }
 
-    public async handleDeleteCommand(messageText: string, webview: vscode.Webview): Promise<void> {
-        const filePath = messageText.substring('/delete '.length).trim();
+    // The text a write would replace: the editor buffer in editor apply mode (it may hold unsaved edits), else the disk
+    private async readCurrentText(uri: vscode.Uri): Promise<string | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument && this.usesEditorApplyMode()) {
+            return openDocument.getText();
+        }
+        try {
+            return await readFileContentUtil(uri);
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * The file changed between preview and confirmation. Shows what changed on each side (original to current,
+     * original to proposed) and, if they don't overlap, the merge of both, so the user decides without losing edits.
+     */
+    private showStaleWritePreview(relativePath: string, originalContent: string | undefined, currentContent: string, proposedContent: string, webview: vscode.Webview): void {
+        const mergedContent = originalContent === undefined ? undefined : mergeProposedChanges(originalContent, currentContent, proposedContent);
+        this.showSystemMessage(webview, `${relativePath} changed after the preview was shown, so nothing was written yet. Review both sets of changes before applying.`, this.currentHistory);
+        webview.postMessage({
+            command: 'showStaleWritePreview',
+            filePath: relativePath,
+            originalContent: originalContent ?? '',
+            currentContent,
+            proposedContent,
+            mergedContent: mergedContent ?? null,
+            contentHash: hashContentUtil(currentContent), // A confirmation from this view is checked against the current version
+            history: [...this.currentHistory]
+        });
+    }
+
+    // 'editor' (default) applies /create and /write as editor edits, 'fileSystem' writes the bytes directly
+    private usesEditorApplyMode(): boolean {
+        return vscode.workspace.getConfiguration('geminiFS').get<string>('applyMode', 'editor') === 'editor';
+    }
+
+    /**
+     * Applies `edit` (which changes `uri`) like an edit made in the editor, so it lands in the editor's undo stack,
+     * and shows the file.
+     */
+    private async applyAndSave(edit: vscode.WorkspaceEdit, uri: vscode.Uri, save: boolean): Promise<void> {
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            throw new Error('VS Code rejected the edit');
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        if (save) {
+            await document.save();
+        }
+        await vscode.window.showTextDocument(document, { preview: true, preserveFocus: true, viewColumn: vscode.ViewColumn.One });
+    }
+
+    /**
+     * The editor holds unsaved changes the proposal knows nothing about: asks whether to merge the proposal into
+     * them. Returns the merged text, or undefined if the user aborted or the changes conflict.
+     */
+    private async mergeIntoDirtyDocument(document: vscode.TextDocument, relativePath: string, originalContent: string | undefined, proposedContent: string, webview: vscode.Webview): Promise<string | undefined> {
+        const choice = await vscode.window.showWarningMessage(
+            `${relativePath} has unsaved changes in the editor. Gemini's proposal is based on the saved file.`,
+            { modal: true, detail: 'Merge applies Gemini\'s changes on top of your unsaved edits. Cancel leaves the file untouched.' },
+            'Merge'
+        );
+        if (choice !== 'Merge') {
+            this.showSystemMessage(webview, `Write aborted: ${relativePath} has unsaved changes in the editor. Nothing was changed.`, this.currentHistory);
+            return undefined;
+        }
+        const merged = originalContent === undefined ? undefined : mergeProposedChanges(originalContent, document.getText(), proposedContent);
+        if (merged === undefined) {
+            this.showSystemMessage(webview, `Could not merge the changes for ${relativePath}: they overlap with your unsaved edits. Nothing was changed. Save or revert the editor and run /write again.`, this.currentHistory);
+        }
+        return merged;
+    }
+
+    /**
+     * /rename, /move and /copy: resolves and checks both paths, then asks the webview for confirmation.
+     * `/rename <path> <newName>` keeps the file in its folder; /move and /copy into an existing folder keep the name.
+     */
+    public async handleTransferCommand(operation: TransferOperation, sourcePath: string, destinationPath: string, overwrite: boolean, webview: vscode.Webview): Promise<void> {
+        const target = await this.resolveTransfer(operation, sourcePath, destinationPath, overwrite, webview);
+        if (!target) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        const verb = operation === 'copy' ? 'Copy' : operation === 'rename' ? 'Rename' : 'Move';
+        this.audit({ command: operation, paths: [target.source.relativePath, target.destination.relativePath], outcome: 'proposed' });
+        webview.postMessage({
+            command: 'showTransferPreview',
+            operation,
+            sourcePath: target.source.relativePath,
+            destinationPath: target.destination.relativePath,
+            overwrite,
+            message: `${verb} ${target.sourceIsDirectory ? 'folder' : 'file'} ${target.source.relativePath} to ${target.destination.relativePath}?`
+                + (target.destinationExists ? ` ${target.destination.relativePath} already exists and will be replaced.` : ''),
+            history: [...this.currentHistory]
+        });
+    }
+
+    public async performConfirmedTransfer(operation: TransferOperation, sourcePath: string, destinationPath: string, overwrite: boolean, webview: vscode.Webview): Promise<void> {
+        // Checked again: the destination may have appeared (or the source vanished) while the preview was open.
+        // The destination is already final, so "into folder" resolution must not apply a second time.
+        const target = await this.resolveTransfer(operation, sourcePath, destinationPath, overwrite, webview, true);
+        if (!target) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        const { source, destination } = target;
+        const verb = operation === 'copy' ? 'Copy' : operation === 'rename' ? 'Rename' : 'Move';
+        if (!await this.passesPolicy(operation, [source.relativePath, destination.relativePath], `${verb} ${source.relativePath} to ${destination.relativePath}?`, webview)) {
+            return;
+        }
+        try {
+            let snapshot: Awaited<ReturnType<OperationJournal['snapshotTree']>> | undefined;
+            try {
+                snapshot = await this.journal.snapshotTree(source.uri, source.relativePath);
+            } catch (error: any) {
+                if (!(error instanceof JournalError)) {
+                    throw error;
+                }
+            }
+            const destinationBefore = new Map<string, Uint8Array | undefined>();
+            for (const change of snapshot?.changes ?? []) {
+                const destinationFile = destination.relativePath + change.relativePath.slice(source.relativePath.length);
+                destinationBefore.set(destinationFile, await this.journal.readCurrent(vscode.Uri.joinPath(destination.uri, change.relativePath.slice(source.relativePath.length))));
+            }
+
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(destination.uri, '..'));
+            let updatedReferences = false;
+            if (operation === 'copy') {
+                await vscode.workspace.fs.copy(source.uri, destination.uri, { overwrite });
+            } else if (vscode.workspace.getConfiguration('geminiFS').get<boolean>('updateImportsOnRename', true)) {
+                // Goes through VS Code's rename participants, so language extensions can update imports
+                const edit = new vscode.WorkspaceEdit();
+                edit.renameFile(source.uri, destination.uri, { overwrite });
+                if (!(await vscode.workspace.applyEdit(edit))) {
+                    throw new Error('VS Code rejected the rename');
+                }
+                updatedReferences = true;
+            } else {
+                await vscode.workspace.fs.rename(source.uri, destination.uri, { overwrite });
+            }
+
+            if (snapshot) {
+                this.journal.record({
+                    operation,
+                    label: `${operation} ${source.relativePath} to ${destination.relativePath}`,
+                    changes: [
+                        ...(operation === 'copy' ? [] : snapshot.changes),
+                        ...snapshot.changes.map(change => {
+                            const destinationFile = destination.relativePath + change.relativePath.slice(source.relativePath.length);
+                            return { relativePath: destinationFile, before: destinationBefore.get(destinationFile), after: change.before };
+                        })
+                    ],
+                    removedDirectories: operation === 'copy' ? [] : snapshot.removedDirectories
+                });
+            }
+
+            const messages = [`${operation === 'copy' ? 'Copied' : operation === 'rename' ? 'Renamed' : 'Moved'} ${source.relativePath} to ${destination.relativePath}.`];
+            if (operation !== 'copy') {
+                const movedContextCount = this.moveContextEntries(source.relativePath, destination.relativePath);
+                if (movedContextCount > 0) {
+                    messages.push(`Updated ${movedContextCount} context entr${movedContextCount === 1 ? 'y' : 'ies'} to the new path.`);
+                }
+                if (updatedReferences) {
+                    messages.push('References were updated where a language extension supports it; review and save the affected files.');
+                }
+            }
+            if (!snapshot) {
+                messages.push('It is too large to be recorded for /undo.');
+            }
+            const successMsg = messages.join(' ');
+            this.audit({ command: operation, paths: [source.relativePath, destination.relativePath], outcome: 'confirmed' });
+            this.showSystemMessage(webview, successMsg, this.currentHistory);
+            webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
+        } catch (error: any) {
+            this.audit({ command: operation, paths: [source.relativePath, destination.relativePath], outcome: 'failed', detail: error.message });
+            const errorMsg = `Error during ${operation} of ${source.relativePath}: ${error.message}`;
+            this.showSystemMessage(webview, errorMsg, this.currentHistory);
+            console.error(errorMsg, error);
+            webview.postMessage({ command: 'operationError', message: errorMsg, history: [...this.currentHistory] });
+        }
+    }
+
+    /**
+     * Resolves source and destination of a transfer inside the workspace and enforces overwrite protection.
+     * Reports problems to the chat and returns undefined.
+     */
+    private async resolveTransfer(
+        operation: TransferOperation,
+        rawSource: string,
+        rawDestination: string,
+        overwrite: boolean,
+        webview: vscode.Webview,
+        destinationIsFinal = false
+    ): Promise<{ source: { uri: vscode.Uri, relativePath: string }, destination: { uri: vscode.Uri, relativePath: string }, sourceIsDirectory: boolean, destinationExists: boolean } | undefined> {
+        // A copy leaves its source as it is, so only that may come from a read-only path
+        const source = await this._resolvePath(rawSource, webview, undefined, undefined, operation === 'copy' ? 'read' : 'write');
+        if (!source) {
+            return undefined;
+        }
+        if (isWorkspaceFolderRoot(source.relativePath)) {
+            this.showSystemMessage(webview, `Cannot ${operation} the workspace root.`, this.currentHistory);
+            return undefined;
+        }
+        const sourceStat = await this.statOrUndefined(source.uri);
+        if (!sourceStat) {
+            this.showSystemMessage(webview, `File or folder not found: ${source.relativePath}`, this.currentHistory);
+            return undefined;
+        }
+        if (operation !== 'copy' && sourceStat.type === vscode.FileType.Directory && await this.holdsReadOnlyPath(source.uri, source.relativePath, webview)) {
+            return undefined;
+        }
+
+        let destinationPath = rawDestination;
+        if (!destinationIsFinal && operation === 'rename' && !/[\\/]/.test(rawDestination)) {
+            destinationPath = path.posix.join(dirnameOfWorkspacePath(source.relativePath), rawDestination);
+        }
+        const workspaceRoot = this.getWorkspaceRoot();
+        const sourceRoot = workspaceRoot ? parseWorkspacePath(source.relativePath, workspaceRoot).rootUri : undefined;
+        let destination = await this._resolvePath(destinationPath, webview, undefined, sourceRoot, 'write');
+        if (!destination) {
+            return undefined;
+        }
+        if (!destinationIsFinal && destinationPath === rawDestination
+            && (/[\\/]$/.test(rawDestination) || (await this.statOrUndefined(destination.uri))?.type === vscode.FileType.Directory)) {
+            // An existing folder (or a path ending in a slash) as destination: keep the name
+            destination = await this._resolvePath(path.posix.join(destination.relativePath, path.posix.basename(source.relativePath)), webview, undefined, sourceRoot, 'write');
+            if (!destination) {
+                return undefined;
+            }
+        }
+        if (destination.relativePath === source.relativePath) {
+            this.showSystemMessage(webview, `Source and destination are the same: ${source.relativePath}`, this.currentHistory);
+            return undefined;
+        }
+        if (destination.relativePath.startsWith(`${source.relativePath}/`)) {
+            this.showSystemMessage(webview, `Cannot ${operation} ${source.relativePath} into itself (${destination.relativePath}).`, this.currentHistory);
+            return undefined;
+        }
+        const destinationExists = (await this.statOrUndefined(destination.uri)) !== undefined;
+        if (destinationExists && !overwrite) {
+            this.showSystemMessage(webview, `${destination.relativePath} already exists. Add --overwrite to replace it.`, this.currentHistory);
+            return undefined;
+        }
+        return { source, destination, sourceIsDirectory: sourceStat.type === vscode.FileType.Directory, destinationExists };
+    }
+
+    private async statOrUndefined(uri: vscode.Uri | undefined): Promise<vscode.FileStat | undefined> {
+        if (!uri) {
+            return undefined;
+        }
+        try {
+            return await vscode.workspace.fs.stat(uri);
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    // Context entries follow a renamed file, or every file below a renamed folder
+    private moveContextEntries(sourcePath: string, destinationPath: string): number {
+        let moved = 0;
+        for (const entry of this.getContextualContent()) {
+            if (entry.path === sourcePath || entry.path.startsWith(`${sourcePath}/`)) {
+                entry.path = destinationPath + entry.path.slice(sourcePath.length);
+                moved++;
+            }
+        }
+        return moved;
+    }
+
+    /**
+     * /search <pattern> [glob]: text search across the workspace. The matches are posted to the webview as
+     * clickable file:line links; the transcript keeps a plain-text summary.
+     */
+    public async handleSearchCommand(pattern: string, glob: string | undefined, webview: vscode.Webview): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!this._ensureWorkspaceOpen(webview) || !workspaceRoot) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        if (!pattern) {
+            this.showSystemMessage(webview, 'Usage: /search <pattern|/regex/> [glob]  (quote patterns that contain spaces)', this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        let regex: RegExp;
+        try {
+            regex = buildSearchRegex(pattern);
+        } catch (error: any) {
+            this.showSystemMessage(webview, `Invalid regular expression ${pattern}: ${error.message}`, this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+
+        try {
+            const maxResults = vscode.workspace.getConfiguration('geminiFS').get<number>('search.maxResults', 200);
+            const result = await searchWorkspaceFolders(workspaceRoot, regex, glob, Math.max(1, maxResults));
+            const fileCount = new Set(result.matches.map(match => match.filePath)).size;
+            let summary = result.matches.length === 0
+                ? `No matches for ${pattern}${glob ? ` in ${glob}` : ''} (${result.filesSearched} files searched).`
+                : `Found ${result.matches.length} match(es) for ${pattern} in ${fileCount} file(s)${glob ? ` matching ${glob}` : ''}.`;
+            if (result.truncated) {
+                summary += ` Results were capped at ${result.matches.length}; narrow the pattern or add a glob to see the rest.`;
+            }
+            this.showSystemMessage(webview, summary, this.currentHistory);
+            // Rendered below the summary; like previews, the list is not part of the saved transcript
+            webview.postMessage({ command: 'searchResults', pattern, matches: result.matches });
+        } catch (error: any) {
+            const errorMsg = `Error searching for ${pattern}: ${error.message}`;
+            this.showSystemMessage(webview, errorMsg, this.currentHistory);
+            console.error(errorMsg, error);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+        }
+    }
+
+    /**
+     * Opens a /search result in the editor with the cursor on the match.
+     */
+    public async openSearchResult(filePath: string, line: number, column: number, webview: vscode.Webview): Promise<void> {
+        const resolvedPath = await this._resolvePath(filePath, webview);
+        if (!resolvedPath) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        try {
+            const document = await vscode.workspace.openTextDocument(resolvedPath.uri);
+            const position = new vscode.Position(Math.max(0, line - 1), Math.max(0, column - 1));
+            await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, selection: new vscode.Range(position, position) });
+        } catch (error: any) {
+            this.showSystemMessage(webview, `Could not open ${resolvedPath.relativePath}: ${error.message}`, this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+        }
+    }
+
+    public async handleDeleteCommand(filePath: string, webview: vscode.Webview): Promise<void> {
         if (!filePath) {
             this.showSystemMessage(webview, "Usage: /delete <filePath>", this.currentHistory);
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
-        const resolvedPath = this._resolvePath(filePath, webview);
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
@@ -336,6 +988,11 @@ export class FileOperationCommands {
 
         try {
             await vscode.workspace.fs.stat(resolvedPath.uri); // Check if path exists
+            if (await this.holdsReadOnlyPath(resolvedPath.uri, resolvedPath.relativePath, webview)) {
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return;
+            }
+            this.audit({ command: 'delete', paths: [resolvedPath.relativePath], outcome: 'proposed' });
             webview.postMessage({
                 command: 'confirmDelete', // Matches command in script.js
                 filePath: resolvedPath.relativePath,
@@ -356,15 +1013,43 @@ export class FileOperationCommands {
     }
 
     public async performConfirmedDelete(filePath: string, webview: vscode.Webview, contextualContentRef: { path: string, content: string }[]): Promise<void> {
-        const resolvedPath = this._resolvePath(filePath, webview);
+        const resolvedPath = await this._resolvePath(filePath, webview, undefined, undefined, 'write');
         if (!resolvedPath) {
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
             return;
         }
+        if (await this.holdsReadOnlyPath(resolvedPath.uri, resolvedPath.relativePath, webview)) {
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+            return;
+        }
+        if (!await this.passesPolicy('delete', [resolvedPath.relativePath], `Delete ${resolvedPath.relativePath}?`, webview)) {
+            return;
+        }
         try {
-            await vscode.workspace.fs.delete(resolvedPath.uri, { recursive: true });
+            let snapshot: Awaited<ReturnType<OperationJournal['snapshotTree']>> | undefined;
+            let notUndoableReason: string | undefined;
+            try {
+                snapshot = await this.journal.snapshotTree(resolvedPath.uri, resolvedPath.relativePath);
+            } catch (error: any) {
+                if (!(error instanceof JournalError)) {
+                    throw error;
+                }
+                notUndoableReason = error.message;
+            }
+            // Through the trash where the file system supports it, so a delete that can't be undone here is still recoverable
+            await vscode.workspace.fs.delete(resolvedPath.uri, { recursive: true, useTrash: true });
+            if (snapshot) {
+                this.journal.record({
+                    operation: 'delete',
+                    label: `delete ${resolvedPath.relativePath}`,
+                    changes: snapshot.changes,
+                    removedDirectories: snapshot.removedDirectories,
+                    deletedRoot: resolvedPath.relativePath
+                });
+            }
             const successMsg = `Successfully deleted: ${resolvedPath.relativePath}`;
-            this.showSystemMessage(webview, successMsg, this.currentHistory);
+            this.audit({ command: 'delete', paths: [resolvedPath.relativePath], outcome: 'confirmed', detail: notUndoableReason });
+            this.showSystemMessage(webview, notUndoableReason ? `${successMsg}\n${notUndoableReason} It was moved to the trash instead.` : successMsg, this.currentHistory);
             
             // Remove from context if it was there
             const contextIndex = contextualContentRef.findIndex(c => c.path === resolvedPath.relativePath);
@@ -374,6 +1059,7 @@ export class FileOperationCommands {
             }
             webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
         } catch (error: any) {
+            this.audit({ command: 'delete', paths: [resolvedPath.relativePath], outcome: 'failed', detail: error.message });
             const errorMsg = `Error deleting ${resolvedPath.relativePath}: ${error.message}`;
             this.showSystemMessage(webview, errorMsg, this.currentHistory);
             console.error(errorMsg, error);
@@ -1,46 +1,247 @@
 // c:\Users\marti\gemini-fs\src\fileService.ts
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { GeminiService, ChatMessage } from './geminiService';
-import { FileOperationCommands } from './fileOperationCommands';
-import { readFileContentUtil, resolvePathUtil } from './fileSystemUtils'; // Only utils still directly used by FileService
+import { createHash } from 'crypto';
+import { GeminiService, ChatMessage, GeminiStreamResult, GeminiToolLoopResult, GeminiRequestCancelledError, GeminiRequestRecord } from './geminiService';
+import { FileOperationCommands, TransferOperation } from './fileOperationCommands';
+import { CommandLineError, CommandRegistry, getCommandName } from './commandRegistry';
+import { ChangeSetCommands } from './changeSetCommands';
+import { ChatSessionStore, ConversationSession } from './chatSessions';
+import { ContextWatcher } from './contextWatcher';
+import { JournalError, OperationJournal } from './operationJournal';
+import { RetrievedChunk, SemanticIndex } from './semanticIndex';
+import { createEmbeddingProvider } from './embeddingProvider';
+import { FILE_TOOL_DECLARATIONS, FileToolExecutor } from './fileTools';
+import { IntentClarificationChoice, IntentRouter, intentToCommand, mightBeFileRequest, needsClarification, RoutedIntent } from './intentRouter';
+import { countOldestToDrop, getInputTokenBudget, TokenBudgetChoice, truncateToTokenShare } from './tokenBudget';
+import { ContextCandidate, ContextCandidateResult, findContextCandidates, hasBinaryExtension, isGlobPattern, loadGitignoreFilter, looksLikeBinaryContent } from './contextCollector';
+import { readFileContentUtil, resolvePathAcrossRootsUtil } from './fileSystemUtils'; // Only utils still directly used by FileService
+import { getDeniedPathMatcher, isRealPathInsideRoot } from './pathSecurity';
+import { describeRedactions, RedactionFinding } from './secretRedaction';
+import { describeWorkspaceFolders, parseWorkspacePath, rootsForGlob, toWorkspacePath, workspacePathToUri } from './workspaceFolders';
+import { findCommandRestriction, getWorkspacePolicy, WorkspacePolicyStore } from './workspacePolicy';
+import { AuditEvent, AuditLog } from './auditLog';
 
 // Constants for file size limits
 const MAX_FILE_SIZE_FOR_CONTEXT = 500 * 1024; // 500KB limit per file for context
+const MAX_TOTAL_CONTEXT_SIZE = 2 * 1024 * 1024; // 2MB limit for all context files of a session together
 
+const MAX_TOKEN_COUNT_CACHE_ENTRIES = 500;
+
+// Context limits are in bytes, as on disk; string length counts UTF-16 code units, which differs for non-ASCII text
+function byteSize(content: string): number {
+    return new TextEncoder().encode(content).length;
+}
+
+type ContextSkipReason = 'ignored by .gitignore' | 'denied by geminiFS.security.deniedPaths' | 'forbidden by .gemini-fs.json' | 'linked from outside the workspace' | 'binary' | 'too large' | 'over the total size budget' | 'unreadable';
+type ContextAddOutcome = { status: 'added' } | { status: 'updated' } | { status: 'skipped', reason: ContextSkipReason, detail: string };
+
+// What every slash command handler gets besides its parsed arguments
+interface CommandInvocation {
+    webview: vscode.Webview;
+    apiKey: string;
+    modelToUse: string;
+}
 
 export interface FileServiceOptions {
     geminiService: GeminiService;
+    workspaceState?: vscode.Memento; // When provided, history and context survive panel reloads and VS Code restarts
+    storageUri?: vscode.Uri; // Workspace storage folder for the semantic index; without it the index is not persisted
+    auditLog?: AuditLog; // Without it nothing is audited
 }
 
-export class FileService {
+export class FileService implements vscode.Disposable {
     private geminiService: GeminiService;
     private currentWorkspaceRoot: vscode.Uri | undefined;
-    private currentHistory: ChatMessage[] = [];
-    private contextualContent: { path: string, content: string }[] = [];
     private fileOpCommands: FileOperationCommands;
+    private changeSetCommands: ChangeSetCommands;
+    private journal: OperationJournal; // Confirmed file operations, shared by all sessions
+    private sessionStore: ChatSessionStore;
+    private tokenCountCache = new Map<string, number>(); // Token count per context entry, keyed by model, path and content hash
+    // Chat message held back because it did not fit the token budget, waiting for the user's choice
+    private pendingOverBudgetMessage: { messageText: string, modelToUse: string, sessionId: string, retrievedChunks: RetrievedChunk[] } | undefined;
+    private contextWatcher: ContextWatcher;
+    private attachedWebview: vscode.Webview | undefined; // Last chat panel we talked to, target of background notices
+    private semanticIndex: SemanticIndex;
+    private intentRouter: IntentRouter;
+    // Free-text message the intent router mapped to a command that needs the user's go-ahead first
+    private pendingIntent: { messageText: string, command: string, sessionId: string } | undefined;
+    private commands = new CommandRegistry<CommandInvocation>();
+    private policyStore: WorkspacePolicyStore; // .gemini-fs.json of each workspace folder
+    private auditLog: AuditLog | undefined;
+    private activeCommand: string | undefined; // Slash command being run, so Gemini requests it makes are audited under its name
 
     constructor(options: FileServiceOptions) {
         this.geminiService = options.geminiService;
+        this.auditLog = options.auditLog;
+        this.sessionStore = new ChatSessionStore(options.workspaceState);
         this.updateWorkspaceRoot();
         vscode.workspace.onDidChangeWorkspaceFolders(() => this.updateWorkspaceRoot());
+        this.policyStore = new WorkspacePolicyStore(() => this.commands.names);
+        this.policyStore.onDidReload(({ message }) => this.notifyPolicyReloaded(message));
+        this.contextWatcher = new ContextWatcher(
+            () => this.currentWorkspaceRoot,
+            this.sessionStore,
+            uri => this.maxContextFileSize(vscode.workspace.getWorkspaceFolder(uri)?.uri),
+            (session, notices, uiOnly) => this.notifyContextRefreshed(session, notices, uiOnly)
+        );
 
+        this.semanticIndex = new SemanticIndex(
+            () => this.currentWorkspaceRoot,
+            options.storageUri,
+            async () => (await createEmbeddingProvider(this.geminiService)).provider
+        );
+
+        this.intentRouter = new IntentRouter(this.geminiService);
+        this.journal = new OperationJournal(() => this.currentWorkspaceRoot);
         this.fileOpCommands = new FileOperationCommands(
             () => this.currentWorkspaceRoot,
             (webview, message, historyToUpdate) => this.showSystemMessage(webview, message, historyToUpdate),
-            this.currentHistory, // Pass the array reference
+            () => this.currentHistory, // Resolved on every use, the active session can change
             this.geminiService,
-            () => this.contextualContent
+            () => this.contextualContent,
+            this.journal,
+            event => this.audit(event)
         );
         console.log("FileService: FileOperationCommands instantiated.");
+        this.changeSetCommands = new ChangeSetCommands(
+            () => this.currentWorkspaceRoot,
+            (webview, message, historyToUpdate) => this.showSystemMessage(webview, message, historyToUpdate),
+            () => this.currentHistory,
+            this.geminiService,
+            () => this.contextualContent,
+            this.journal,
+            event => this.audit(event)
+        );
+        this.registerCommands();
+    }
+
+    public dispose(): void {
+        this.contextWatcher.dispose();
+        this.semanticIndex.dispose();
+        this.policyStore.dispose();
+    }
+
+    /**
+     * The user discarded a preview in the webview. Only /refactor keeps state for its preview; every discard is audited.
+     */
+    public discardPreview(action: string, paths: string[]): void {
+        if (action === 'changeSet') {
+            const changeSetPaths = this.changeSetCommands.discardPendingChangeSet();
+            this.audit({ command: 'refactor', paths: changeSetPaths, outcome: 'discarded' });
+            return;
+        }
+        this.audit({ command: action, paths, outcome: 'discarded' });
+    }
+
+    private audit(event: AuditEvent): void {
+        const { id, name } = this.sessionStore.activeSession;
+        this.auditLog?.record(event, { id, name });
+    }
+
+    /**
+     * Audits a request GeminiService sent. It is filed under the slash command that made it, if any; a chat turn
+     * also lists the files that were in context.
+     */
+    public recordGeminiRequest(request: GeminiRequestRecord): void {
+        const command = this.activeCommand ?? (request.kind === 'embedding' ? 'index' : 'chat');
+        this.audit({
+            command,
+            paths: command === 'chat' ? this.contextualContent.map(c => c.path) : [],
+            prompt: request.prompt,
+            response: request.response,
+            outcome: request.outcome,
+            detail: [`${request.kind} request to ${request.model}`, request.detail].filter(Boolean).join(': ')
+        });
+    }
+
+    public detachWebview(webview: vscode.Webview): void {
+        if (this.attachedWebview === webview) {
+            this.attachedWebview = undefined;
+        }
+    }
+
+    // Called when GeminiService replaced secrets with placeholders in an outgoing request
+    public notifySecretsRedacted(findings: RedactionFinding[]): void {
+        const message = describeRedactions(findings);
+        if (this.attachedWebview) {
+            this.showSystemMessage(this.attachedWebview, message, this.currentHistory);
+        } else {
+            this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${message}` }] });
+        }
+    }
+
+    // Called when a workspace folder's .gemini-fs.json was loaded with problems, changed or removed
+    private notifyPolicyReloaded(message: string): void {
+        const dropped = this.dropForbiddenContext();
+        if (dropped.length > 0) {
+            message += `\nRemoved from context because they are forbidden now: ${dropped.join(', ')}`;
+            void this.saveState();
+        }
+        if (this.attachedWebview) {
+            this.showSystemMessage(this.attachedWebview, message, this.currentHistory);
+        } else {
+            this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${message}` }] });
+        }
+    }
+
+    // Context entries of every session that the current policies forbid; they would otherwise keep going to Gemini
+    private dropForbiddenContext(): string[] {
+        if (!this.currentWorkspaceRoot) {
+            return [];
+        }
+        const dropped = new Set<string>();
+        for (const session of this.sessionStore.listSessions()) {
+            for (let i = session.contextualContent.length - 1; i >= 0; i--) {
+                const { rootUri, relativePath } = parseWorkspacePath(session.contextualContent[i].path, this.currentWorkspaceRoot);
+                if (getWorkspacePolicy(rootUri).isForbidden(relativePath)) {
+                    dropped.add(session.contextualContent[i].path);
+                    session.contextualContent.splice(i, 1); // In place, callers may hold on to the array
+                }
+            }
+        }
+        return [...dropped];
+    }
+
+    // The per-file context limit of a workspace folder: its policy's maxFileSizeKB.context, or the default
+    private maxContextFileSize(rootUri: vscode.Uri | undefined): number {
+        return getWorkspacePolicy(rootUri).maxContextFileSize ?? MAX_FILE_SIZE_FOR_CONTEXT;
+    }
+
+    // Called by the ContextWatcher after it re-read, renamed or dropped context files of `session`
+    private notifyContextRefreshed(session: ConversationSession, notices: string[], uiOnly: boolean): void {
+        const message = notices.join('\n');
+        if (uiOnly) {
+            // The refreshed content itself goes to Gemini with the next message; the notice is only for the user
+            if (session === this.sessionStore.activeSession && this.attachedWebview) {
+                this.attachedWebview.postMessage({ command: 'systemMessage', text: message });
+            }
+        } else if (session === this.sessionStore.activeSession && this.attachedWebview) {
+            this.showSystemMessage(this.attachedWebview, message, session.history);
+        } else {
+            session.history.push({ role: 'model', parts: [{ text: `System: ${message}` }] });
+        }
+        void this.saveState();
     }
 
     private updateWorkspaceRoot() {
         this.currentWorkspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
     }
 
+    // History and context always belong to the active session
+    private get currentHistory(): ChatMessage[] {
+        return this.sessionStore.activeSession.history;
+    }
+
+    private get contextualContent(): { path: string, content: string }[] {
+        return this.sessionStore.activeSession.contextualContent;
+    }
+
+    private set contextualContent(content: { path: string, content: string }[]) {
+        this.sessionStore.activeSession.contextualContent = content;
+    }
+
     public resetConversationHistory() {
-        this.currentHistory = [];
+        this.currentHistory.length = 0;
     }
 
     public getCurrentHistory(): ReadonlyArray<ChatMessage> {
@@ -58,13 +259,244 @@ export class FileService {
     }
 
 
+    public async saveState(): Promise<void> {
+        await this.sessionStore.save();
+    }
+
+    /**
+     * Reads the contents of context files that were restored from storage for `session`.
+     * Returns notices describing what was restored or dropped.
+     */
+    private async loadPendingContext(session: ConversationSession): Promise<string[]> {
+        const notices: string[] = [];
+        if (session.pendingContextPaths.length === 0 || !this.currentWorkspaceRoot) {
+            return notices;
+        }
+        await this.policyStore.ready; // Forbidden paths must not be restored
+        const pathsToRestore = session.pendingContextPaths;
+        session.pendingContextPaths = [];
+        const missingPaths: string[] = [];
+        let restoredCount = 0;
+        for (const relativePath of pathsToRestore) {
+            if (session.contextualContent.some(c => c.path === relativePath)) {
+                continue;
+            }
+            try {
+                const { rootUri, relativePath: pathInRoot } = parseWorkspacePath(relativePath, this.currentWorkspaceRoot);
+                const fileUri = workspacePathToUri(relativePath, this.currentWorkspaceRoot);
+                if (getWorkspacePolicy(rootUri).isForbidden(pathInRoot)) {
+                    missingPaths.push(relativePath);
+                    continue;
+                }
+                const stat = await vscode.workspace.fs.stat(fileUri);
+                if (stat.type !== vscode.FileType.File || stat.size > this.maxContextFileSize(rootUri)) {
+                    missingPaths.push(relativePath);
+                    continue;
+                }
+                session.contextualContent.push({ path: relativePath, content: await readFileContentUtil(fileUri) });
+                restoredCount++;
+            } catch (error: any) {
+                console.warn(`FileService: Could not restore context file ${relativePath}: ${error.message}`);
+                missingPaths.push(relativePath);
+            }
+        }
+        if (restoredCount > 0) {
+            notices.push(`Restored ${restoredCount} context file(s) from disk.`);
+        }
+        if (missingPaths.length > 0) {
+            notices.push(`Dropped from context (missing, unreadable, too large or forbidden now): ${missingPaths.join(', ')}`);
+        }
+        return notices;
+    }
+
+    private postSessionsUpdate(webview: vscode.Webview): void {
+        webview.postMessage({ command: 'sessionsUpdate', sessions: this.sessionStore.getSessionSummaries() });
+    }
+
+    /**
+     * Replays the active session's transcript into a (re)opened webview. Context files restored from storage are
+     * re-read from disk first, so Gemini never sees stale content.
+     */
+    public async restoreConversation(webview: vscode.Webview): Promise<void> {
+        this.attachedWebview = webview;
+        const notices = await this.loadPendingContext(this.sessionStore.activeSession);
+        if (notices.length > 0) {
+            await this.saveState();
+        }
+        this.postSessionsUpdate(webview);
+        webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+        notices.forEach(notice => webview.postMessage({ command: 'systemMessage', text: notice }));
+    }
+
+    // Session operations shared by the /session command and the webview's session dropdown
+
+    private ensureNoRequestInFlight(webview: vscode.Webview): boolean {
+        if (this.geminiService.isBusy()) {
+            // A reply arriving after the switch would land in the wrong session's history
+            this.showSystemMessage(webview, "Wait for the current Gemini request to finish (or stop it) before changing sessions.", this.currentHistory);
+            this.postSessionsUpdate(webview); // Puts the dropdown back on the active session
+            return false;
+        }
+        return true;
+    }
+
+    public async createSession(name: string | undefined, webview: vscode.Webview): Promise<void> {
+        if (!this.ensureNoRequestInFlight(webview)) {
+            return;
+        }
+        try {
+            const session = this.sessionStore.createSession(name);
+            this.showSystemMessage(webview, `Started new session "${session.name}".`, this.currentHistory);
+            await this.activateSessionInWebview(webview, []);
+        } catch (error: any) {
+            this.showSystemMessage(webview, error.message, this.currentHistory);
+        }
+    }
+
+    public async openSearchResult(filePath: string, line: number, column: number, webview: vscode.Webview): Promise<void> {
+        await this.fileOpCommands.openSearchResult(filePath, line, column, webview);
+    }
+
+    /**
+     * "Add to context" on a /search result. Only posts the outcome as a system message, without a full
+     * history update, so the rendered result list stays in place for adding further files.
+     */
+    public async addSearchResultToContext(filePath: string, webview: vscode.Webview): Promise<void> {
+        this.attachedWebview = webview;
+        await this.addPathToContext(filePath, webview);
+        await this.saveState();
+    }
+
+    public async switchSession(nameOrId: string, webview: vscode.Webview): Promise<void> {
+        const session = this.sessionStore.findSession(nameOrId);
+        if (!session) {
+            this.showSystemMessage(webview, `No session named "${nameOrId}". Use /session list to see all sessions.`, this.currentHistory);
+            return;
+        }
+        if (session === this.sessionStore.activeSession) {
+            this.showSystemMessage(webview, `Already in session "${session.name}".`, this.currentHistory);
+            return;
+        }
+        if (!this.ensureNoRequestInFlight(webview)) {
+            return;
+        }
+        this.sessionStore.switchTo(session);
+        const notices = await this.loadPendingContext(session);
+        this.showSystemMessage(webview, `Switched to session "${session.name}" (${session.contextualContent.length} context file(s)).`, this.currentHistory);
+        await this.activateSessionInWebview(webview, notices);
+    }
+
+    private async renameSession(newName: string, webview: vscode.Webview): Promise<void> {
+        const session = this.sessionStore.activeSession;
+        const oldName = session.name;
+        try {
+            this.sessionStore.renameSession(session, newName);
+            this.showSystemMessage(webview, `Renamed session "${oldName}" to "${session.name}".`, this.currentHistory);
+            this.postSessionsUpdate(webview);
+        } catch (error: any) {
+            this.showSystemMessage(webview, error.message, this.currentHistory);
+        }
+    }
+
+    private async deleteSession(nameOrId: string, webview: vscode.Webview): Promise<void> {
+        const session = this.sessionStore.findSession(nameOrId);
+        if (!session) {
+            this.showSystemMessage(webview, `No session named "${nameOrId}". Use /session list to see all sessions.`, this.currentHistory);
+            return;
+        }
+        const wasActive = session === this.sessionStore.activeSession;
+        if (wasActive && !this.ensureNoRequestInFlight(webview)) {
+            return;
+        }
+        try {
+            this.sessionStore.deleteSession(session);
+        } catch (error: any) {
+            this.showSystemMessage(webview, error.message, this.currentHistory);
+            return;
+        }
+        if (wasActive) {
+            const notices = await this.loadPendingContext(this.sessionStore.activeSession);
+            this.showSystemMessage(webview, `Deleted session "${session.name}". Switched to "${this.sessionStore.activeSession.name}".`, this.currentHistory);
+            await this.activateSessionInWebview(webview, notices);
+        } else {
+            this.showSystemMessage(webview, `Deleted session "${session.name}".`, this.currentHistory);
+            this.postSessionsUpdate(webview);
+        }
+    }
+
+    private listSessions(webview: vscode.Webview): void {
+        const activeId = this.sessionStore.activeSession.id;
+        const sessionList = this.sessionStore.listSessions()
+            .map(s => `${s.id === activeId ? '* ' : '- '}${s.name} (${s.history.length} message(s), ${s.contextualContent.length + s.pendingContextPaths.length} context file(s))`)
+            .join('\n');
+        this.showSystemMessage(webview, `Sessions (* = active):\n${sessionList}`, this.currentHistory);
+    }
+
+    private async activateSessionInWebview(webview: vscode.Webview, notices: string[]): Promise<void> {
+        await this.saveState();
+        this.postSessionsUpdate(webview);
+        webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+        notices.forEach(notice => webview.postMessage({ command: 'systemMessage', text: notice }));
+    }
+
+    private async handleSessionCommand(subcommand: string, rest: string, webview: vscode.Webview): Promise<void> {
+        switch (subcommand.toLowerCase()) {
+            case 'new':
+                await this.createSession(rest || undefined, webview);
+                return; // activateSessionInWebview already replayed the new session
+            case 'list':
+                this.listSessions(webview);
+                break;
+            case 'switch':
+                if (!rest) {
+                    this.showSystemMessage(webview, "Usage: /session switch <name>", this.currentHistory);
+                    break;
+                }
+                await this.switchSession(rest, webview);
+                return;
+            case 'rename':
+                if (!rest) {
+                    this.showSystemMessage(webview, "Usage: /session rename <newName> (renames the active session)", this.currentHistory);
+                    break;
+                }
+                await this.renameSession(rest, webview);
+                break;
+            case 'delete':
+                if (!rest) {
+                    this.showSystemMessage(webview, "Usage: /session delete <name>", this.currentHistory);
+                    break;
+                }
+                await this.deleteSession(rest, webview);
+                return;
+            case 'clear':
+                this.resetConversationHistory();
+                this.showSystemMessage(webview, `Cleared the history of session "${this.sessionStore.activeSession.name}". Context files are kept.`, this.currentHistory);
+                break;
+            default:
+                this.showSystemMessage(webview, "Usage: /session new [name] | list | switch <name> | rename <newName> | delete <name> | clear", this.currentHistory);
+        }
+        webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+    }
+
     public async handleChatMessage(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string, payload?: any) {
+        this.attachedWebview = webview;
+        try {
+            await this.processChatMessage(messageText, webview, apiKey, modelToUse, payload);
+        } finally {
+            await this.saveState();
+        }
+    }
+
+    // `fromIntent` is set for commands the intent router derived from a message that is already in the history
+    private async processChatMessage(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string, payload?: any, fromIntent = false) {
         if (!this.ensureWorkspaceOpen(webview)) {
             return;
         }
+        await this.policyStore.ready; // Nothing may run before the workspace policy is known
 
         // Add user's raw message to history first, unless it's a payload-only command
-        if (!payload && messageText) {
+        if (!payload && messageText && !fromIntent) {
+            this.pendingIntent = undefined; // A new message answers an open clarification prompt by ignoring it
              // Check if the exact same message is already the last one from the user (e.g. resend)
             const lastMessage = this.currentHistory.length > 0 ? this.currentHistory[this.currentHistory.length - 1] : null;
             if (!(lastMessage && lastMessage.role === 'user' && lastMessage.parts[0].text === messageText)) {
@@ -78,7 +510,15 @@ export class FileService {
             return;
         }
         if (payload?.command === 'confirmWriteFile') {
-            await this.fileOpCommands.performConfirmedWrite(payload.filePath, payload.newContent, webview);
+            await this.fileOpCommands.performConfirmedWrite(payload.filePath, payload.newContent, webview, { originalContent: payload.originalContent, contentHash: payload.contentHash });
+            return;
+        }
+        if (payload?.command === 'confirmChangeSet') {
+            await this.changeSetCommands.performConfirmedChangeSet(payload.changeSetId, payload.acceptedPaths, webview);
+            return;
+        }
+        if (payload?.command === 'confirmTransferFile') {
+            await this.fileOpCommands.performConfirmedTransfer(payload.operation, payload.sourcePath, payload.destinationPath, payload.overwrite, webview);
             return;
         }
         if (payload?.command === 'confirmDeleteFile') {
@@ -87,90 +527,670 @@ export class FileService {
         }
 
 
-        if (messageText.startsWith('/read ')) {
-            await this.fileOpCommands.handleReadCommand(messageText, webview);
-        } else if (messageText.startsWith('/list')) {
-            await this.fileOpCommands.handleListCommand(messageText, webview);
-        } else if (messageText.startsWith('/write ')) {
-            await this.fileOpCommands.handleWriteCommand(messageText, webview, apiKey, modelToUse);
-        } else if (messageText.startsWith('/delete ')) {
-            await this.fileOpCommands.handleDeleteCommand(messageText, webview);
-        } else if (messageText.startsWith('/create ')) {
-            await this.fileOpCommands.handleCreateCommand(messageText, webview, apiKey, modelToUse);
-        } else if (messageText.startsWith('/context ')) {
-            const argument = messageText.substring('/context '.length).trim();
-            if (argument.toLowerCase() === 'clear') {
-                await this.clearContext(webview);
-            } else if (argument.toLowerCase() === 'list') {
-                await this.listContext(webview);
-            } else if (argument) {
-                await this.addPathToContext(argument, webview);
+        if (getCommandName(messageText) !== undefined) {
+            await this.runCommand(messageText, webview, apiKey, modelToUse);
+            return;
+        }
+
+        // General message to Gemini
+        if (!apiKey) {
+            this.showSystemMessage(webview, "API key not set. Please set it in the extension settings.", this.currentHistory);
+            webview.postMessage({ command: 'geminiResponse', sender: 'system', text: "API key not set.", history: [...this.currentHistory], isError: true });
+            return;
+        }
+        if (!modelToUse) {
+            this.showSystemMessage(webview, "Gemini model not set. Please check extension settings.", this.currentHistory);
+            webview.postMessage({ command: 'geminiResponse', sender: 'system', text: "Gemini model not set.", history: [...this.currentHistory], isError: true });
+            return;
+        }
+
+        if (!fromIntent && await this.routeNaturalLanguageRequest(messageText, webview, apiKey, modelToUse)) {
+            return;
+        }
+        const retrieval = await this.retrieveRelevantChunks(messageText);
+        const historyForGeminiPromptConstruction = this.buildHistoryForGemini(messageText, retrieval.chunks);
+        if (retrieval.notice) {
+            // Only shown now: buildHistoryForGemini expects the user's message to be the last history entry
+            this.showSystemMessage(webview, retrieval.notice, this.currentHistory);
+        }
+        if (!(await this.fitsTokenBudget(messageText, historyForGeminiPromptConstruction, modelToUse, webview, retrieval.chunks))) {
+            return; // The user decides how to make it fit, see resolveTokenBudget
+        }
+        await this.sendChatTurn(historyForGeminiPromptConstruction, webview);
+    }
+
+    public postCommandList(webview: vscode.Webview): void {
+        webview.postMessage({ command: 'commandList', commands: this.commands.describeCommands() });
+    }
+
+    /**
+     * Answers the webview's completePath request for the path typed so far. Replies carry `requestId` so the
+     * webview can drop answers to input that has since changed.
+     */
+    public async completePath(partialPath: string, requestId: number, webview: vscode.Webview): Promise<void> {
+        const items = await this.fileOpCommands.completePath(partialPath, webview);
+        webview.postMessage({ command: 'pathCompletions', requestId, items });
+    }
+
+    private async runCommand(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
+        try {
+            const command = this.commands.parse(messageText);
+            const restrictedBy = command.name === 'help' ? undefined : findCommandRestriction(command.name);
+            if (restrictedBy) {
+                throw new CommandLineError(`/${command.name} is disabled in this workspace by ${restrictedBy}.`);
+            }
+            this.activeCommand = command.name;
+            try {
+                await this.commands.run(command, { webview, apiKey, modelToUse }, helpText => {
+                    this.showSystemMessage(webview, helpText, this.currentHistory);
+                    webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                });
+            } finally {
+                this.activeCommand = undefined;
+            }
+        } catch (error: any) {
+            if (!(error instanceof CommandLineError)) {
+                throw error;
+            }
+            this.showSystemMessage(webview, error.message, this.currentHistory);
+            webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+        }
+    }
+
+    // The slash commands of the chat panel. Usage lines and descriptions also make up the /help output.
+    private registerCommands(): void {
+        const postHistory = (webview: vscode.Webview) => webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+
+        this.commands.register({
+            name: 'read',
+            usage: ['/read <filePath>'],
+            description: 'Show the content of a workspace file.',
+            minArgs: 1,
+            maxArgs: 1,
+            pathArguments: 1,
+            run: async ({ args }, { webview }) => this.fileOpCommands.handleReadCommand(args[0], webview)
+        });
+        this.commands.register({
+            name: 'list',
+            usage: ['/list [folderPath]'],
+            description: 'List a folder (the workspace root by default; the workspace folders in a multi-root workspace).',
+            maxArgs: 1,
+            pathArguments: 1,
+            run: async ({ args }, { webview }) => this.fileOpCommands.handleListCommand(args[0], webview)
+        });
+        this.commands.register({
+            name: 'create',
+            usage: ['/create <filePath> [description of content]'],
+            description: 'Create a file, with content generated by Gemini from the description. Shows a preview first.',
+            minArgs: 1,
+            freeTextAfter: 1,
+            pathArguments: 1,
+            run: async ({ args, text }, { webview, apiKey, modelToUse }) =>
+                this.fileOpCommands.handleCreateCommand(args[0], text || "Create an empty file.", webview, apiKey, modelToUse)
+        });
+        this.commands.register({
+            name: 'write',
+            usage: ['/write <filePath> <description of changes>'],
+            description: 'Have Gemini change a file as described. Shows a diff to confirm first.',
+            minArgs: 1,
+            freeTextAfter: 1,
+            pathArguments: 1,
+            run: async ({ args, text }, { webview, apiKey, modelToUse }) =>
+                this.fileOpCommands.handleWriteCommand(args[0], text, webview, apiKey, modelToUse)
+        });
+        this.commands.register({
+            name: 'delete',
+            usage: ['/delete <filePath>'],
+            description: 'Delete a file or folder after confirmation.',
+            minArgs: 1,
+            maxArgs: 1,
+            pathArguments: 1,
+            run: async ({ args }, { webview }) => this.fileOpCommands.handleDeleteCommand(args[0], webview)
+        });
+        const overwriteFlag = { name: 'overwrite', description: 'Replace the destination if it already exists.' };
+        const transferCommands: { name: TransferOperation, usage: string, description: string }[] = [
+            { name: 'rename', usage: '/rename <path> <newName|newPath> [--overwrite]', description: 'Rename a file or folder. A bare new name keeps it in its folder.' },
+            { name: 'move', usage: '/move <sourcePath> <destinationPath|folder/> [--overwrite]', description: 'Move a file or folder. Moving into an existing folder keeps the name.' },
+            { name: 'copy', usage: '/copy <sourcePath> <destinationPath|folder/> [--overwrite]', description: 'Copy a file or folder. Copying into an existing folder keeps the name.' }
+        ];
+        for (const transfer of transferCommands) {
+            this.commands.register({
+                name: transfer.name,
+                usage: [transfer.usage],
+                description: transfer.description,
+                flags: [overwriteFlag],
+                minArgs: 2,
+                maxArgs: 2,
+                pathArguments: 2,
+                run: async ({ args, flags }, { webview }) =>
+                    this.fileOpCommands.handleTransferCommand(transfer.name, args[0], args[1], flags.overwrite === true, webview)
+            });
+        }
+        this.commands.register({
+            name: 'search',
+            usage: ['/search <pattern|/regex/flags> [glob]'],
+            description: 'Search the workspace text files and list the matches as clickable file:line links.',
+            minArgs: 1,
+            maxArgs: 2,
+            run: async ({ args }, { webview }) => this.fileOpCommands.handleSearchCommand(args[0], args[1], webview)
+        });
+        this.commands.register({
+            name: 'refactor',
+            usage: ['/refactor <description of the change>'],
+            description: 'Have Gemini change several of the files in context at once. Each file is accepted or rejected separately.',
+            freeTextAfter: 0,
+            run: async ({ text }, { webview, apiKey, modelToUse }) => this.changeSetCommands.handleRefactorCommand(text, webview, apiKey, modelToUse)
+        });
+        for (const action of ['undo', 'redo'] as const) {
+            this.commands.register({
+                name: action,
+                usage: [`/${action}`],
+                description: action === 'undo' ? 'Revert the last confirmed file operation.' : 'Re-apply the last undone file operation.',
+                maxArgs: 0,
+                run: async (_command, { webview }) => this.undoOrRedoOperation(action, webview)
+            });
+        }
+        this.commands.register({
+            name: 'history',
+            usage: ['/history ops'],
+            description: 'List the confirmed file operations that /undo and /redo work on.',
+            subcommands: ['ops'],
+            minArgs: 1,
+            maxArgs: 1,
+            run: async (_command, { webview }) => {
+                this.listOperations(webview);
+                postHistory(webview);
+            }
+        });
+        this.commands.register({
+            name: 'index',
+            usage: ['/index rebuild', '/index status'],
+            description: 'Build the semantic index used to add relevant snippets to chat messages, or report on it.',
+            subcommands: ['rebuild', 'status'],
+            minArgs: 1,
+            maxArgs: 1,
+            run: async ({ args }, { webview }) => {
+                await this.handleIndexCommand(args[0].toLowerCase(), webview);
+                postHistory(webview);
+            }
+        });
+        this.commands.register({
+            name: 'session',
+            usage: ['/session new [name]', '/session list', '/session switch <name>', '/session rename <newName>', '/session delete <name>', '/session clear'],
+            description: 'Manage chat sessions. Each session has its own history and context.',
+            subcommands: ['new', 'list', 'switch', 'rename', 'delete', 'clear'],
+            minArgs: 1,
+            freeTextAfter: 1,
+            run: async ({ args, text }, { webview }) => this.handleSessionCommand(args[0], text, webview)
+        });
+        this.commands.register({
+            name: 'context',
+            usage: ['/context <filePath|folderPath|glob> [--recursive]', '/context list', '/context clear'],
+            description: 'Add files to the context sent with every chat message, or show or clear it.',
+            flags: [{ name: 'recursive', alias: 'r', description: 'Include subfolders when adding a folder.' }],
+            minArgs: 1,
+            maxArgs: 1,
+            pathArguments: 1,
+            run: async ({ args, flags }, { webview, modelToUse }) => {
+                const argument = args[0];
+                if (argument.toLowerCase() === 'clear') {
+                    await this.clearContext(webview);
+                } else if (argument.toLowerCase() === 'list') {
+                    await this.listContext(webview, modelToUse);
+                } else {
+                    await this.addPathToContext(argument, webview, flags.recursive === true);
+                }
+                postHistory(webview);
+            }
+        });
+    }
+
+    /**
+     * Runs the slash command a free-text message stands for, e.g. "show me package.json" as /read package.json.
+     * Returns false when the message should go to Gemini as a normal chat message instead.
+     */
+    private async routeNaturalLanguageRequest(messageText: string, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('geminiFS');
+        if (!config.get<boolean>('intentRouting.enabled', true) || !mightBeFileRequest(messageText)) {
+            return false;
+        }
+        let intent: RoutedIntent;
+        try {
+            const knownPaths = [
+                ...this.contextualContent.map(item => item.path),
+                ...vscode.workspace.textDocuments
+                    .filter(doc => doc.uri.scheme === 'file')
+                    .map(doc => toWorkspacePath(doc.uri, this.currentWorkspaceRoot))
+                    .filter((workspacePath): workspacePath is string => workspacePath !== undefined)
+            ];
+            intent = await this.intentRouter.route(messageText, [...new Set(knownPaths)].slice(0, 50));
+        } catch (error: any) {
+            if (error instanceof GeminiRequestCancelledError) {
+                this.showSystemMessage(webview, "Request cancelled by user.", this.currentHistory);
+                webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
+                return true;
+            }
+            console.warn(`FileService: Intent routing failed, sending as a chat message: ${error.message}`);
+            return false;
+        }
+
+        const command = intentToCommand(intent);
+        if (!command) {
+            return false;
+        }
+        const threshold = config.get<number>('intentRouting.confidenceThreshold', 0.75);
+        if (needsClarification(intent, threshold)) {
+            this.pendingIntent = { messageText, command, sessionId: this.sessionStore.activeSession.id };
+            // Not added to the history: if the user picks "chat", the message must still be the last history entry
+            const question = intent.confidence < threshold
+                ? `Not sure what you meant (confidence ${intent.confidence.toFixed(2)}). Run ${command}?`
+                : `This would run ${command}. Go ahead?`;
+            webview.postMessage({ command: 'intentClarification', text: question, proposedCommand: command });
+            return true;
+        }
+        this.showSystemMessage(webview, `Interpreted as ${command} (confidence ${intent.confidence.toFixed(2)}).`, this.currentHistory);
+        await this.processChatMessage(command, webview, apiKey, modelToUse, undefined, true);
+        return true;
+    }
+
+    /**
+     * Applies the user's answer to an intentClarification prompt.
+     */
+    public async resolveIntentClarification(choice: IntentClarificationChoice, webview: vscode.Webview, apiKey: string, modelToUse: string): Promise<void> {
+        const pending = this.pendingIntent;
+        this.pendingIntent = undefined;
+        if (!pending || pending.sessionId !== this.sessionStore.activeSession.id) {
+            this.showSystemMessage(webview, "There is no request in this session waiting for clarification.", this.currentHistory);
+            return;
+        }
+        this.attachedWebview = webview;
+        try {
+            if (choice === 'run') {
+                this.showSystemMessage(webview, `Running ${pending.command}.`, this.currentHistory);
+                await this.processChatMessage(pending.command, webview, apiKey, modelToUse, undefined, true);
+            } else if (choice === 'chat') {
+                await this.processChatMessage(pending.messageText, webview, apiKey, modelToUse, undefined, true);
             } else {
-                this.showSystemMessage(webview, "Usage: /context <filePath|folderPath> | list | clear", this.currentHistory);
+                this.showSystemMessage(webview, `Okay, ${pending.command} was not run.`, this.currentHistory);
             }
-            // After context operations, update webview with potentially changed history
+        } finally {
+            await this.saveState();
+        }
+    }
+
+    private async undoOrRedoOperation(action: 'undo' | 'redo', webview: vscode.Webview): Promise<void> {
+        try {
+            const entry = action === 'undo' ? await this.journal.undo(webview) : await this.journal.redo(webview);
+            const successMsg = `${action === 'undo' ? 'Undid' : 'Redid'} "${entry.label}" (${entry.changes.length} file(s)).`;
+            this.audit({ command: action, paths: entry.changes.map(change => change.relativePath), outcome: 'confirmed', detail: entry.label });
+            this.showSystemMessage(webview, successMsg, this.currentHistory);
+            webview.postMessage({ command: 'operationSuccess', message: successMsg, history: [...this.currentHistory] });
+        } catch (error: any) {
+            const errorMsg = error instanceof JournalError ? error.message : `Error during ${action}: ${error.message}`;
+            if (!(error instanceof JournalError)) {
+                console.error(errorMsg, error);
+            }
+            this.showSystemMessage(webview, errorMsg, this.currentHistory);
             webview.postMessage({ command: 'historyUpdate', history: [...this.currentHistory] });
-            return; // Command handled, no need to send to Gemini directly
-        } else { // General message to Gemini
-            if (!apiKey) {
-                this.showSystemMessage(webview, "API key not set. Please set it in the extension settings.", this.currentHistory);
-                webview.postMessage({ command: 'geminiResponse', sender: 'system', text: "API key not set.", history: [...this.currentHistory], isError: true });
+        }
+    }
+
+    private listOperations(webview: vscode.Webview): void {
+        const operations = this.journal.list();
+        if (operations.length === 0) {
+            this.showSystemMessage(webview, "No file operations have been confirmed yet.", this.currentHistory);
+            return;
+        }
+        const lines = operations.map(({ entry, undone }) =>
+            `#${entry.id} ${new Date(entry.timestamp).toLocaleTimeString()} ${entry.label}${undone ? ' (undone, /redo to re-apply)' : ''}`);
+        this.showSystemMessage(webview, `File operations (oldest first):\n${lines.join('\n')}`, this.currentHistory);
+    }
+
+    private buildContextPreamble(item: { path: string, content: string }): ChatMessage[] {
+        return [
+            {
+                role: 'user', // Priming Gemini with context as if user provided it
+                parts: [{ text: `IMPORTANT CONTEXT FILE: ${item.path}\nCONTENT:\n\`\`\`\n${item.content}\n\`\`\`` }]
+            },
+            {
+                role: 'model', // Gemini acknowledges the context
+                parts: [{ text: `Acknowledged. The content of "${item.path}" is now part of my context for the subsequent query.` }]
+            }
+        ];
+    }
+
+    private buildRetrievalPreamble(chunks: RetrievedChunk[]): ChatMessage[] {
+        const snippets = chunks.map(chunk => `FILE: ${chunk.filePath} (lines ${chunk.startLine}-${chunk.endLine})\n\`\`\`\n${chunk.text}\n\`\`\``);
+        return [
+            {
+                role: 'user',
+                parts: [{ text: `RELEVANT WORKSPACE SNIPPETS (retrieved automatically by similarity, may be incomplete or unrelated):\n\n${snippets.join('\n\n')}` }]
+            },
+            {
+                role: 'model',
+                parts: [{ text: 'Acknowledged. I will use these snippets where they are relevant to the next query.' }]
+            }
+        ];
+    }
+
+    /**
+     * Looks up the index chunks most relevant to `messageText`, skipping files already in /context. Problems with
+     * the index never hold the message back; they end up in `notice` like the list of sources used.
+     */
+    private async retrieveRelevantChunks(messageText: string): Promise<{ chunks: RetrievedChunk[], notice?: string }> {
+        const config = vscode.workspace.getConfiguration('geminiFS');
+        if (!config.get<boolean>('index.autoRetrieve', true)) {
+            return { chunks: [] };
+        }
+        try {
+            const contextPaths = new Set(this.contextualContent.map(item => item.path));
+            const chunks = await this.semanticIndex.query(messageText, config.get<number>('index.topK', 5), contextPaths);
+            if (chunks.length === 0) {
+                return { chunks };
+            }
+            const sources = chunks.map(chunk => `${chunk.filePath}:${chunk.startLine}-${chunk.endLine} (${chunk.score.toFixed(2)})`);
+            return { chunks, notice: `Added ${chunks.length} snippet(s) from the index:\n${sources.join('\n')}` };
+        } catch (error: any) {
+            console.warn(`FileService: Index lookup failed: ${error.message}`);
+            return { chunks: [], notice: `Could not look up relevant code in the index (${error.message || 'Unknown error'}). Sending without it.` };
+        }
+    }
+
+    private async handleIndexCommand(argument: string, webview: vscode.Webview): Promise<void> {
+        if (argument === 'status') {
+            const status = await this.semanticIndex.getStatus();
+            if (status.state === 'missing') {
+                this.showSystemMessage(webview, "There is no index for this workspace yet. Run /index rebuild to create one.", this.currentHistory);
                 return;
             }
-            if (!modelToUse) {
-                this.showSystemMessage(webview, "Gemini model not set. Please check extension settings.", this.currentHistory);
-                webview.postMessage({ command: 'geminiResponse', sender: 'system', text: "Gemini model not set.", history: [...this.currentHistory], isError: true });
+            const lines = [
+                `Index: ${status.state === 'building' ? 'being rebuilt' : 'ready'}, ${status.fileCount} file(s), ${status.chunkCount} chunk(s).`,
+                `Embeddings: ${status.providerId}`,
+                `Built: ${status.builtAt ? new Date(status.builtAt).toLocaleString() : 'never'}; last updated: ${status.updatedAt ? new Date(status.updatedAt).toLocaleString() : 'never'}`
+            ];
+            if (status.pendingUpdates > 0) {
+                lines.push(`${status.pendingUpdates} changed file(s) waiting to be re-indexed.`);
+            }
+            lines.push(`Automatic retrieval: ${vscode.workspace.getConfiguration('geminiFS').get<boolean>('index.autoRetrieve', true) ? 'on' : 'off'}`);
+            this.showSystemMessage(webview, lines.join('\n'), this.currentHistory);
+            return;
+        }
+        if (argument !== 'rebuild') {
+            this.showSystemMessage(webview, "Usage: /index rebuild | status", this.currentHistory);
+            return;
+        }
+        if (!this.ensureWorkspaceOpen(webview)) {
+            return;
+        }
+
+        const { provider, usingFallback } = await createEmbeddingProvider(this.geminiService);
+        if (usingFallback) {
+            this.showSystemMessage(webview, "No API key is set, so the index uses local embeddings. Set a key and rebuild for better results.", this.currentHistory);
+        }
+        this.showSystemMessage(webview, `Indexing the workspace with ${provider.id}...`);
+        try {
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Gemini FS: Indexing workspace' },
+                progress => {
+                    let reported = 0;
+                    return this.semanticIndex.rebuild((done, total) => {
+                        const percent = Math.floor((done / total) * 100);
+                        progress.report({ message: `${done}/${total} files`, increment: percent - reported });
+                        reported = percent;
+                    });
+                }
+            );
+            let summary = `Index rebuilt: ${result.indexedFiles + result.reusedFiles} file(s), ${result.chunkCount} chunk(s). ${result.indexedFiles} file(s) embedded, ${result.reusedFiles} unchanged.`;
+            if (result.skippedFiles > 0) {
+                summary += ` Skipped ${result.skippedFiles} binary, large or unreadable file(s).`;
+            }
+            if (result.truncated) {
+                summary += ' The workspace has more files than the index takes; narrow it down with search.exclude.';
+            }
+            this.showSystemMessage(webview, summary, this.currentHistory);
+        } catch (error: any) {
+            console.error("FileService: Index rebuild failed", error);
+            this.showSystemMessage(webview, `Error: Could not rebuild the index: ${error.message || 'Unknown error'}`, this.currentHistory);
+        }
+    }
+
+    private buildHistoryForGemini(messageText: string, retrievedChunks: RetrievedChunk[] = []): ChatMessage[] {
+        // The user message is already added to currentHistory at the beginning of processChatMessage.
+        // We need to construct the historyForGemini *before* this turn's user message for context injection.
+        let historyForGeminiPromptConstruction: ChatMessage[] = [...this.currentHistory];
+        
+        // Remove the last user message if it's the current one, to inject context before it.
+        if (historyForGeminiPromptConstruction.length > 0 &&
+            historyForGeminiPromptConstruction[historyForGeminiPromptConstruction.length - 1].role === 'user' &&
+            historyForGeminiPromptConstruction[historyForGeminiPromptConstruction.length - 1].parts[0].text === messageText) {
+            historyForGeminiPromptConstruction = historyForGeminiPromptConstruction.slice(0, -1);
+        }
+
+        // Prepend context to the history that Gemini will process for this turn
+        this.contextualContent.forEach(item => historyForGeminiPromptConstruction.push(...this.buildContextPreamble(item)));
+        if (retrievedChunks.length > 0) {
+            historyForGeminiPromptConstruction.push(...this.buildRetrievalPreamble(retrievedChunks));
+        }
+
+        // Now add the actual current user message to this specially constructed history
+        historyForGeminiPromptConstruction.push({ role: 'user', parts: [{ text: messageText }] });
+        return historyForGeminiPromptConstruction;
+    }
+
+    private async sendChatTurn(historyForGeminiPromptConstruction: ChatMessage[], webview: vscode.Webview): Promise<void> {
+        this.showSystemMessage(webview, "Gemini is thinking..."); // This system message is for UI, not for Gemini's history
+        try {                
+            // Use the historyForGeminiPromptConstruction for the API call. Chunks go straight to the webview;
+            // nothing is added to currentHistory until the stream has finished.
+            const onChunk = (chunkText: string) => webview.postMessage({ command: 'geminiResponseChunk', text: chunkText });
+            const toolConfig = vscode.workspace.getConfiguration('geminiFS');
+            if (!toolConfig.get<boolean>('tools.enabled', true)) {
+                this.commitStreamedResponse(await this.geminiService.streamGeminiWithHistory(historyForGeminiPromptConstruction, onChunk), webview);
                 return;
             }
+            const toolExecutor = new FileToolExecutor(() => this.currentWorkspaceRoot, this.fileOpCommands, webview);
+            const maxIterations = toolConfig.get<number>('tools.maxIterations', 8);
+            const toolResult = await this.geminiService.streamGeminiWithTools(historyForGeminiPromptConstruction, {
+                functionDeclarations: FILE_TOOL_DECLARATIONS,
+                onChunk,
+                maxIterations,
+                executeTool: async call => {
+                    const outcome = await toolExecutor.execute(call);
+                    // The trace is part of the transcript, so later turns also know what Gemini looked at
+                    this.currentHistory.push({ role: 'model', parts: [{ text: `System: Tool call: ${outcome.trace}` }] });
+                    webview.postMessage({ command: 'toolCall', text: outcome.trace });
+                    return outcome.response;
+                }
+            });
+            this.commitToolLoopResponse(toolResult, maxIterations, webview);
+        } catch (error: any) {
+            const errorMessage = `Error calling Gemini: ${error.message || 'Unknown error'}`;
+            // Add error indication to history for user, but maybe not for Gemini's next turn unless it's a Gemini fault
+            const errorSystemMessage: ChatMessage = { role: 'model', parts: [{ text: `System: ${errorMessage}` }] };
+            this.currentHistory.push(errorSystemMessage);
+            console.error(errorMessage, error);
+            webview.postMessage({ command: 'geminiResponse', sender: 'system', text: `Error: ${error.message}`, history: [...this.currentHistory], isError: true });
+        }
+    }
 
-            // The user message is already added to currentHistory at the beginning of this function.
-            // We need to construct the historyForGemini *before* this turn's user message for context injection.
-            let historyForGeminiPromptConstruction: ChatMessage[] = [...this.currentHistory];
-            
-            // Remove the last user message if it's the current one, to inject context before it.
-            if (historyForGeminiPromptConstruction.length > 0 &&
-                historyForGeminiPromptConstruction[historyForGeminiPromptConstruction.length - 1].role === 'user' &&
-                historyForGeminiPromptConstruction[historyForGeminiPromptConstruction.length - 1].parts[0].text === messageText) {
-                historyForGeminiPromptConstruction = historyForGeminiPromptConstruction.slice(0, -1);
+    /**
+     * Token count of every context entry (as sent in the preamble), in context order. Throws if counting fails.
+     */
+    private async countContextTokens(modelToUse: string): Promise<number[]> {
+        if (this.tokenCountCache.size > MAX_TOKEN_COUNT_CACHE_ENTRIES) {
+            this.tokenCountCache.clear();
+        }
+        const counts: number[] = [];
+        for (const item of this.contextualContent) {
+            const cacheKey = `${modelToUse}\0${item.path}\0${createHash('sha1').update(item.content).digest('hex')}`;
+            let count = this.tokenCountCache.get(cacheKey);
+            if (count === undefined) {
+                count = await this.geminiService.countTokens(this.buildContextPreamble(item));
+                this.tokenCountCache.set(cacheKey, count);
             }
+            counts.push(count);
+        }
+        return counts;
+    }
 
+    /**
+     * Counts the tokens of the prompt and, when it is over the model's budget, holds the message back and asks
+     * the user how to make it fit. Returns true when the message can be sent as is.
+     */
+    private async fitsTokenBudget(messageText: string, historyForGemini: ChatMessage[], modelToUse: string, webview: vscode.Webview, retrievedChunks: RetrievedChunk[] = []): Promise<boolean> {
+        const budget = getInputTokenBudget(modelToUse);
+        let totalTokens: number;
+        let contextTokens: number;
+        try {
+            totalTokens = await this.geminiService.countTokens(historyForGemini);
+            if (totalTokens <= budget) {
+                return true;
+            }
+            contextTokens = (await this.countContextTokens(modelToUse)).reduce((sum, count) => sum + count, 0);
+        } catch (error: any) {
+            // Not fatal, but the user has to know the check did not run
+            this.showSystemMessage(webview, `Could not count tokens before sending (${error.message || 'Unknown error'}). Sending without a token budget check.`, this.currentHistory);
+            return true;
+        }
 
-            if (this.contextualContent.length > 0) {
-                const contextPreambleMessages: ChatMessage[] = [];
-                this.contextualContent.forEach(item => {
-                    contextPreambleMessages.push({
-                        role: 'user', // Priming Gemini with context as if user provided it
-                        parts: [{ text: `IMPORTANT CONTEXT FILE: ${item.path}\nCONTENT:\n\`\`\`\n${item.content}\n\`\`\`` }]
-                    });
-                    contextPreambleMessages.push({
-                        role: 'model', // Gemini acknowledges the context
-                        parts: [{ text: `Acknowledged. The content of "${item.path}" is now part of my context for the subsequent query.` }]
-                    });
+        let budgetMessage = `This message needs ${totalTokens} tokens, but the input budget for ${modelToUse} is ${budget} tokens (${contextTokens} of them are /context files).`;
+        if (this.contextualContent.length === 0 || contextTokens < totalTokens - budget) {
+            budgetMessage += " Changing the context files cannot make it fit. Use /session clear or /session new to start over with a shorter history. The message was not sent.";
+            this.showSystemMessage(webview, budgetMessage, this.currentHistory);
+            return false;
+        }
+
+        budgetMessage += " Choose how to make it fit: truncate the context files, summarize them with Gemini, or drop the oldest context files.";
+        this.pendingOverBudgetMessage = { messageText, modelToUse, sessionId: this.sessionStore.activeSession.id, retrievedChunks };
+        this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${budgetMessage}` }] });
+        webview.postMessage({ command: 'tokenBudgetExceeded', text: budgetMessage, totalTokens, budget, contextTokens, history: [...this.currentHistory] });
+        return false;
+    }
+
+    /**
+     * Applies the user's answer to a tokenBudgetExceeded prompt and sends the held-back message if it fits now.
+     */
+    public async resolveTokenBudget(choice: TokenBudgetChoice | 'cancel', webview: vscode.Webview): Promise<void> {
+        const pending = this.pendingOverBudgetMessage;
+        this.pendingOverBudgetMessage = undefined;
+        if (!pending || pending.sessionId !== this.sessionStore.activeSession.id) {
+            this.showSystemMessage(webview, "There is no message in this session waiting for a token budget decision.", this.currentHistory);
+            return;
+        }
+
+        try {
+            if (choice === 'cancel') {
+                this.showSystemMessage(webview, "Message not sent. Context left unchanged.", this.currentHistory);
+                return;
+            }
+            if (!(await this.applyTokenBudgetChoice(choice, pending.messageText, pending.modelToUse, webview, pending.retrievedChunks))) {
+                return;
+            }
+            const historyForGemini = this.buildHistoryForGemini(pending.messageText, pending.retrievedChunks);
+            if (await this.fitsTokenBudget(pending.messageText, historyForGemini, pending.modelToUse, webview, pending.retrievedChunks)) {
+                await this.sendChatTurn(historyForGemini, webview);
+            }
+        } finally {
+            await this.saveState();
+        }
+    }
+
+    private async applyTokenBudgetChoice(choice: TokenBudgetChoice, messageText: string, modelToUse: string, webview: vscode.Webview, retrievedChunks: RetrievedChunk[]): Promise<boolean> {
+        let tokensToFree: number;
+        let counts: number[];
+        try {
+            tokensToFree = await this.geminiService.countTokens(this.buildHistoryForGemini(messageText, retrievedChunks)) - getInputTokenBudget(modelToUse);
+            counts = await this.countContextTokens(modelToUse);
+        } catch (error: any) {
+            this.showSystemMessage(webview, `Could not count tokens (${error.message || 'Unknown error'}). Context left unchanged; message not sent.`, this.currentHistory);
+            return false;
+        }
+        if (tokensToFree <= 0) {
+            return true;
+        }
+        const contextTokens = counts.reduce((sum, count) => sum + count, 0);
+
+        switch (choice) {
+            case 'dropOldest': {
+                const dropped = this.contextualContent.splice(0, countOldestToDrop(counts, tokensToFree));
+                this.showSystemMessage(webview, `Dropped ${dropped.length} oldest context file(s) to fit the token budget: ${dropped.map(d => d.path).join(', ')}`, this.currentHistory);
+                return true;
+            }
+            case 'truncate': {
+                const keepRatio = (contextTokens - tokensToFree) / contextTokens;
+                this.contextualContent.forEach((item, i) => {
+                    item.content = truncateToTokenShare(item.content, counts[i], Math.floor(counts[i] * keepRatio));
                 });
-                // Prepend context to the history that Gemini will process for this turn
-                historyForGeminiPromptConstruction.push(...contextPreambleMessages);
+                this.showSystemMessage(webview, `Truncated ${this.contextualContent.length} context file(s) to about ${Math.floor(keepRatio * 100)}% of their size to fit the token budget.`, this.currentHistory);
+                return true;
+            }
+            case 'summarize': {
+                this.showSystemMessage(webview, `Summarizing ${this.contextualContent.length} context file(s) with Gemini...`);
+                for (const item of this.contextualContent) {
+                    const summaryResult = await this.geminiService.streamGeminiWithHistory([{
+                        role: 'user',
+                        parts: [{ text: `Summarize the file "${item.path}" below so the summary can replace it as context for later questions. Keep exported names, signatures and the key logic; be concise.\n\`\`\`\n${item.content}\n\`\`\`` }]
+                    }], () => { /* Only the final summary is used */ });
+                    const failure = summaryResult.cancelled ? 'cancelled' : summaryResult.blockReason ? `blocked (${summaryResult.blockReason})` : summaryResult.error;
+                    if (failure || !summaryResult.text) {
+                        this.showSystemMessage(webview, `Could not summarize ${item.path}: ${failure || 'empty response'}. Files summarized so far keep their summaries; message not sent.`, this.currentHistory);
+                        return false;
+                    }
+                    item.content = `[Summary generated by Gemini to fit the token budget]\n${summaryResult.text}`;
+                }
+                this.showSystemMessage(webview, `Replaced ${this.contextualContent.length} context file(s) with summaries.`, this.currentHistory);
+                return true;
             }
+        }
+    }
+
+    private commitToolLoopResponse(toolResult: GeminiToolLoopResult, maxIterations: number, webview: vscode.Webview): void {
+        if (!toolResult.iterationLimitReached) {
+            this.commitStreamedResponse(toolResult, webview);
+            return;
+        }
+        const limitMessage = `Stopped after ${maxIterations} rounds of tool calls (geminiFS.tools.maxIterations). Ask a narrower question or continue with a follow-up message.`;
+        if (toolResult.text) {
+            this.currentHistory.push({ role: 'model', parts: [{ text: toolResult.text }] });
+        }
+        this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${limitMessage}` }] });
+        webview.postMessage({ command: 'geminiResponseEnd', text: toolResult.text, noticeText: limitMessage, history: [...this.currentHistory] });
+    }
 
-            // Now add the actual current user message to this specially constructed history
-            historyForGeminiPromptConstruction.push({ role: 'user', parts: [{ text: messageText }] });
+    private commitStreamedResponse(streamResult: GeminiStreamResult, webview: vscode.Webview): void {
+        if (streamResult.text) {
+            // Keep whatever was streamed, even if the stream was cut short, so the history matches what the user saw
+            this.currentHistory.push({ role: 'model', parts: [{ text: streamResult.text }] });
+        }
 
+        if (streamResult.cancelled) {
+            // Mark the turn so both the transcript and Gemini's next turn know this reply was cut off deliberately
+            const cancelledMessage = streamResult.text ? "Request cancelled by user. The response above is incomplete." : "Request cancelled by user.";
+            this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${cancelledMessage}` }] });
+            webview.postMessage({ command: 'geminiResponseEnd', text: streamResult.text, noticeText: cancelledMessage, cancelled: true, history: [...this.currentHistory] });
+            return;
+        }
 
-            this.showSystemMessage(webview, "Gemini is thinking..."); // This system message is for UI, not for Gemini's history
-            try {                
-                // Use the historyForGeminiPromptConstruction for the API call
-                const geminiResponseText = await this.geminiService.askGeminiWithHistory(historyForGeminiPromptConstruction);
-                const geminiMessage: ChatMessage = { role: 'model', parts: [{ text: geminiResponseText }] };
-                this.currentHistory.push(geminiMessage); // Add Gemini's actual response to the persistent history
-                webview.postMessage({ command: 'geminiResponse', sender: 'gemini', text: geminiResponseText, history: [...this.currentHistory] });
-            } catch (error: any) {
-                const errorMessage = `Error calling Gemini: ${error.message || 'Unknown error'}`;
-                // Add error indication to history for user, but maybe not for Gemini's next turn unless it's a Gemini fault
-                const errorSystemMessage: ChatMessage = { role: 'model', parts: [{ text: `System: ${errorMessage}` }] };
-                this.currentHistory.push(errorSystemMessage);
-                console.error(errorMessage, error);
-                webview.postMessage({ command: 'geminiResponse', sender: 'system', text: `Error: ${error.message}`, history: [...this.currentHistory], isError: true });
-            }
+        let errorMessage: string | undefined;
+        if (streamResult.blockReason) {
+            errorMessage = `Your request was blocked by the API: ${streamResult.blockReason}. Please rephrase your prompt.`;
+        } else if (streamResult.error) {
+            errorMessage = streamResult.text
+                ? `Gemini's response was interrupted: ${streamResult.error}`
+                : `Error calling Gemini: ${streamResult.error}`;
         }
+
+        if (errorMessage) {
+            this.currentHistory.push({ role: 'model', parts: [{ text: `System: ${errorMessage}` }] });
+            console.error(errorMessage);
+        }
+        webview.postMessage({
+            command: 'geminiResponseEnd',
+            text: streamResult.text,
+            errorText: errorMessage,
+            isError: !!errorMessage,
+            history: [...this.currentHistory]
+        });
     }
 
     private ensureWorkspaceOpen(webview: vscode.Webview): boolean {
@@ -185,17 +1205,51 @@ export class FileService {
     // and used by FileOperationCommands. If FileService itself needs them for other purposes (e.g. context management),
     // it should also import them from fileSystemUtils. For addPathToContext, it does.
 
-    private async addPathToContext(rawPath: string, webview: vscode.Webview): Promise<void> {
+    /**
+     * Adds a file, a folder (direct children, or the whole tree with `recursive`) or a workspace-relative glob
+     * to the context. Folders and globs skip node_modules, .git, files.exclude, .gitignore matches and binaries.
+     */
+    private async addPathToContext(rawPath: string, webview: vscode.Webview, recursive = false): Promise<void> {
         if (!this.ensureWorkspaceOpen(webview)) {
             return;
         }
+        const workspaceRoot = this.currentWorkspaceRoot!;
+
+        if (isGlobPattern(rawPath)) {
+            if (rawPath.replace(/\\/g, '/').split(/[/:]/).includes('..')) {
+                this.showSystemMessage(webview, `Glob patterns cannot leave the workspace: ${rawPath}`, this.currentHistory);
+                return;
+            }
+            const roots = rootsForGlob(rawPath, workspaceRoot);
+            if (!roots) {
+                this.showSystemMessage(webview, `Unknown workspace folder in ${rawPath}. Workspace folders: ${describeWorkspaceFolders()}`, this.currentHistory);
+                return;
+            }
+            try {
+                // In a multi-root workspace an unqualified glob covers every folder
+                const candidateResult: ContextCandidateResult = { candidates: [], truncated: false };
+                for (const root of roots) {
+                    const rootResult = await findContextCandidates(root.rootUri, { glob: root.glob ?? '**/*' });
+                    candidateResult.candidates.push(...rootResult.candidates);
+                    candidateResult.truncated = candidateResult.truncated || rootResult.truncated;
+                }
+                if (candidateResult.candidates.length === 0) {
+                    this.showSystemMessage(webview, `No files match ${rawPath}.`, this.currentHistory);
+                    return;
+                }
+                await this.addCandidatesToContext(rawPath, candidateResult, webview);
+            } catch (error: any) {
+                this.showSystemMessage(webview, `Error searching for ${rawPath}: ${error.message}`, this.currentHistory);
+                console.error(`Error in addPathToContext for glob ${rawPath}:`, error);
+            }
+            return;
+        }
 
-        const workspaceRootUri = vscode.workspace.workspaceFolders![0].uri;
         let targetUri: vscode.Uri;
         let relativePath: string;
 
         try {
-            const resolved = resolvePathUtil(rawPath, this.currentWorkspaceRoot, webview, this.showSystemMessage, this.currentHistory);
+            const resolved = await resolvePathAcrossRootsUtil(rawPath, this.currentWorkspaceRoot, webview, this.showSystemMessage, this.currentHistory);
             if (!resolved) {
                 return;
             }
@@ -209,92 +1263,27 @@ export class FileService {
 
         try {
             const stat = await vscode.workspace.fs.stat(targetUri);
-            let filesAddedCount = 0;
-            let filesSkippedCount = 0;
-            let filesUpdatedCount = 0;
 
             if (stat.type === vscode.FileType.File) {
-                if (stat.size > MAX_FILE_SIZE_FOR_CONTEXT) {
-                    this.showSystemMessage(webview, `File ${relativePath} is too large (${(stat.size / 1024).toFixed(2)}KB) to add to context. Max size is ${(MAX_FILE_SIZE_FOR_CONTEXT / 1024)}KB.`, this.currentHistory);
-                    filesSkippedCount++;
+                // An explicitly named file is added even if .gitignore matches it; the user asked for it by name
+                const outcome = await this.addFileToContext({ uri: targetUri, relativePath }, stat.size);
+                if (outcome.status === 'added') {
+                    this.showSystemMessage(webview, `Added to context: ${relativePath}`, this.currentHistory);
+                } else if (outcome.status === 'updated') {
+                    this.showSystemMessage(webview, `Updated context for: ${relativePath}`, this.currentHistory);
                 } else {
-                    const content = await readFileContentUtil(targetUri); // Use util
-                    const existingIndex = this.contextualContent.findIndex(c => c.path === relativePath);
-                    if (existingIndex !== -1) {
-                        this.contextualContent[existingIndex].content = content;
-                        this.showSystemMessage(webview, `Updated context for: ${relativePath}`, this.currentHistory);
-                        filesUpdatedCount++;
-                    } else {
-                        this.contextualContent.push({ path: relativePath, content });
-                        this.showSystemMessage(webview, `Added to context: ${relativePath}`, this.currentHistory);
-                        filesAddedCount++;
-                    }
+                    this.showSystemMessage(webview, `Skipped ${relativePath}: ${outcome.detail}`, this.currentHistory);
                 }
+                this.showSystemMessage(webview, this.describeContextSize(), this.currentHistory);
             } else if (stat.type === vscode.FileType.Directory) {
-                const entries = await vscode.workspace.fs.readDirectory(targetUri);
-                let dirFilesAdded = 0;
-                let dirFilesSkipped = 0;
-                let dirFilesUpdated = 0;
-
-                if (entries.length === 0) {
-                    this.showSystemMessage(webview, `Directory ${relativePath} is empty. No files added to context.`, this.currentHistory);
+                const candidateResult = await findContextCandidates(parseWorkspacePath(relativePath, workspaceRoot).rootUri, { directory: targetUri, recursive });
+                if (candidateResult.candidates.length === 0) {
+                    this.showSystemMessage(webview, `Directory ${relativePath} has no applicable files${recursive ? '' : ' (use --recursive to include subfolders)'}. No files added to context.`, this.currentHistory);
+                    return;
                 }
-
-                for (const [name, type] of entries) {
-                    if (type === vscode.FileType.File) {
-                        const fileUriInDir = vscode.Uri.joinPath(targetUri, name);
-                        // Construct relative path correctly for files in subdirectories
-                        const fileRelativePath = path.join(relativePath === '.' ? '' : relativePath, name).replace(/\\/g, '/');
-                        try {
-                            const fileStat = await vscode.workspace.fs.stat(fileUriInDir);
-                            if (fileStat.size > MAX_FILE_SIZE_FOR_CONTEXT) {
-                                this.showSystemMessage(webview, `Skipped ${fileRelativePath} (in ${relativePath}) due to size > ${MAX_FILE_SIZE_FOR_CONTEXT / 1024}KB.`, this.currentHistory);
-                                dirFilesSkipped++;
-                                continue;
-                            }
-                            const content = await readFileContentUtil(fileUriInDir); // Use util
-                            const existingIndex = this.contextualContent.findIndex(c => c.path === fileRelativePath);
-                            if (existingIndex !== -1) {
-                                this.contextualContent[existingIndex].content = content;
-                                dirFilesUpdated++;
-                            } else {
-                                this.contextualContent.push({ path: fileRelativePath, content });
-                                dirFilesAdded++;
-                            }
-                        } catch (e: any) {
-                            this.showSystemMessage(webview, `Could not read file ${fileRelativePath} in directory ${relativePath}: ${e.message}`, this.currentHistory);
-                            console.warn(`Could not read file ${fileRelativePath} in directory: ${e.message}`);
-                        }
-                    }
-                }
-                filesAddedCount += dirFilesAdded;
-                filesSkippedCount += dirFilesSkipped;
-                filesUpdatedCount += dirFilesUpdated;
-
-                let message = "";
-                if (dirFilesAdded > 0) {
-                    message += `Added ${dirFilesAdded} new file(s) from ${relativePath}. `;
-                }
-                if (dirFilesUpdated > 0) {
-                    message += `Updated ${dirFilesUpdated} existing file(s) in context from ${relativePath}. `;
-                }
-                if (dirFilesSkipped > 0) {
-                    message += `Skipped ${dirFilesSkipped} file(s) from ${relativePath} due to size. `;
-                }
-                if (message) {
-                    this.showSystemMessage(webview, message.trim(), this.currentHistory);
-                } else if (entries.length > 0 && dirFilesAdded === 0 && dirFilesUpdated === 0 && dirFilesSkipped === 0) {
-                     this.showSystemMessage(webview, `No applicable files found in directory ${relativePath} to add or update in context.`, this.currentHistory);
-                }
-
-
+                await this.addCandidatesToContext(relativePath, candidateResult, webview);
             } else {
                 this.showSystemMessage(webview, `Path ${relativePath} is not a file or directory.`, this.currentHistory);
-                return;
-            }
-
-            if (filesAddedCount > 0 || filesSkippedCount > 0 || filesUpdatedCount > 0) {
-                 this.showSystemMessage(webview, `Context now contains ${this.contextualContent.length} file(s).`, this.currentHistory);
             }
         } catch (error: any) {
             if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
@@ -306,17 +1295,132 @@ export class FileService {
         }
     }
 
+    private async addCandidatesToContext(targetLabel: string, candidateResult: ContextCandidateResult, webview: vscode.Webview): Promise<void> {
+        // .gitignore rules apply per workspace folder, to the path inside that folder
+        const gitignoreFilters = new Map<string, (relativePath: string) => boolean>();
+        const isIgnored = async (workspacePath: string) => {
+            const { rootUri, relativePath } = parseWorkspacePath(workspacePath, this.currentWorkspaceRoot!);
+            let filter = gitignoreFilters.get(rootUri.toString());
+            if (!filter) {
+                filter = await loadGitignoreFilter(rootUri);
+                gitignoreFilters.set(rootUri.toString(), filter);
+            }
+            return filter(relativePath);
+        };
+        const isDenied = getDeniedPathMatcher();
+        let addedCount = 0;
+        let updatedCount = 0;
+        const skippedByReason = new Map<ContextSkipReason, number>();
+
+        for (const candidate of candidateResult.candidates) {
+            let outcome: ContextAddOutcome;
+            const { rootUri, relativePath: pathInRoot } = parseWorkspacePath(candidate.relativePath, this.currentWorkspaceRoot!);
+            if (isDenied(pathInRoot)) {
+                outcome = { status: 'skipped', reason: 'denied by geminiFS.security.deniedPaths', detail: 'denied by geminiFS.security.deniedPaths' };
+            } else if (getWorkspacePolicy(rootUri).isForbidden(pathInRoot)) {
+                outcome = { status: 'skipped', reason: 'forbidden by .gemini-fs.json', detail: 'forbidden by .gemini-fs.json' };
+            } else if (await isIgnored(candidate.relativePath)) {
+                outcome = { status: 'skipped', reason: 'ignored by .gitignore', detail: 'ignored by .gitignore' };
+            } else if (!await isRealPathInsideRoot(rootUri, candidate.uri)) {
+                outcome = { status: 'skipped', reason: 'linked from outside the workspace', detail: 'it is a symbolic link to a file outside the workspace' };
+            } else {
+                try {
+                    const fileStat = await vscode.workspace.fs.stat(candidate.uri);
+                    outcome = await this.addFileToContext(candidate, fileStat.size);
+                } catch (error: any) {
+                    console.warn(`Could not read file ${candidate.relativePath} for context: ${error.message}`);
+                    outcome = { status: 'skipped', reason: 'unreadable', detail: error.message };
+                }
+            }
+
+            if (outcome.status === 'added') {
+                addedCount++;
+            } else if (outcome.status === 'updated') {
+                updatedCount++;
+            } else {
+                skippedByReason.set(outcome.reason, (skippedByReason.get(outcome.reason) ?? 0) + 1);
+            }
+        }
+
+        const skippedCount = [...skippedByReason.values()].reduce((sum, count) => sum + count, 0);
+        let message = `Context update for ${targetLabel}: ${addedCount} added, ${updatedCount} updated, ${skippedCount} skipped`;
+        if (skippedCount > 0) {
+            message += ` (${[...skippedByReason.entries()].map(([reason, count]) => `${count} ${reason}`).join(', ')})`;
+        }
+        message += '.';
+        if (candidateResult.truncated) {
+            message += ` Only the first ${candidateResult.candidates.length} matching files were considered.`;
+        }
+        this.showSystemMessage(webview, message, this.currentHistory);
+        this.showSystemMessage(webview, this.describeContextSize(), this.currentHistory);
+    }
+
+    /**
+     * Reads one file into the context, enforcing the per-file limit, the total budget and the binary check.
+     */
+    private async addFileToContext(candidate: ContextCandidate, size: number): Promise<ContextAddOutcome> {
+        if (hasBinaryExtension(candidate.relativePath)) {
+            return { status: 'skipped', reason: 'binary', detail: 'binary files cannot be added to context.' };
+        }
+        const maxFileSize = this.maxContextFileSize(parseWorkspacePath(candidate.relativePath, this.currentWorkspaceRoot!).rootUri);
+        if (size > maxFileSize) {
+            return { status: 'skipped', reason: 'too large', detail: `file is too large (${(size / 1024).toFixed(2)}KB). Max size is ${(maxFileSize / 1024)}KB.` };
+        }
+
+        const existingIndex = this.contextualContent.findIndex(c => c.path === candidate.relativePath);
+        const sizeFreedByUpdate = existingIndex !== -1 ? byteSize(this.contextualContent[existingIndex].content) : 0;
+        if (this.getContextSize() - sizeFreedByUpdate + size > MAX_TOTAL_CONTEXT_SIZE) {
+            return { status: 'skipped', reason: 'over the total size budget', detail: `the context would exceed its total budget of ${MAX_TOTAL_CONTEXT_SIZE / 1024}KB.` };
+        }
+
+        const bytes = await vscode.workspace.fs.readFile(candidate.uri);
+        if (looksLikeBinaryContent(bytes)) {
+            return { status: 'skipped', reason: 'binary', detail: 'binary files cannot be added to context.' };
+        }
+        const content = new TextDecoder().decode(bytes);
+        if (existingIndex !== -1) {
+            this.contextualContent[existingIndex].content = content;
+            return { status: 'updated' };
+        }
+        this.contextualContent.push({ path: candidate.relativePath, content });
+        return { status: 'added' };
+    }
+
+    private getContextSize(): number {
+        return this.contextualContent.reduce((total, item) => total + byteSize(item.content), 0);
+    }
+
+    private describeContextSize(): string {
+        return `Context now contains ${this.contextualContent.length} file(s) (${(this.getContextSize() / 1024).toFixed(2)}KB of ${MAX_TOTAL_CONTEXT_SIZE / 1024}KB budget).`;
+    }
+
     private async clearContext(webview: vscode.Webview): Promise<void> {
         this.contextualContent = [];
+        this.sessionStore.activeSession.pendingContextPaths = [];
         this.showSystemMessage(webview, "Context has been cleared.", this.currentHistory);
     }
 
-    private async listContext(webview: vscode.Webview): Promise<void> {
+    private async listContext(webview: vscode.Webview, modelToUse: string): Promise<void> {
         if (this.contextualContent.length === 0) {
             this.showSystemMessage(webview, "Context is currently empty.", this.currentHistory);
             return;
         }
-        const fileList = this.contextualContent.map(c => `- ${c.path} (${(c.content.length / 1024).toFixed(2)}KB)`).join('\n');
-        this.showSystemMessage(webview, `Files currently in context:\n${fileList}\nTotal: ${this.contextualContent.length} file(s).`, this.currentHistory);
+        let tokenCounts: number[] | undefined;
+        let tokenError: string | undefined;
+        try {
+            tokenCounts = await this.countContextTokens(modelToUse);
+        } catch (error: any) {
+            tokenError = error.message || 'Unknown error';
+        }
+        const fileList = this.contextualContent
+            .map((c, i) => `- ${c.path} (${(byteSize(c.content) / 1024).toFixed(2)}KB${tokenCounts ? `, ${tokenCounts[i]} tokens` : ''})`)
+            .join('\n');
+        let totals = `Total: ${this.contextualContent.length} file(s)`;
+        if (tokenCounts) {
+            totals += `, ${tokenCounts.reduce((sum, count) => sum + count, 0)} tokens of the ${getInputTokenBudget(modelToUse)}-token input budget for ${modelToUse}.`;
+        } else {
+            totals += `. Token counts unavailable: ${tokenError}`;
+        }
+        this.showSystemMessage(webview, `Files currently in context:\n${fileList}\n${totals}`, this.currentHistory);
     }
 }
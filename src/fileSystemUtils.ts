@@ -1,7 +1,11 @@
 // c:\Users\marti\gemini-fs\src\fileSystemUtils.ts
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { ChatMessage } from './geminiService'; // Assuming ChatMessage is needed by showSystemMessageCallback
+import { describeWorkspaceFolders, findWorkspaceFolder, formatWorkspacePath, getWorkspaceFolders, isMultiRootWorkspace, parseWorkspacePath, splitRootPrefix } from './workspaceFolders';
+import { getDeniedPathMatcher, isPathInsideRoot, isRealPathInsideRoot } from './pathSecurity';
+import { getWorkspacePolicy } from './workspacePolicy';
 
 export async function readFileContentUtil(uri: vscode.Uri): Promise<string> {
     const uint8Array = await vscode.workspace.fs.readFile(uri);
@@ -13,6 +17,11 @@ export async function writeFileContentUtil(uri: vscode.Uri, content: string): Pr
     await vscode.workspace.fs.writeFile(uri, uint8Array);
 }
 
+// Fingerprint of a file's text, sent along with previews so a confirmation can tell whether the file changed since
+export function hashContentUtil(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
 export function resolvePathUtil(
     rawPath: string,
     currentWorkspaceRoot: vscode.Uri | undefined,
@@ -24,8 +33,21 @@ export function resolvePathUtil(
         showSystemMessageCallback(webview, "No workspace folder is open.", historyToUpdateForMessage);
         return null;
     }
-    const rootUri = currentWorkspaceRoot; 
-    let normalizedPath = rawPath.trim().replace(/\\/g, '/');
+    // "backend:src/app.ts" picks the workspace folder; without a prefix the path is inside currentWorkspaceRoot
+    let rootUri = currentWorkspaceRoot;
+    let pathInRoot = rawPath.trim();
+    const prefixed = splitRootPrefix(pathInRoot);
+    if (prefixed) {
+        const folder = findWorkspaceFolder(prefixed.rootName);
+        if (folder) {
+            rootUri = folder.uri;
+            pathInRoot = prefixed.path;
+        } else if (isMultiRootWorkspace()) {
+            showSystemMessageCallback(webview, `Unknown workspace folder "${prefixed.rootName}". Workspace folders: ${describeWorkspaceFolders()}`, historyToUpdateForMessage);
+            return null;
+        }
+    }
+    let normalizedPath = pathInRoot.replace(/\\/g, '/');
     normalizedPath = normalizedPath.replace(/^[/\\]+/, '');
 
     let targetUri: vscode.Uri;
@@ -36,17 +58,107 @@ export function resolvePathUtil(
         return null;
     }
 
-    const rootFsPath = rootUri.fsPath.replace(/\\/g, '/');
+    const rootFsPath = rootUri.fsPath.replace(/\\/g, '/').replace(/\/+$/, '');
     const targetFsPath = targetUri.fsPath.replace(/\\/g, '/');
 
-    if (!targetFsPath.startsWith(rootFsPath) && targetFsPath !== rootFsPath) {
+    // Checked against the folder the path resolved in: "backend:../frontend/x" is outside, even though it is in the workspace.
+    // Whole segments are compared, so a sibling folder sharing the prefix ("/work/app-secrets" for "/work/app") is outside too.
+    if (!isPathInsideRoot(rootFsPath, targetFsPath)) {
         showSystemMessageCallback(webview, `Path is outside the workspace: ${normalizedPath}`, historyToUpdateForMessage);
         return null;
     }
-    const displayRelativePath = targetFsPath.startsWith(rootFsPath)
-        ? targetFsPath.slice(rootFsPath.length).replace(/\\/g, '/')
-        : targetFsPath.replace(/\\/g, '/');
-    return { uri: targetUri, relativePath: displayRelativePath || '.' };
+    // No leading slash, so paths match the workspace-relative form used for context entries ("src/app.ts")
+    const displayRelativePath = targetFsPath.slice(rootFsPath.length).replace(/^\/+/, '');
+    if (getDeniedPathMatcher()(displayRelativePath)) {
+        showSystemMessageCallback(webview, `Access to ${formatWorkspacePath(rootUri, displayRelativePath)} is blocked by the geminiFS.security.deniedPaths setting.`, historyToUpdateForMessage);
+        return null;
+    }
+    const policy = getWorkspacePolicy(rootUri);
+    if (policy.isForbidden(displayRelativePath)) {
+        showSystemMessageCallback(webview, `Access to ${formatWorkspacePath(rootUri, displayRelativePath)} is forbidden by ${policy.source}.`, historyToUpdateForMessage);
+        return null;
+    }
+    return { uri: targetUri, relativePath: formatWorkspacePath(rootUri, displayRelativePath || '.') };
+}
+
+/**
+ * Like resolvePathUtil, but a path without a folder prefix in a multi-root workspace is looked up in every
+ * workspace folder: the folder where it exists wins, or for a new file the folder where its parent exists.
+ * An existing path found in several folders is reported as ambiguous; otherwise it falls back to currentWorkspaceRoot.
+ * Symlinks are followed as well: a path whose real location is outside its workspace folder is refused.
+ * With `access` 'write', paths the folder's .gemini-fs.json marks read-only are refused too.
+ */
+export async function resolvePathAcrossRootsUtil(
+    rawPath: string,
+    currentWorkspaceRoot: vscode.Uri | undefined,
+    webview: vscode.Webview,
+    showSystemMessageCallback: (webview: vscode.Webview, message: string, historyToUpdate?: ChatMessage[]) => void,
+    historyToUpdateForMessage?: ChatMessage[],
+    access: 'read' | 'write' = 'read'
+): Promise<{ uri: vscode.Uri, relativePath: string } | null> {
+    const resolved = await pickWorkspaceFolderForPath(rawPath, currentWorkspaceRoot, webview, showSystemMessageCallback, historyToUpdateForMessage);
+    if (!resolved || !currentWorkspaceRoot) {
+        return resolved;
+    }
+    const { rootUri, relativePath } = parseWorkspacePath(resolved.relativePath, currentWorkspaceRoot);
+    if (!await isRealPathInsideRoot(rootUri, resolved.uri)) {
+        showSystemMessageCallback(webview, `Path is outside the workspace: ${resolved.relativePath} is a symbolic link (or inside one) that points elsewhere.`, historyToUpdateForMessage);
+        return null;
+    }
+    const policy = getWorkspacePolicy(rootUri);
+    if (access === 'write' && policy.isReadOnly(relativePath)) {
+        showSystemMessageCallback(webview, `${resolved.relativePath} is read-only according to ${policy.source}. Gemini FS can read it but not change, move or delete it.`, historyToUpdateForMessage);
+        return null;
+    }
+    return resolved;
+}
+
+async function pickWorkspaceFolderForPath(
+    rawPath: string,
+    currentWorkspaceRoot: vscode.Uri | undefined,
+    webview: vscode.Webview,
+    showSystemMessageCallback: (webview: vscode.Webview, message: string, historyToUpdate?: ChatMessage[]) => void,
+    historyToUpdateForMessage?: ChatMessage[]
+): Promise<{ uri: vscode.Uri, relativePath: string } | null> {
+    if (!isMultiRootWorkspace() || splitRootPrefix(rawPath.trim())) {
+        return resolvePathUtil(rawPath, currentWorkspaceRoot, webview, showSystemMessageCallback, historyToUpdateForMessage);
+    }
+    const candidates = getWorkspaceFolders().map(folder => resolvePathUtil(rawPath, folder.uri, webview, () => { /* Reported below if all fail */ }));
+    const resolvable = candidates.filter((candidate): candidate is { uri: vscode.Uri, relativePath: string } => candidate !== null);
+    if (resolvable.length === 0) {
+        return resolvePathUtil(rawPath, currentWorkspaceRoot, webview, showSystemMessageCallback, historyToUpdateForMessage);
+    }
+
+    const existsIn = async (uriFor: (candidate: { uri: vscode.Uri }) => vscode.Uri) => {
+        const found: { uri: vscode.Uri, relativePath: string }[] = [];
+        for (const candidate of resolvable) {
+            try {
+                await vscode.workspace.fs.stat(uriFor(candidate));
+                found.push(candidate);
+            } catch (error: any) {
+                // Not in this folder
+            }
+        }
+        return found;
+    };
+    const existing = await existsIn(candidate => candidate.uri);
+    if (existing.length > 1) {
+        showSystemMessageCallback(
+            webview,
+            `${rawPath} exists in several workspace folders (${existing.map(candidate => candidate.relativePath).join(', ')}). Put the folder name in front, e.g. ${existing[0].relativePath}`,
+            historyToUpdateForMessage
+        );
+        return null;
+    }
+    if (existing.length === 1) {
+        return existing[0];
+    }
+    // A new file goes where its folder is; if that is several places (or none), the preview shows the folder chosen
+    const withParent = await existsIn(candidate => vscode.Uri.joinPath(candidate.uri, '..'));
+    if (withParent.length === 1) {
+        return withParent[0];
+    }
+    return resolvePathUtil(rawPath, currentWorkspaceRoot, webview, showSystemMessageCallback, historyToUpdateForMessage);
 }
 
 export function ensureWorkspaceOpenUtil(
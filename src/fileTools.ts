@@ -0,0 +1,201 @@
+// c:\Users\marti\gemini-fs\src\fileTools.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { GeminiToolCall } from './geminiService';
+import { FileOperationCommands } from './fileOperationCommands';
+import { readFileContentUtil, resolvePathAcrossRootsUtil } from './fileSystemUtils';
+import { hasBinaryExtension } from './contextCollector';
+import { buildSearchRegex, searchWorkspaceFolders } from './workspaceSearch';
+import { parseWorkspacePath } from './workspaceFolders';
+import { findCommandRestriction, getWorkspacePolicy } from './workspacePolicy';
+import { getDeniedPathMatcher } from './pathSecurity';
+
+const MAX_TOOL_READ_CHARS = 100 * 1024; // Longer files are cut off, Gemini is told so
+const MAX_TOOL_READ_FILE_SIZE = 1024 * 1024;
+const MAX_TOOL_DIRECTORY_ENTRIES = 500;
+const MAX_TOOL_SEARCH_RESULTS = 50;
+
+// The slash command each tool corresponds to; a command disabled in .gemini-fs.json disables its tool too
+const TOOL_COMMANDS: Record<string, string> = { read_file: 'read', list_dir: 'list', search: 'search', propose_write: 'write' };
+
+// Functions Gemini may call during a chat turn. Only propose_write changes anything, and only after the user confirms.
+export const FILE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+    {
+        name: 'read_file',
+        description: 'Read a text file of the workspace the user has open.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                path: { type: SchemaType.STRING, description: 'Workspace-relative path, e.g. src/app.ts' }
+            },
+            required: ['path']
+        }
+    },
+    {
+        name: 'list_dir',
+        description: 'List the files and folders in a workspace folder. Folder names end with a slash.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                path: { type: SchemaType.STRING, description: 'Workspace-relative folder path; empty or "." for the workspace root' }
+            }
+        }
+    },
+    {
+        name: 'search',
+        description: 'Search the text files of the workspace. Returns matching lines with their file and line number.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                pattern: { type: SchemaType.STRING, description: 'Literal text, or a regular expression written as /regex/flags' },
+                glob: { type: SchemaType.STRING, description: 'Optional workspace-relative glob limiting the files searched, e.g. src/**/*.ts' }
+            },
+            required: ['pattern']
+        }
+    },
+    {
+        name: 'propose_write',
+        description: 'Propose the complete new content of a file (new or existing). The user reviews a diff and decides; nothing is written until they confirm. At most one proposal per message.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                path: { type: SchemaType.STRING, description: 'Workspace-relative path of the file to create or replace' },
+                content: { type: SchemaType.STRING, description: 'The complete new file content' },
+                summary: { type: SchemaType.STRING, description: 'One sentence describing the change, shown to the user' }
+            },
+            required: ['path', 'content']
+        }
+    }
+];
+
+export interface ToolCallOutcome {
+    response: object; // What Gemini receives
+    trace: string; // One line for the chat, e.g. "read_file src/app.ts: 120 lines"
+}
+
+/**
+ * Runs the file tools Gemini calls during one chat turn. Read-only tools run right away inside the workspace;
+ * propose_write only opens the confirmation preview. Failures are returned to Gemini as `{ error }`.
+ */
+export class FileToolExecutor {
+    private proposedPath: string | undefined; // The webview shows one preview at a time
+
+    constructor(
+        private getWorkspaceRoot: () => vscode.Uri | undefined,
+        private fileOpCommands: FileOperationCommands,
+        private webview: vscode.Webview
+    ) {}
+
+    public async execute(call: GeminiToolCall): Promise<ToolCallOutcome> {
+        const stringArg = (name: string) => typeof call.args[name] === 'string' ? call.args[name] as string : '';
+        try {
+            const restrictedBy = TOOL_COMMANDS[call.name] ? findCommandRestriction(TOOL_COMMANDS[call.name]) : undefined;
+            if (restrictedBy) {
+                throw new Error(`/${TOOL_COMMANDS[call.name]} is disabled in this workspace by ${restrictedBy}.`);
+            }
+            switch (call.name) {
+                case 'read_file':
+                    return await this.readFile(stringArg('path'));
+                case 'list_dir':
+                    return await this.listDirectory(stringArg('path') || '.');
+                case 'search':
+                    return await this.search(stringArg('pattern'), stringArg('glob') || undefined);
+                case 'propose_write':
+                    return await this.proposeWrite(stringArg('path'), stringArg('content'), stringArg('summary'));
+                default:
+                    return { response: { error: `Unknown function ${call.name}.` }, trace: `${call.name}: unknown function` };
+            }
+        } catch (error: any) {
+            const message = error.message || 'Unknown error';
+            return { response: { error: message }, trace: `${call.name} ${describeArgs(call.args)}: failed (${message})` };
+        }
+    }
+
+    private async resolve(rawPath: string): Promise<{ uri: vscode.Uri, relativePath: string }> {
+        let problem: string | undefined;
+        const resolved = await resolvePathAcrossRootsUtil(rawPath, this.getWorkspaceRoot(), this.webview, (_webview, message) => { problem = message; });
+        if (!resolved) {
+            throw new Error(problem ?? `Invalid path: ${rawPath}`);
+        }
+        return resolved;
+    }
+
+    private async readFile(rawPath: string): Promise<ToolCallOutcome> {
+        if (!rawPath) {
+            throw new Error('A path is required.');
+        }
+        const { uri, relativePath } = await this.resolve(rawPath);
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.type !== vscode.FileType.File) {
+            throw new Error(`${relativePath} is not a file.`);
+        }
+        const policyLimit = getWorkspacePolicy(parseWorkspacePath(relativePath, this.getWorkspaceRoot()!).rootUri).maxReadFileSize;
+        if (hasBinaryExtension(relativePath) || stat.size > Math.min(MAX_TOOL_READ_FILE_SIZE, policyLimit ?? Infinity)) {
+            throw new Error(`${relativePath} is a binary or very large file and cannot be read.`);
+        }
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        const content = openDocument ? openDocument.getText() : await readFileContentUtil(uri);
+        const truncated = content.length > MAX_TOOL_READ_CHARS;
+        const lineCount = content.split('\n').length;
+        return {
+            response: { path: relativePath, content: truncated ? content.substring(0, MAX_TOOL_READ_CHARS) : content, truncated },
+            trace: `read_file ${relativePath}: ${lineCount} lines${truncated ? ' (truncated)' : ''}`
+        };
+    }
+
+    private async listDirectory(rawPath: string): Promise<ToolCallOutcome> {
+        const { uri, relativePath } = await this.resolve(rawPath);
+        const entries = await vscode.workspace.fs.readDirectory(uri);
+        // Denied and forbidden paths are left out like everywhere else, so Gemini doesn't learn they exist
+        const { rootUri, relativePath: pathInRoot } = parseWorkspacePath(relativePath, this.getWorkspaceRoot()!);
+        const isDenied = getDeniedPathMatcher();
+        const policy = getWorkspacePolicy(rootUri);
+        const names = entries
+            .filter(([name]) => !isDenied(path.posix.join(pathInRoot, name)) && !policy.isForbidden(path.posix.join(pathInRoot, name)))
+            .map(([name, type]) => type & vscode.FileType.Directory ? `${name}/` : name)
+            .sort((a, b) => a.localeCompare(b));
+        return {
+            response: { path: relativePath, entries: names.slice(0, MAX_TOOL_DIRECTORY_ENTRIES), truncated: names.length > MAX_TOOL_DIRECTORY_ENTRIES },
+            trace: `list_dir ${relativePath}: ${names.length} entries`
+        };
+    }
+
+    private async search(pattern: string, glob: string | undefined): Promise<ToolCallOutcome> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!pattern || !workspaceRoot) {
+            throw new Error(pattern ? 'No workspace folder is open.' : 'A pattern is required.');
+        }
+        if (glob && glob.replace(/\\/g, '/').split(/[/:]/).includes('..')) {
+            throw new Error(`Glob patterns cannot leave the workspace: ${glob}`);
+        }
+        const result = await searchWorkspaceFolders(workspaceRoot, buildSearchRegex(pattern), glob, MAX_TOOL_SEARCH_RESULTS);
+        return {
+            response: {
+                matches: result.matches.map(match => ({ path: match.filePath, line: match.line, text: match.preview })),
+                truncated: result.truncated
+            },
+            trace: `search ${pattern}${glob ? ` in ${glob}` : ''}: ${result.matches.length}${result.truncated ? '+' : ''} matches`
+        };
+    }
+
+    private async proposeWrite(rawPath: string, content: string, summary: string): Promise<ToolCallOutcome> {
+        if (!rawPath) {
+            throw new Error('A path is required.');
+        }
+        if (this.proposedPath !== undefined) {
+            throw new Error(`A change to ${this.proposedPath} is already waiting for the user. Propose one file per message.`);
+        }
+        const { relativePath, isNewFile } = await this.fileOpCommands.showProposedChange(rawPath, content, summary, this.webview);
+        this.proposedPath = relativePath;
+        return {
+            response: { status: 'awaiting_user_confirmation', path: relativePath, note: 'The user sees a preview and decides whether to apply it. Do not assume it was applied.' },
+            trace: `propose_write ${relativePath}: ${isNewFile ? 'new file' : 'changes'} shown for confirmation`
+        };
+    }
+}
+
+function describeArgs(args: Record<string, unknown>): string {
+    const firstString = Object.values(args).find(value => typeof value === 'string') as string | undefined;
+    return firstString ? firstString.substring(0, 80) : '';
+}
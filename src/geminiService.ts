@@ -1,8 +1,19 @@
 // c:\Users\marti\gemini-fs\src\geminiService.ts
 import * as vscode from 'vscode';
-import { GoogleGenerativeAI, GenerativeModel, Content, BlockReason, Part } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, Content, BlockReason, Part, FinishReason, TaskType, FunctionDeclaration, EnhancedGenerateContentResponse, ResponseSchema } from '@google/generative-ai';
+import { RedactionFinding, SecretRedactor } from './secretRedaction';
 
 const API_KEY_SECRET_ID = 'geminiApiKey';
+const MAX_EMBEDDING_BATCH_SIZE = 100; // Limit of batchEmbedContents
+
+// Finish reasons that mean the model stopped because the output was blocked, not because it was done
+const BLOCKING_FINISH_REASONS: FinishReason[] = [
+    FinishReason.SAFETY,
+    FinishReason.RECITATION,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII
+];
 
 // Define and export ChatMessage type
 // This structure is compatible with the `Content` type from @google/generative-ai
@@ -11,15 +22,73 @@ export interface ChatMessage {
     parts: Part[]; // Re-using Part from @google/generative-ai for consistency
 }
 
+// Outcome of a streamed request. `text` always holds whatever was assembled, even if the stream was cut short.
+export interface GeminiStreamResult {
+    text: string;
+    blockReason?: string; // Set when the prompt or the response was blocked by the API
+    error?: string;       // Set when the request failed before or during the stream
+    cancelled?: boolean;  // Set when the request was aborted through cancelActiveRequests()
+}
+
+// A function call requested by Gemini during streamGeminiWithTools
+export interface GeminiToolCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface GeminiToolLoopOptions {
+    functionDeclarations: FunctionDeclaration[];
+    executeTool: (call: GeminiToolCall) => Promise<object>; // Resolves with the response Gemini gets for the call
+    onChunk: (chunkText: string) => void;
+    maxIterations: number; // Rounds of tool calls allowed before the loop is stopped
+}
+
+export interface GeminiToolLoopResult extends GeminiStreamResult {
+    toolCallCount: number;
+    iterationLimitReached?: boolean; // Gemini still wanted to call tools when maxIterations was used up
+}
+
+// A request that reached Gemini, reported through onDidCompleteRequest. `prompt` is the text as sent, after redaction;
+// for 'toolResponse' it is the JSON of the function responses returned to Gemini within a chat turn.
+export interface GeminiRequestRecord {
+    kind: 'chat' | 'json' | 'embedding' | 'toolResponse';
+    model: string;
+    prompt: string;
+    response?: string;
+    outcome: 'completed' | 'blocked' | 'failed' | 'cancelled';
+    detail?: string;
+}
+
+// Thrown by askGeminiWithHistory when the request was cancelled, so callers can tell it apart from a failure
+export class GeminiRequestCancelledError extends Error {
+    constructor() {
+        super("Request cancelled by user.");
+        this.name = 'GeminiRequestCancelledError';
+    }
+}
+
 export class GeminiService {
     private context: vscode.ExtensionContext;
     private genAI: GoogleGenerativeAI | null = null;
     private model: GenerativeModel | null = null;
     private currentApiKey: string | undefined = undefined;
     private currentModelName: string | undefined = undefined;
+    private activeRequests = new Set<AbortController>();
+    private busyStateEmitter = new vscode.EventEmitter<boolean>();
+    private redactor = new SecretRedactor();
+    private redactionEmitter = new vscode.EventEmitter<RedactionFinding[]>();
+    private requestEmitter = new vscode.EventEmitter<GeminiRequestRecord>();
+
+    // Fires true when the first request starts and false once no request is in flight anymore
+    public readonly onDidChangeBusyState = this.busyStateEmitter.event;
+    // Fires with the secrets a request was about to send for the first time; they went out as placeholders
+    public readonly onDidRedactSecrets = this.redactionEmitter.event;
+    // Fires once per request sent (the token counts that precede a chat message are not reported separately)
+    public readonly onDidCompleteRequest = this.requestEmitter.event;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
+        this.context.subscriptions.push(this.busyStateEmitter, this.redactionEmitter, this.requestEmitter);
         this.loadApiKeyFromSecrets().then(key => {
             if (key) {
                 this.currentApiKey = key;
@@ -137,6 +206,167 @@ export class GeminiService {
         console.log("GeminiService: Client ensured to be initialized.");
     }
 
+    private beginRequest(): AbortController {
+        const controller = new AbortController();
+        this.activeRequests.add(controller);
+        if (this.activeRequests.size === 1) {
+            this.busyStateEmitter.fire(true);
+        }
+        return controller;
+    }
+
+    private endRequest(controller: AbortController): void {
+        if (this.activeRequests.delete(controller) && this.activeRequests.size === 0) {
+            this.busyStateEmitter.fire(false);
+        }
+    }
+
+    /**
+     * Aborts every request that is currently in flight.
+     * Returns false if there was nothing to cancel.
+     */
+    public cancelActiveRequests(): boolean {
+        if (this.activeRequests.size === 0) {
+            return false;
+        }
+        console.log(`GeminiService: Cancelling ${this.activeRequests.size} active request(s).`);
+        this.activeRequests.forEach(controller => controller.abort());
+        return true;
+    }
+
+    public isBusy(): boolean {
+        return this.activeRequests.size > 0;
+    }
+
+    private isRedactionEnabled(): boolean {
+        return vscode.workspace.getConfiguration('geminiFS').get<boolean>('redaction.enabled', true);
+    }
+
+    /**
+     * Replaces secrets in every string inside `value` (history, prompts, tool responses) with placeholders.
+     * Every outgoing request goes through here; the caller's objects are not modified.
+     */
+    private redactOutgoing<T>(value: T): T {
+        if (!this.isRedactionEnabled()) {
+            return value;
+        }
+        const findings: RedactionFinding[] = [];
+        const visit = (item: unknown): unknown => {
+            if (typeof item === 'string') {
+                const result = this.redactor.redact(item);
+                findings.push(...result.findings);
+                return result.text;
+            }
+            if (Array.isArray(item)) {
+                return item.map(visit);
+            }
+            if (item && typeof item === 'object') {
+                return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, visit(entry)]));
+            }
+            return item;
+        };
+        const redacted = visit(value) as T;
+        if (findings.length > 0) {
+            this.redactionEmitter.fire(findings);
+        }
+        return redacted;
+    }
+
+    private reportRequest(record: Omit<GeminiRequestRecord, 'model'>, model = this.currentModelName ?? ''): void {
+        this.requestEmitter.fire({ ...record, model });
+    }
+
+    private static outcomeOf(result: GeminiStreamResult): GeminiRequestRecord['outcome'] {
+        return result.cancelled ? 'cancelled' : result.blockReason ? 'blocked' : result.error ? 'failed' : 'completed';
+    }
+
+    /**
+     * Puts the original secrets back where Gemini returned a placeholder unchanged. For proposed file content only;
+     * chat replies keep their placeholders.
+     */
+    public restoreRedactedSecrets(text: string): string {
+        return this.redactor.restore(text);
+    }
+
+    /**
+     * Counts the tokens `contents` would use as input for the configured model.
+     * Errors (missing key, API failures) are thrown so callers can tell the user; the count is never guessed.
+     */
+    public async countTokens(contents: Content[]): Promise<number> {
+        await this.ensureClientInitialized();
+        const result = await this.model!.countTokens({ contents: this.redactOutgoing(contents) });
+        return result.totalTokens;
+    }
+
+    /**
+     * Embeds `texts` with an embedding model (not the chat model), in request order. `purpose` tells the model
+     * whether the texts are indexed documents or a search query. Errors are thrown, like in countTokens.
+     */
+    public async embedTexts(texts: string[], embeddingModelName: string, purpose: 'document' | 'query'): Promise<number[][]> {
+        await this.ensureClientInitialized();
+        const embeddingModel = this.genAI!.getGenerativeModel({ model: embeddingModelName });
+        const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+        const vectors: number[][] = [];
+        for (let start = 0; start < texts.length; start += MAX_EMBEDDING_BATCH_SIZE) {
+            const batch = this.redactOutgoing(texts.slice(start, start + MAX_EMBEDDING_BATCH_SIZE));
+            const report = (outcome: GeminiRequestRecord['outcome'], detail: string) =>
+                this.reportRequest({ kind: 'embedding', prompt: batch.join('\n\n'), outcome, detail }, embeddingModelName);
+            try {
+                const response = await embeddingModel.batchEmbedContents({
+                    requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] }, taskType }))
+                });
+                vectors.push(...response.embeddings.map(embedding => embedding.values));
+                report('completed', `${batch.length} ${purpose} text(s)`);
+            } catch (error: any) {
+                report('failed', error.message);
+                throw error;
+            }
+        }
+        return vectors;
+    }
+
+    /**
+     * Asks the configured model for a JSON answer that matches `responseSchema` (structured output) and returns
+     * it parsed. Failures, blocked prompts and unparsable replies are thrown; cancellation throws GeminiRequestCancelledError.
+     */
+    public async generateJson(prompt: string, responseSchema: ResponseSchema): Promise<unknown> {
+        const controller = this.beginRequest();
+        // Filled in as the request goes; reported in `finally` once the prompt was sent
+        const record: Omit<GeminiRequestRecord, 'model' | 'prompt'> & { prompt?: string } = { kind: 'json', outcome: 'failed' };
+        try {
+            await this.ensureClientInitialized();
+            const jsonModel = this.genAI!.getGenerativeModel({
+                model: this.currentModelName!,
+                generationConfig: { responseMimeType: 'application/json', responseSchema }
+            });
+            record.prompt = this.redactOutgoing(prompt);
+            const result = await jsonModel.generateContent({ contents: [{ role: 'user', parts: [{ text: record.prompt }] }] }, { signal: controller.signal });
+            if (controller.signal.aborted) {
+                throw new GeminiRequestCancelledError();
+            }
+            const blockReason = result.response.promptFeedback?.blockReason;
+            if (blockReason) {
+                record.outcome = 'blocked';
+                throw new Error(`The request was blocked by the API: ${blockReason}`);
+            }
+            record.response = result.response.text();
+            record.outcome = 'completed';
+            return JSON.parse(record.response);
+        } catch (error) {
+            record.detail = error instanceof Error ? error.message : String(error);
+            if (controller.signal.aborted) {
+                record.outcome = 'cancelled';
+                throw new GeminiRequestCancelledError();
+            }
+            throw error;
+        } finally {
+            if (record.prompt !== undefined) {
+                this.reportRequest({ ...record, prompt: record.prompt });
+            }
+            this.endRequest(controller);
+        }
+    }
+
     private prepareChatComponents(history: Content[]): { lastUserMessageText?: string; chatHistoryForApi: Content[] } {
         let lastUserMessageText: string | undefined = undefined;
         let lastUserMessageIndex = -1;
@@ -160,7 +390,7 @@ export class GeminiService {
         return { lastUserMessageText, chatHistoryForApi };
     }
 
-    private async executeGeminiChat(prompt: string, chatHistoryForApi: Content[]): Promise<string> {
+    private async executeGeminiChat(prompt: string, chatHistoryForApi: Content[], signal: AbortSignal): Promise<string> {
         if (!this.model) {
              // This should ideally be caught by ensureClientInitialized, but as a safeguard:
             throw new Error("Gemini model is not available for executing chat.");
@@ -168,7 +398,11 @@ export class GeminiService {
 
         const chat = this.model.startChat({ history: chatHistoryForApi });
         console.log("GeminiService: Chat started with API history. Sending prompt to Gemini:", `"${prompt.substring(0,100)}..."`);
-        const result = await chat.sendMessage(prompt);
+        const result = await chat.sendMessage(prompt, { signal });
+        if (signal.aborted) {
+            // The reply may have arrived just as the user cancelled; it must not be used
+            throw new GeminiRequestCancelledError();
+        }
         const response = result.response;
 
         if (response.promptFeedback?.blockReason) {
@@ -197,23 +431,237 @@ export class GeminiService {
         }
     }
 
+    private async executeGeminiChatStream(prompt: string, chatHistoryForApi: Content[], onChunk: (chunkText: string) => void, signal: AbortSignal): Promise<GeminiStreamResult> {
+        if (!this.model) {
+            throw new Error("Gemini model is not available for executing chat.");
+        }
+
+        const chat = this.model.startChat({ history: chatHistoryForApi });
+        console.log("GeminiService: Chat started with API history. Streaming prompt to Gemini:", `"${prompt.substring(0,100)}..."`);
+        const result = await chat.sendMessageStream(prompt, { signal });
+
+        const streamed = await this.consumeStream(result.stream, onChunk, signal);
+        if (streamed.blockReason || streamed.error || streamed.cancelled) {
+            return streamed;
+        }
+        if (!streamed.text) {
+            console.warn("GeminiService: Stream finished without any text.");
+            vscode.window.showWarningMessage("Gemini API: Received an empty response.");
+            return { text: '', error: "Gemini returned an empty response." };
+        }
+
+        console.log("GeminiService: Stream completed. Received", streamed.text.length, "characters from Gemini.");
+        return streamed;
+    }
+
+    // Forwards the text of a streamed reply to onChunk and reports how the stream ended. An empty reply is not an error here.
+    private async consumeStream(stream: AsyncGenerator<EnhancedGenerateContentResponse>, onChunk: (chunkText: string) => void, signal: AbortSignal): Promise<GeminiStreamResult> {
+        let assembledText = '';
+        try {
+            for await (const chunk of stream) {
+                if (signal.aborted) {
+                    break;
+                }
+                if (chunk.promptFeedback?.blockReason) {
+                    const blockMessage = `Blocked: ${chunk.promptFeedback.blockReason}. ${chunk.promptFeedback.blockReasonMessage || ''}`;
+                    console.warn("GeminiService: Streamed content blocked by API - ", blockMessage);
+                    vscode.window.showWarningMessage(`Gemini API: ${blockMessage}`);
+                    return { text: assembledText, blockReason: chunk.promptFeedback.blockReason };
+                }
+
+                const candidate = chunk.candidates?.[0];
+                // Not using chunk.text() here, it throws on blocked candidates instead of letting us keep the partial text
+                const chunkText = candidate?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+                if (chunkText) {
+                    assembledText += chunkText;
+                    onChunk(chunkText);
+                }
+
+                if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+                    console.warn("GeminiService: Stream stopped by API with finish reason", candidate.finishReason);
+                    vscode.window.showWarningMessage(`Gemini API: Response stopped (${candidate.finishReason}).`);
+                    return { text: assembledText, blockReason: candidate.finishReason };
+                }
+            }
+        } catch (error) {
+            if (signal.aborted) {
+                console.log("GeminiService: Stream cancelled after receiving", assembledText.length, "characters.");
+                return { text: assembledText, cancelled: true };
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("GeminiService: Stream failed after receiving", assembledText.length, "characters:", error);
+            vscode.window.showErrorMessage(`Gemini Service Error: ${errorMessage}`);
+            return { text: assembledText, error: errorMessage };
+        }
+
+        if (signal.aborted) {
+            console.log("GeminiService: Stream cancelled after receiving", assembledText.length, "characters.");
+            return { text: assembledText, cancelled: true };
+        }
+        return { text: assembledText };
+    }
+
+    /**
+     * Streams a reply for the last user message in `history`, calling `onChunk` for every piece of text as it arrives.
+     * Never throws: blocked prompts, cancellation and failures (including ones partway through the stream) are reported on the result.
+     */
+    public async streamGeminiWithHistory(
+        history: Content[],
+        onChunk: (chunkText: string) => void
+    ): Promise<GeminiStreamResult> {
+        const controller = this.beginRequest();
+        let sentPrompt: string | undefined;
+        try {
+            console.log("GeminiService: streamGeminiWithHistory called. Full history length:", history.length);
+            await this.ensureClientInitialized();
+
+            const { lastUserMessageText, chatHistoryForApi } = this.prepareChatComponents(this.redactOutgoing(history));
+
+            if (!lastUserMessageText) {
+                console.warn("GeminiService: No user message found in history to send as prompt.");
+                return { text: '', error: "I need a message from you to respond!" };
+            }
+
+            sentPrompt = lastUserMessageText;
+            const result = await this.executeGeminiChatStream(lastUserMessageText, chatHistoryForApi, onChunk, controller.signal);
+            this.reportRequest({ kind: 'chat', prompt: sentPrompt, response: result.text, outcome: GeminiService.outcomeOf(result), detail: result.blockReason ?? result.error });
+            return result;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (sentPrompt !== undefined) {
+                this.reportRequest({ kind: 'chat', prompt: sentPrompt, outcome: controller.signal.aborted ? 'cancelled' : 'failed', detail: errorMessage });
+            }
+            if (controller.signal.aborted) {
+                console.log("GeminiService: streamGeminiWithHistory cancelled before the stream started.");
+                return { text: '', cancelled: true };
+            }
+            console.error("GeminiService: Error in streamGeminiWithHistory:", error);
+            if (!errorMessage.startsWith("Gemini API Key is not set") && !errorMessage.startsWith("Gemini model could not be initialized")) {
+                vscode.window.showErrorMessage(`Gemini Service Error: ${errorMessage}`);
+            }
+            return { text: '', error: errorMessage };
+        } finally {
+            this.endRequest(controller);
+        }
+    }
+
+    /**
+     * Like streamGeminiWithHistory, but Gemini may call the declared functions. Each round of calls is answered
+     * through `executeTool` and the reply streams on; text from all rounds ends up in `text`. After
+     * `maxIterations` rounds the loop stops even if Gemini asks for more. Never throws.
+     */
+    public async streamGeminiWithTools(history: Content[], options: GeminiToolLoopOptions): Promise<GeminiToolLoopResult> {
+        let sentPrompt: string | undefined;
+        const result = await this.runToolLoop(history, options, prompt => { sentPrompt = prompt; });
+        if (sentPrompt !== undefined) {
+            const toolCalls = `${result.toolCallCount} tool call(s)`;
+            this.reportRequest({ kind: 'chat', prompt: sentPrompt, response: result.text, outcome: GeminiService.outcomeOf(result), detail: [result.blockReason ?? result.error, toolCalls].filter(Boolean).join('; ') });
+        }
+        return result;
+    }
+
+    private async runToolLoop(history: Content[], options: GeminiToolLoopOptions, onPromptSent: (prompt: string) => void): Promise<GeminiToolLoopResult> {
+        const controller = this.beginRequest();
+        const signal = controller.signal;
+        let assembledText = '';
+        let toolCallCount = 0;
+        try {
+            console.log("GeminiService: streamGeminiWithTools called. Full history length:", history.length);
+            await this.ensureClientInitialized();
+
+            const { lastUserMessageText, chatHistoryForApi } = this.prepareChatComponents(this.redactOutgoing(history));
+            if (!lastUserMessageText) {
+                console.warn("GeminiService: No user message found in history to send as prompt.");
+                return { text: '', error: "I need a message from you to respond!", toolCallCount };
+            }
+
+            const chat = this.model!.startChat({ history: chatHistoryForApi, tools: [{ functionDeclarations: options.functionDeclarations }] });
+            let request: string | Part[] = lastUserMessageText;
+            onPromptSent(lastUserMessageText);
+            for (let iteration = 0; ; iteration++) {
+                const result = await chat.sendMessageStream(request, { signal });
+                const streamed = await this.consumeStream(result.stream, options.onChunk, signal);
+                assembledText += streamed.text;
+                if (streamed.blockReason || streamed.error || streamed.cancelled) {
+                    return { ...streamed, text: assembledText, toolCallCount };
+                }
+
+                const calls = (await result.response).functionCalls() ?? [];
+                if (calls.length === 0) {
+                    if (!assembledText) {
+                        vscode.window.showWarningMessage("Gemini API: Received an empty response.");
+                        return { text: '', error: "Gemini returned an empty response.", toolCallCount };
+                    }
+                    return { text: assembledText, toolCallCount };
+                }
+                if (iteration >= options.maxIterations) {
+                    console.warn(`GeminiService: Tool loop stopped after ${options.maxIterations} rounds.`);
+                    return { text: assembledText, toolCallCount, iterationLimitReached: true };
+                }
+
+                const responses: Part[] = [];
+                for (const call of calls) {
+                    if (signal.aborted) {
+                        return { text: assembledText, cancelled: true, toolCallCount };
+                    }
+                    toolCallCount++;
+                    const response = await options.executeTool({ name: call.name, args: (call.args ?? {}) as Record<string, unknown> });
+                    // File contents read by a tool are redacted like everything else that leaves the editor
+                    responses.push({ functionResponse: { name: call.name, response: this.redactOutgoing(response) } });
+                }
+                this.reportRequest({ kind: 'toolResponse', prompt: JSON.stringify(responses), outcome: 'completed', detail: calls.map(call => call.name).join(', ') });
+                request = responses;
+            }
+        } catch (error) {
+            if (signal.aborted) {
+                console.log("GeminiService: streamGeminiWithTools cancelled.");
+                return { text: assembledText, cancelled: true, toolCallCount };
+            }
+            console.error("GeminiService: Error in streamGeminiWithTools:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (!errorMessage.startsWith("Gemini API Key is not set") && !errorMessage.startsWith("Gemini model could not be initialized")) {
+                vscode.window.showErrorMessage(`Gemini Service Error: ${errorMessage}`);
+            }
+            return { text: assembledText, error: errorMessage, toolCallCount };
+        } finally {
+            this.endRequest(controller);
+        }
+    }
+
+    /**
+     * Sends the last user message in `history` and resolves with the full reply.
+     * Failures are returned as a user-facing message; only cancellation rejects (with GeminiRequestCancelledError).
+     */
     public async askGeminiWithHistory(
         history: Content[] // Note: FileService passes ChatMessage[], which is structurally compatible
     ): Promise<string> {
+        const controller = this.beginRequest();
+        let sentPrompt: string | undefined;
         try {
             console.log("GeminiService: askGeminiWithHistory called. Full history length:", history.length);
             await this.ensureClientInitialized();
 
-            const { lastUserMessageText, chatHistoryForApi } = this.prepareChatComponents(history);
+            const { lastUserMessageText, chatHistoryForApi } = this.prepareChatComponents(this.redactOutgoing(history));
 
             if (!lastUserMessageText) {
                 console.warn("GeminiService: No user message found in history to send as prompt.");
                 return "I need a message from you to respond!";
             }
 
-            return await this.executeGeminiChat(lastUserMessageText, chatHistoryForApi);
+            sentPrompt = lastUserMessageText;
+            const responseText = await this.executeGeminiChat(lastUserMessageText, chatHistoryForApi, controller.signal);
+            this.reportRequest({ kind: 'chat', prompt: sentPrompt, response: responseText, outcome: 'completed' });
+            return responseText;
 
         } catch (error) {
+            if (sentPrompt !== undefined) {
+                this.reportRequest({ kind: 'chat', prompt: sentPrompt, outcome: controller.signal.aborted ? 'cancelled' : 'failed', detail: error instanceof Error ? error.message : String(error) });
+            }
+            if (controller.signal.aborted) {
+                console.log("GeminiService: askGeminiWithHistory cancelled.");
+                throw new GeminiRequestCancelledError();
+            }
             console.error("GeminiService: Error in askGeminiWithHistory:", error);
             const errorMessage = error instanceof Error ? error.message : String(error);
             // Avoid showing duplicate error messages if ensureClientInitialized already showed one.
@@ -221,6 +669,8 @@ export class GeminiService {
                 vscode.window.showErrorMessage(`Gemini Service Error: ${errorMessage}`);
             }
             return `Sorry, an error occurred while contacting Gemini: ${errorMessage}`;
+        } finally {
+            this.endRequest(controller);
         }
     }
 }
@@ -0,0 +1,116 @@
+// c:\Users\marti\gemini-fs\src\intentRouter.ts
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import { GeminiService } from './geminiService';
+import { quoteArgument } from './commandRegistry';
+
+// Turns free text such as "read my package.json" into the slash command it stands for (see
+// src/webview/implement-NLF.md, step 1.2), using Gemini's structured output.
+
+export type IntentAction = 'read' | 'list' | 'create' | 'write' | 'delete' | 'context' | 'chat';
+
+export interface RoutedIntent {
+    action: IntentAction; // 'chat' means: not a file operation, answer normally
+    path?: string;
+    description?: string; // For create/write: what the file should contain or how it should change
+    confidence: number; // 0..1, as estimated by Gemini
+}
+
+// Actions that change or remove existing files always get a clarification prompt, however confident Gemini is
+const DESTRUCTIVE_ACTIONS = new Set<IntentAction>(['write', 'delete']);
+const INTENT_ACTIONS: IntentAction[] = ['read', 'list', 'create', 'write', 'delete', 'context', 'chat'];
+
+// Cheap check run before asking Gemini, so ordinary questions don't cost an extra request
+const FILE_REQUEST_HINT = /\b(read|open|show|display|list|create|make|add|write|modify|change|update|edit|delete|remove|erase|context)\b[\s\S]*(\.\w{1,8}\b|\/|\bfiles?\b|\bfolders?\b|\bdirector(y|ies)\b)/i;
+
+const INTENT_RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        action: { type: SchemaType.STRING, format: 'enum', enum: INTENT_ACTIONS },
+        path: { type: SchemaType.STRING, description: 'Workspace-relative file or folder path, if the request names one', nullable: true },
+        description: { type: SchemaType.STRING, description: 'For create/write: what to put in the file or how to change it', nullable: true },
+        confidence: { type: SchemaType.NUMBER, description: 'How sure you are about action and path, from 0 to 1' }
+    },
+    required: ['action', 'confidence']
+};
+
+// How the user answers a clarification prompt: run the proposed command, send the message as chat, or drop it
+export type IntentClarificationChoice = 'run' | 'chat' | 'cancel';
+
+export function isIntentClarificationChoice(value: unknown): value is IntentClarificationChoice {
+    return value === 'run' || value === 'chat' || value === 'cancel';
+}
+
+export function mightBeFileRequest(messageText: string): boolean {
+    return FILE_REQUEST_HINT.test(messageText);
+}
+
+/**
+ * The slash command an intent stands for, or undefined for 'chat' and for intents that lack what the command needs.
+ */
+export function intentToCommand(intent: RoutedIntent): string | undefined {
+    const rawPath = intent.path?.trim();
+    const path = rawPath ? quoteArgument(rawPath) : undefined;
+    switch (intent.action) {
+        case 'list':
+            return path ? `/list ${path}` : '/list';
+        case 'read':
+        case 'delete':
+        case 'context':
+            return path ? `/${intent.action} ${path}` : undefined;
+        case 'create':
+            return path ? `/create ${path}${intent.description ? ` ${intent.description}` : ''}` : undefined;
+        case 'write':
+            return path && intent.description ? `/write ${path} ${intent.description}` : undefined;
+        default:
+            return undefined;
+    }
+}
+
+export function needsClarification(intent: RoutedIntent, confidenceThreshold: number): boolean {
+    return intent.confidence < confidenceThreshold || DESTRUCTIVE_ACTIONS.has(intent.action);
+}
+
+/**
+ * Classifies chat messages into file operations. Takes anything with GeminiService's generateJson, so tests can
+ * pass a stub.
+ */
+export class IntentRouter {
+    constructor(private geminiService: Pick<GeminiService, 'generateJson'>) {}
+
+    /**
+     * Asks Gemini what `messageText` wants. Malformed answers count as 'chat' with zero confidence;
+     * request failures (and cancellation) are thrown.
+     */
+    public async route(messageText: string, workspaceFiles: string[] = []): Promise<RoutedIntent> {
+        const prompt = [
+            'You route messages typed into a VS Code chat panel that can operate on the files of the open workspace.',
+            'Decide whether the message asks for one of these file operations:',
+            '- read: show the content of a file',
+            '- list: list a folder (no path means the workspace root)',
+            '- create: create a new file, generated from a description',
+            '- write: change an existing file as described',
+            '- delete: delete a file or folder',
+            '- context: add a file or folder to the chat context for later questions',
+            'Anything else, including questions about code, is "chat".',
+            'Use workspace-relative paths. Give your confidence from 0 to 1 that action and path are what the user meant.',
+            ...(workspaceFiles.length > 0 ? [`Some files in the workspace: ${workspaceFiles.join(', ')}`] : []),
+            '',
+            `Message: ${JSON.stringify(messageText)}`
+        ].join('\n');
+        return parseRoutedIntent(await this.geminiService.generateJson(prompt, INTENT_RESPONSE_SCHEMA));
+    }
+}
+
+export function parseRoutedIntent(value: unknown): RoutedIntent {
+    const raw = (value ?? {}) as Record<string, unknown>;
+    if (!INTENT_ACTIONS.includes(raw.action as IntentAction)) {
+        return { action: 'chat', confidence: 0 };
+    }
+    const confidence = typeof raw.confidence === 'number' && Number.isFinite(raw.confidence) ? Math.min(1, Math.max(0, raw.confidence)) : 0;
+    return {
+        action: raw.action as IntentAction,
+        path: typeof raw.path === 'string' && raw.path.trim() ? raw.path.trim().replace(/\\/g, '/') : undefined,
+        description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : undefined,
+        confidence
+    };
+}
@@ -0,0 +1,226 @@
+// c:\Users\marti\gemini-fs\src\operationJournal.ts
+import * as vscode from 'vscode';
+import { resolvePathAcrossRootsUtil } from './fileSystemUtils';
+import { parseWorkspacePath } from './workspaceFolders';
+import { checkPolicyBeforeApplying } from './workspacePolicy';
+
+const MAX_JOURNAL_ENTRIES = 50; // Oldest entries are forgotten first
+const MAX_SNAPSHOT_BYTES = 25 * 1024 * 1024; // Deleting a tree larger than this is not undoable
+
+export type JournalOperation = 'create' | 'write' | 'delete' | 'rename' | 'move' | 'copy' | 'changeSet';
+
+// State of one file before and after an operation; undefined means the file did not exist
+export interface JournalFileChange {
+    relativePath: string;
+    before: Uint8Array | undefined;
+    after: Uint8Array | undefined;
+}
+
+export interface JournalEntry {
+    id: number;
+    timestamp: number;
+    operation: JournalOperation;
+    label: string; // e.g. "write src/app.ts"
+    changes: JournalFileChange[];
+    removedDirectories: string[]; // Folders of a deleted tree, recreated on undo so empty ones come back too
+    deletedRoot?: string; // For deletes: the path that was deleted, deleted again on redo
+}
+
+export class JournalError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JournalError';
+    }
+}
+
+/**
+ * Journal of the file operations the user confirmed in the chat, with enough content to undo and redo them.
+ * Lives for the VS Code session; undo and redo refuse to run when a file no longer looks like the journal expects.
+ */
+export class OperationJournal {
+    private entries: JournalEntry[] = [];
+    private undoneCount = 0; // Entries at the end of `entries` that are currently undone (the redo stack)
+    private nextId = 1;
+
+    constructor(private getWorkspaceRoot: () => vscode.Uri | undefined) {}
+
+    public record(entry: Omit<JournalEntry, 'id' | 'timestamp'>): JournalEntry {
+        // A new operation invalidates everything that was undone
+        this.entries.splice(this.entries.length - this.undoneCount, this.undoneCount);
+        this.undoneCount = 0;
+        const recorded: JournalEntry = { ...entry, id: this.nextId++, timestamp: Date.now() };
+        this.entries.push(recorded);
+        if (this.entries.length > MAX_JOURNAL_ENTRIES) {
+            this.entries.shift();
+        }
+        return recorded;
+    }
+
+    public list(): { entry: JournalEntry, undone: boolean }[] {
+        const firstUndone = this.entries.length - this.undoneCount;
+        return this.entries.map((entry, index) => ({ entry, undone: index >= firstUndone }));
+    }
+
+    /**
+     * Current bytes of a workspace file, or undefined if it does not exist.
+     */
+    public async readCurrent(uri: vscode.Uri): Promise<Uint8Array | undefined> {
+        try {
+            return await vscode.workspace.fs.readFile(uri);
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Captures a file or folder tree before it is deleted. Throws a JournalError if the tree is too large to keep.
+     */
+    public async snapshotTree(uri: vscode.Uri, relativePath: string): Promise<{ changes: JournalFileChange[], removedDirectories: string[] }> {
+        const changes: JournalFileChange[] = [];
+        const removedDirectories: string[] = [];
+        let totalBytes = 0;
+
+        const visit = async (currentUri: vscode.Uri, currentPath: string): Promise<void> => {
+            const stat = await vscode.workspace.fs.stat(currentUri);
+            if (stat.type & vscode.FileType.Directory) {
+                removedDirectories.push(currentPath);
+                for (const [name] of await vscode.workspace.fs.readDirectory(currentUri)) {
+                    await visit(vscode.Uri.joinPath(currentUri, name), `${currentPath}/${name}`);
+                }
+                return;
+            }
+            totalBytes += stat.size;
+            if (totalBytes > MAX_SNAPSHOT_BYTES) {
+                throw new JournalError(`${relativePath} is larger than ${MAX_SNAPSHOT_BYTES / (1024 * 1024)}MB, so no copy was kept for /undo.`);
+            }
+            changes.push({ relativePath: currentPath, before: await vscode.workspace.fs.readFile(currentUri), after: undefined });
+        };
+
+        await visit(uri, relativePath);
+        return { changes, removedDirectories };
+    }
+
+    /**
+     * Reverts the most recent operation that is not undone yet and returns it.
+     */
+    public async undo(webview: vscode.Webview): Promise<JournalEntry> {
+        const index = this.entries.length - this.undoneCount - 1;
+        if (index < 0) {
+            throw new JournalError("Nothing to undo.");
+        }
+        const entry = this.entries[index];
+        const targets = await this.resolveTargets(entry, 'undo', webview);
+        await this.assertFilesMatch(entry, targets, 'after', 'undo');
+        await this.assertPolicyAllows(entry, 'undo', entry.changes.map(change => ({ relativePath: change.relativePath, content: change.before })));
+
+        for (const directory of entry.removedDirectories) {
+            await vscode.workspace.fs.createDirectory(targets.get(directory)!);
+        }
+        for (const change of entry.changes) {
+            await this.restoreFile(targets.get(change.relativePath)!, change.before);
+        }
+        this.undoneCount++;
+        return entry;
+    }
+
+    /**
+     * Re-applies the most recently undone operation and returns it.
+     */
+    public async redo(webview: vscode.Webview): Promise<JournalEntry> {
+        if (this.undoneCount === 0) {
+            throw new JournalError("Nothing to redo.");
+        }
+        const entry = this.entries[this.entries.length - this.undoneCount];
+        const targets = await this.resolveTargets(entry, 'redo', webview);
+        await this.assertFilesMatch(entry, targets, 'before', 'redo');
+        await this.assertPolicyAllows(entry, 'redo', entry.deletedRoot !== undefined
+            ? [{ relativePath: entry.deletedRoot, content: undefined }]
+            : entry.changes.map(change => ({ relativePath: change.relativePath, content: change.after })));
+
+        if (entry.deletedRoot !== undefined) {
+            await vscode.workspace.fs.delete(targets.get(entry.deletedRoot)!, { recursive: true, useTrash: true });
+        } else {
+            for (const change of entry.changes) {
+                await this.restoreFile(targets.get(change.relativePath)!, change.after);
+            }
+        }
+        this.undoneCount--;
+        return entry;
+    }
+
+    /**
+     * Resolves every path the entry touches like a confirmed /write would, by workspace-relative path. The workspace
+     * may have changed since the operation: a folder replaced by a symlink out of the workspace, a path now denied or
+     * read-only. Any such path refuses the whole undo or redo.
+     */
+    private async resolveTargets(entry: JournalEntry, action: 'undo' | 'redo', webview: vscode.Webview): Promise<Map<string, vscode.Uri>> {
+        const paths = [...entry.removedDirectories, ...entry.changes.map(change => change.relativePath)];
+        if (entry.deletedRoot !== undefined) {
+            paths.push(entry.deletedRoot);
+        }
+        const targets = new Map<string, vscode.Uri>();
+        for (const relativePath of paths) {
+            let refusal: string | undefined;
+            const resolved = await resolvePathAcrossRootsUtil(relativePath, this.getWorkspaceRoot(), webview, (_webview, message) => { refusal = message; }, undefined, 'write');
+            if (!resolved) {
+                throw new JournalError(`Cannot ${action} "${entry.label}": ${refusal ?? `${relativePath} could not be resolved.`} Nothing was changed.`);
+            }
+            targets.set(relativePath, resolved.uri);
+        }
+        return targets;
+    }
+
+    /**
+     * Undoing or redoing deletes or writes files, so the policy rules for /delete and /write apply to it as well:
+     * disabled commands and stricter confirmation levels. A refusal refuses the whole undo or redo.
+     */
+    private async assertPolicyAllows(entry: JournalEntry, action: 'undo' | 'redo', restores: { relativePath: string, content: Uint8Array | undefined }[]): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot()!; // Checked by resolveTargets
+        for (const operation of ['delete', 'write'] as const) {
+            const paths = restores.filter(restore => (restore.content === undefined) === (operation === 'delete')).map(restore => restore.relativePath);
+            if (paths.length === 0) {
+                continue;
+            }
+            const refusal = await checkPolicyBeforeApplying(
+                operation,
+                paths.map(relativePath => parseWorkspacePath(relativePath, workspaceRoot).rootUri),
+                `${action === 'undo' ? 'Undo' : 'Redo'} "${entry.label}", which ${operation === 'delete' ? 'deletes' : 'writes'} ${paths.join(', ')}?`,
+                action
+            );
+            if (refusal) {
+                throw new JournalError(`Cannot ${action} "${entry.label}": ${refusal}`);
+            }
+        }
+    }
+
+    private async restoreFile(uri: vscode.Uri, content: Uint8Array | undefined): Promise<void> {
+        if (content === undefined) {
+            await vscode.workspace.fs.delete(uri, { useTrash: true });
+            return;
+        }
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, content);
+    }
+
+    // Refuses to touch anything unless every file is exactly in the state the operation left (or found) it in
+    private async assertFilesMatch(entry: JournalEntry, targets: Map<string, vscode.Uri>, expectedState: 'before' | 'after', action: 'undo' | 'redo'): Promise<void> {
+        const mismatches: string[] = [];
+        for (const change of entry.changes) {
+            const expected = change[expectedState];
+            const current = await this.readCurrent(targets.get(change.relativePath)!);
+            if (expected === undefined && current !== undefined) {
+                mismatches.push(`${change.relativePath} exists again`);
+            } else if (expected !== undefined && current === undefined) {
+                mismatches.push(`${change.relativePath} no longer exists`);
+            } else if (expected !== undefined && current !== undefined && !Buffer.from(expected).equals(Buffer.from(current))) {
+                mismatches.push(`${change.relativePath} was modified`);
+            }
+        }
+        if (mismatches.length > 0) {
+            throw new JournalError(`Cannot ${action} "${entry.label}": ${mismatches.join(', ')} since then. Resolve this by hand to avoid losing those changes.`);
+        }
+    }
+}
@@ -0,0 +1,172 @@
+// c:\Users\marti\gemini-fs\src\patchApplier.ts
+
+// Structured edits returned by Gemini for /write, either as search/replace blocks or as unified diff hunks.
+// Both are reduced to "replace these lines with those lines" and validated against the current file content.
+
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+export interface FileEdit {
+    label: string; // Human readable name used when reporting the edit, e.g. "search/replace block 2"
+    oldLines: string[];
+    newLines: string[];
+    hintLine?: number; // 1-based start line from a diff hunk header, used to place insertions and break ties
+}
+
+export interface RejectedEdit {
+    label: string;
+    reason: string;
+}
+
+export interface PatchResult {
+    content: string;
+    appliedEdits: string[]; // Labels of the edits that were applied
+    rejectedEdits: RejectedEdit[];
+}
+
+/**
+ * Extracts search/replace blocks and unified diff hunks from a Gemini response. Anything outside of them
+ * (explanations, code fences) is ignored.
+ */
+export function parseFileEdits(responseText: string): FileEdit[] {
+    const lines = responseText.replace(/\r\n/g, '\n').split('\n');
+    const edits: FileEdit[] = [];
+    let blockCount = 0;
+    let hunkCount = 0;
+    let i = 0;
+
+    while (i < lines.length) {
+        if (SEARCH_MARKER.test(lines[i])) {
+            const dividerIndex = findIndexFrom(lines, i + 1, line => DIVIDER_MARKER.test(line));
+            const replaceIndex = dividerIndex === -1 ? -1 : findIndexFrom(lines, dividerIndex + 1, line => REPLACE_MARKER.test(line));
+            if (replaceIndex === -1) {
+                break; // Unterminated block, usually a truncated response
+            }
+            blockCount++;
+            edits.push({
+                label: `search/replace block ${blockCount}`,
+                oldLines: lines.slice(i + 1, dividerIndex),
+                newLines: lines.slice(dividerIndex + 1, replaceIndex)
+            });
+            i = replaceIndex + 1;
+            continue;
+        }
+
+        const hunkHeader = lines[i].match(HUNK_HEADER);
+        if (hunkHeader) {
+            const oldLines: string[] = [];
+            const newLines: string[] = [];
+            i++;
+            while (i < lines.length && !isEndOfHunk(lines, i)) {
+                const line = lines[i];
+                if (line.startsWith('-')) {
+                    oldLines.push(line.slice(1));
+                } else if (line.startsWith('+')) {
+                    newLines.push(line.slice(1));
+                } else if (line.startsWith(' ') || line === '') {
+                    // Some models drop the leading space of empty context lines
+                    oldLines.push(line.slice(1));
+                    newLines.push(line.slice(1));
+                } else if (!line.startsWith('\\')) { // "\ No newline at end of file"
+                    break;
+                }
+                i++;
+            }
+            trimTrailingBlankContext(oldLines, newLines);
+            hunkCount++;
+            edits.push({ label: `diff hunk ${hunkCount}`, oldLines, newLines, hintLine: parseInt(hunkHeader[1], 10) });
+            continue;
+        }
+        i++;
+    }
+    return edits;
+}
+
+/**
+ * Applies `edits` to `originalContent` one after another. An edit is only applied when its old lines occur exactly
+ * once in the content (or, for diff hunks, at the line the hunk header names); other edits are rejected with a reason.
+ */
+export function applyFileEdits(originalContent: string, edits: FileEdit[]): PatchResult {
+    const usesCrlf = originalContent.includes('\r\n');
+    let lines = originalContent.replace(/\r\n/g, '\n').split('\n');
+    const appliedEdits: string[] = [];
+    const rejectedEdits: RejectedEdit[] = [];
+    let lineOffset = 0; // How far earlier hunks moved the lines later hunk headers refer to
+
+    for (const edit of edits) {
+        const hintIndex = edit.hintLine !== undefined ? edit.hintLine - 1 + lineOffset : undefined;
+        const location = locateEdit(lines, edit, hintIndex);
+        if (typeof location === 'string') {
+            rejectedEdits.push({ label: edit.label, reason: location });
+            continue;
+        }
+        lines = [...lines.slice(0, location), ...edit.newLines, ...lines.slice(location + edit.oldLines.length)];
+        lineOffset += edit.newLines.length - edit.oldLines.length;
+        appliedEdits.push(edit.label);
+    }
+
+    const content = lines.join('\n');
+    return { content: usesCrlf ? content.replace(/\n/g, '\r\n') : content, appliedEdits, rejectedEdits };
+}
+
+// Returns the line index the edit applies at, or the reason it cannot be applied
+function locateEdit(lines: string[], edit: FileEdit, hintIndex: number | undefined): number | string {
+    if (edit.oldLines.length === 0) {
+        if (hintIndex !== undefined) {
+            return Math.min(Math.max(hintIndex, 0), lines.length);
+        }
+        const fileIsEmpty = lines.length === 1 && lines[0] === '';
+        return fileIsEmpty ? 0 : 'the search text is empty, so there is nothing to anchor the change to';
+    }
+
+    let matches = findLineSequence(lines, edit.oldLines, (a, b) => a === b);
+    if (matches.length === 0) {
+        // Tolerate trailing whitespace differences, models often strip it
+        matches = findLineSequence(lines, edit.oldLines, (a, b) => a.trimEnd() === b.trimEnd());
+    }
+    if (matches.length === 0) {
+        return `the text it replaces was not found in the file (first line: "${edit.oldLines.find(l => l.trim()) ?? edit.oldLines[0]}")`;
+    }
+    if (matches.length === 1) {
+        return matches[0];
+    }
+    if (hintIndex !== undefined && matches.includes(hintIndex)) {
+        return hintIndex;
+    }
+    return `the text it replaces occurs ${matches.length} times in the file, so the change is ambiguous`;
+}
+
+function findLineSequence(lines: string[], sequence: string[], equals: (a: string, b: string) => boolean): number[] {
+    const matches: number[] = [];
+    for (let start = 0; start + sequence.length <= lines.length; start++) {
+        if (sequence.every((line, offset) => equals(lines[start + offset], line))) {
+            matches.push(start);
+        }
+    }
+    return matches;
+}
+
+function findIndexFrom(lines: string[], from: number, predicate: (line: string) => boolean): number {
+    for (let i = from; i < lines.length; i++) {
+        if (predicate(lines[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function isEndOfHunk(lines: string[], index: number): boolean {
+    const line = lines[index];
+    return line.startsWith('```') || HUNK_HEADER.test(line) || line.startsWith('diff ')
+        || (line.startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ '));
+}
+
+// A blank line after a hunk is usually just the separator before the next one, not an empty context line
+function trimTrailingBlankContext(oldLines: string[], newLines: string[]): void {
+    while (oldLines.length > 0 && newLines.length > 0 && oldLines[oldLines.length - 1] === '' && newLines[newLines.length - 1] === '') {
+        oldLines.pop();
+        newLines.pop();
+    }
+}
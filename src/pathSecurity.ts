@@ -0,0 +1,107 @@
+// c:\Users\marti\gemini-fs\src\pathSecurity.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore = require('ignore');
+
+// gitignore syntax, matched against the path inside its workspace folder. Overridden by geminiFS.security.deniedPaths.
+export const DEFAULT_DENIED_PATHS = [
+    '.env',
+    '.env.*',
+    '!.env.example',
+    '.git/',
+    '*.pem',
+    '*.key',
+    '*.p12',
+    '*.pfx',
+    'id_rsa',
+    'id_dsa',
+    'id_ecdsa',
+    'id_ed25519',
+    '.npmrc',
+    '.netrc'
+];
+
+// Windows and macOS (by default) file systems treat "SRC/App.ts" and "src/app.ts" as the same file
+export function isCaseInsensitiveFileSystem(platform: NodeJS.Platform = process.platform): boolean {
+    return platform === 'win32' || platform === 'darwin';
+}
+
+function toSegments(fsPath: string, caseInsensitive: boolean): string[] {
+    const segments = fsPath.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+    return caseInsensitive ? segments.map(segment => segment.toLowerCase()) : segments;
+}
+
+/**
+ * True if `targetPath` is `rootPath` or below it. Compares whole path segments, so "/work/app-secrets" is not
+ * inside "/work/app". Both paths must already be normalized (no "..").
+ */
+export function isPathInsideRoot(rootPath: string, targetPath: string, caseInsensitive = isCaseInsensitiveFileSystem()): boolean {
+    const rootSegments = toSegments(rootPath, caseInsensitive);
+    const targetSegments = toSegments(targetPath, caseInsensitive);
+    return targetSegments.length >= rootSegments.length && rootSegments.every((segment, i) => targetSegments[i] === segment);
+}
+
+/**
+ * A predicate telling whether a folder-relative path matches one of `patterns`. A path is also denied when one of
+ * its parent folders is (".git/" covers ".git/config").
+ */
+export function createDeniedPathMatcher(patterns: readonly string[]): (relativePath: string) => boolean {
+    const matcher = ignore().add([...patterns]);
+    return (relativePath: string) => {
+        const normalized = relativePath.replace(/\\/g, '/').replace(/^(\.?\/)+|\/+$/g, '');
+        if (!normalized || normalized === '.') {
+            return false;
+        }
+        // Without a stat we don't know if the path is a folder; check it both ways so ".git" matches ".git/"
+        return matcher.ignores(normalized) || matcher.ignores(`${normalized}/`);
+    };
+}
+
+export function getDeniedPathMatcher(): (relativePath: string) => boolean {
+    const patterns = vscode.workspace.getConfiguration('geminiFS').get<string[]>('security.deniedPaths', DEFAULT_DENIED_PATHS);
+    return createDeniedPathMatcher(Array.isArray(patterns) ? patterns.filter(pattern => typeof pattern === 'string' && pattern.trim() !== '') : DEFAULT_DENIED_PATHS);
+}
+
+/**
+ * Follows symlinks and checks that `target` still ends up inside `root`. For a path that does not exist yet, the
+ * nearest existing parent is checked instead. Only file: URIs can be checked; other schemes pass.
+ */
+export async function isRealPathInsideRoot(root: vscode.Uri, target: vscode.Uri): Promise<boolean> {
+    if (root.scheme !== 'file' || target.scheme !== 'file') {
+        return true;
+    }
+    let realRoot: string;
+    try {
+        realRoot = await fs.promises.realpath(root.fsPath);
+    } catch (error: any) {
+        return true; // The workspace folder itself is gone; the operation will fail on its own
+    }
+    let existing = target.fsPath;
+    for (;;) {
+        try {
+            const realTarget = await fs.promises.realpath(existing);
+            return isPathInsideRoot(realRoot, realTarget);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+                return false; // ELOOP, EACCES: refuse rather than guess
+            }
+            if (await isSymbolicLink(existing)) {
+                return false; // A dangling link: writing through it would create its target, wherever that is
+            }
+            const parent = path.dirname(existing);
+            if (parent === existing) {
+                return false;
+            }
+            existing = parent;
+        }
+    }
+}
+
+async function isSymbolicLink(fsPath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.lstat(fsPath)).isSymbolicLink();
+    } catch (error: any) {
+        return false;
+    }
+}
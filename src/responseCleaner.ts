@@ -0,0 +1,151 @@
+// c:\Users\marti\gemini-fs\src\responseCleaner.ts
+import * as path from 'path';
+
+// Turns Gemini's answer to "give me the content of this file" into the file content itself, dropping markdown
+// fences and chatter such as "Here is the updated file:".
+
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+// Typical one-line preambles, only stripped from unfenced responses when followed by a blank line
+const CHATTER_LINE = /^(here('s| is| are)|sure|certainly|okay|ok,|below is|the (updated|new|complete|modified)\b)/i;
+
+// Fence language tags accepted for a file extension (the extension without the dot is always accepted too)
+const LANGUAGE_TAGS_BY_EXTENSION: Record<string, string[]> = {
+    ts: ['typescript'], tsx: ['typescript', 'ts'], js: ['javascript'], mjs: ['javascript', 'js'], cjs: ['javascript', 'js'],
+    jsx: ['javascript', 'js'], py: ['python'], rb: ['ruby'], rs: ['rust'], go: ['golang'], java: ['java'],
+    kt: ['kotlin'], cs: ['csharp', 'c#'], cpp: ['c++', 'cxx'], hpp: ['c++', 'cpp'], h: ['c', 'cpp'], c: ['c'],
+    sh: ['bash', 'shell', 'zsh'], bash: ['sh', 'shell'], ps1: ['powershell', 'pwsh'], yml: ['yaml'], yaml: ['yml'],
+    json: ['jsonc', 'json5'], jsonc: ['json'], html: ['htm', 'xml'], htm: ['html'], css: ['css'], scss: ['sass', 'css'],
+    md: ['markdown'], markdown: ['md'], sql: ['sql'], xml: ['xml'], toml: ['toml'], php: ['php'], swift: ['swift']
+};
+// Files whose content legitimately contains fences or prose; only an outer fence around the whole response is removed
+const PROSE_EXTENSIONS = new Set(['md', 'markdown', 'mdx', 'txt', 'rst', '']);
+
+export interface CleanedFileContent {
+    content: string;
+    strippedText: string[]; // Parts of the response that did not make it into the file, in order
+    warnings: string[];
+}
+
+interface FencedBlock {
+    language: string;
+    body: string;
+    startLine: number; // Index of the opening fence line
+    endLine: number; // Index of the closing fence line (lines.length for an unterminated fence)
+}
+
+/**
+ * Extracts the content meant for `relativePath` from a Gemini response. With several code blocks the one tagged with
+ * the file's language is preferred (the longest one if there are several candidates); prose and other blocks are
+ * dropped and reported in `strippedText` and `warnings`.
+ */
+export function extractFileContent(responseText: string, relativePath: string): CleanedFileContent {
+    const lines = responseText.replace(/\r\n/g, '\n').split('\n');
+    const extension = path.extname(relativePath).slice(1).toLowerCase();
+
+    if (PROSE_EXTENSIONS.has(extension)) {
+        const outerBlock = findOuterFence(lines);
+        if (outerBlock && (!outerBlock.language || languageMatches(outerBlock.language, extension))) {
+            return {
+                content: withTrailingNewline(outerBlock.body),
+                strippedText: [lines[outerBlock.startLine], lines[outerBlock.endLine]],
+                warnings: []
+            };
+        }
+        return stripChatterLine(lines);
+    }
+
+    const blocks = findFencedBlocks(lines);
+    if (blocks.length === 0) {
+        return stripChatterLine(lines);
+    }
+
+    const taggedForFile = blocks.filter(b => languageMatches(b.language, extension));
+    const untagged = blocks.filter(b => !b.language);
+    const candidates = taggedForFile.length > 0 ? taggedForFile : untagged.length > 0 ? untagged : blocks;
+    const chosen = candidates.reduce((longest, b) => b.body.length > longest.body.length ? b : longest);
+
+    const warnings: string[] = [];
+    if (blocks.length > 1) {
+        warnings.push(`The response contained ${blocks.length} code blocks; using the ${describeBlock(chosen)} and dropping the others.`);
+    }
+    if (taggedForFile.length === 0 && chosen.language) {
+        warnings.push(`No code block was tagged as ${extension || 'this file type'}; using a block tagged "${chosen.language}".`);
+    }
+    const strippedText = [
+        lines.slice(0, chosen.startLine + 1).join('\n'),
+        lines.slice(chosen.endLine).join('\n')
+    ].filter(text => text.trim());
+    const hasProse = lines.some((line, index) => line.trim() && !blocks.some(b => index >= b.startLine && index <= b.endLine));
+    if (hasProse) {
+        warnings.push('The response contained explanations around the code; they were removed from the file content.');
+    }
+    return { content: withTrailingNewline(chosen.body), strippedText, warnings };
+}
+
+function languageMatches(language: string, extension: string): boolean {
+    const tag = language.toLowerCase();
+    return tag !== '' && (tag === extension || (LANGUAGE_TAGS_BY_EXTENSION[extension] ?? []).includes(tag));
+}
+
+function describeBlock(block: FencedBlock): string {
+    return block.language ? `longest "${block.language}" block` : 'longest untagged block';
+}
+
+// A single fence spanning the whole response (ignoring blank lines). Fences inside it are kept as content.
+function findOuterFence(lines: string[]): FencedBlock | undefined {
+    const first = lines.findIndex(line => line.trim());
+    let last = lines.length - 1;
+    while (last > first && !lines[last].trim()) {
+        last--;
+    }
+    const opening = first === -1 ? null : lines[first].match(FENCE_OPEN);
+    if (!opening || last <= first || !isClosingFence(lines[last], opening[1])) {
+        return undefined;
+    }
+    return { language: opening[2], body: lines.slice(first + 1, last).join('\n'), startLine: first, endLine: last };
+}
+
+function findFencedBlocks(lines: string[]): FencedBlock[] {
+    const blocks: FencedBlock[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const opening = lines[i].match(FENCE_OPEN);
+        if (!opening) {
+            i++;
+            continue;
+        }
+        let end = i + 1;
+        while (end < lines.length && !isClosingFence(lines[end], opening[1])) {
+            end++;
+        }
+        if (end === lines.length) {
+            // Unterminated fence, typically a response cut off by the output limit: take the rest as the block
+            blocks.push({ language: opening[2], body: lines.slice(i + 1).join('\n'), startLine: i, endLine: lines.length });
+            break;
+        }
+        blocks.push({ language: opening[2], body: lines.slice(i + 1, end).join('\n'), startLine: i, endLine: end });
+        i = end + 1;
+    }
+    return blocks;
+}
+
+function isClosingFence(line: string, openingFence: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length >= openingFence.length && trimmed === openingFence[0].repeat(trimmed.length);
+}
+
+function stripChatterLine(lines: string[]): CleanedFileContent {
+    const first = lines.findIndex(line => line.trim());
+    if (first !== -1 && CHATTER_LINE.test(lines[first].trim()) && lines[first + 1]?.trim() === '') {
+        return {
+            content: lines.slice(first + 2).join('\n'),
+            strippedText: [lines[first]],
+            warnings: ['The response started with an introduction; it was removed from the file content.']
+        };
+    }
+    return { content: lines.join('\n'), strippedText: [], warnings: [] };
+}
+
+function withTrailingNewline(body: string): string {
+    return body && !body.endsWith('\n') ? `${body}\n` : body;
+}
@@ -0,0 +1,113 @@
+// c:\Users\marti\gemini-fs\src\secretRedaction.ts
+
+// Placeholders look like "[REDACTED:github-token#1]": unlikely to occur in real code, and easy for the model to copy verbatim
+const PLACEHOLDER_PATTERN = /\[REDACTED:[a-z-]+#\d+\]/g;
+const MIN_ENTROPY_TOKEN_LENGTH = 32;
+const MIN_ENTROPY_BITS_PER_CHAR = 4.3; // Random base62/base64 tokens score ~4.6+; camelCase identifiers and prose stay below 4.2
+
+interface SecretPattern {
+    kind: string;
+    label: string;
+    regex: RegExp;
+    accept?: (match: string) => boolean;
+}
+
+// Checked in order; earlier patterns win, so a private key block is one finding rather than many high-entropy lines
+const SECRET_PATTERNS: SecretPattern[] = [
+    { kind: 'private-key', label: 'private key', regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g },
+    { kind: 'aws-access-key', label: 'AWS access key ID', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { kind: 'github-token', label: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+    { kind: 'google-api-key', label: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { kind: 'slack-token', label: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+    { kind: 'stripe-key', label: 'Stripe key', regex: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+    { kind: 'api-key', label: 'API key', regex: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{32,}\b/g },
+    { kind: 'jwt', label: 'JSON Web Token', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+    { kind: 'url-password', label: 'password in a URL', regex: /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]{3,}(?=@)/gi },
+    {
+        // `password: "hunter22"`, `API_TOKEN=abc123...`; code such as `token = getToken()` or `secret: string` is left alone
+        kind: 'assigned-secret',
+        label: 'value assigned to a secret-looking name',
+        regex: /(?<=\b[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w.-]*["']?\s*[:=]\s*["']?)[A-Za-z0-9+/=_\-.~!@#$%^&*]{8,}/gi,
+        accept: value => /\d/.test(value) && /[A-Za-z]/.test(value) && !/^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+$/.test(value)
+    },
+    {
+        kind: 'high-entropy',
+        label: 'high-entropy string',
+        regex: /(?<![\w+/=-])(?!sha(?:1|256|384|512)-)[A-Za-z0-9+/_-]{32,}={0,2}(?![\w+/=-])/g,
+        accept: value => looksRandom(value)
+    }
+];
+
+export interface RedactionFinding {
+    kind: string;
+    label: string; // Human-readable kind, e.g. "GitHub token"
+    placeholder: string;
+}
+
+export interface RedactionResult {
+    text: string;
+    findings: RedactionFinding[]; // Secrets seen for the first time in this text; known ones are replaced silently
+}
+
+/**
+ * Bits of Shannon entropy per character. Random tokens over a large alphabet score high; words and
+ * identifiers repeat letters and score low.
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    counts.forEach(count => {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    });
+    return entropy;
+}
+
+function looksRandom(value: string): boolean {
+    const characterClasses = [/[a-z]/, /[A-Z]/, /\d/].filter(pattern => pattern.test(value)).length;
+    return value.length >= MIN_ENTROPY_TOKEN_LENGTH && characterClasses === 3 && shannonEntropy(value) >= MIN_ENTROPY_BITS_PER_CHAR;
+}
+
+/**
+ * Replaces secrets with placeholders before text is sent to Gemini, and puts them back into text Gemini returns.
+ * The same secret always gets the same placeholder, so a conversation stays consistent across requests.
+ */
+export class SecretRedactor {
+    private placeholdersBySecret = new Map<string, string>();
+    private secretsByPlaceholder = new Map<string, string>();
+    private counter = 0;
+
+    public redact(text: string): RedactionResult {
+        const findings: RedactionFinding[] = [];
+        let redacted = text;
+        for (const pattern of SECRET_PATTERNS) {
+            redacted = redacted.replace(pattern.regex, match => {
+                if (pattern.accept && !pattern.accept(match)) {
+                    return match;
+                }
+                let placeholder = this.placeholdersBySecret.get(match);
+                if (!placeholder) {
+                    placeholder = `[REDACTED:${pattern.kind}#${++this.counter}]`;
+                    this.placeholdersBySecret.set(match, placeholder);
+                    this.secretsByPlaceholder.set(placeholder, match);
+                    findings.push({ kind: pattern.kind, label: pattern.label, placeholder });
+                }
+                return placeholder;
+            });
+        }
+        return { text: redacted, findings };
+    }
+
+    // Only placeholders this redactor issued are replaced; anything the model made up stays as it is
+    public restore(text: string): string {
+        return text.replace(PLACEHOLDER_PATTERN, placeholder => this.secretsByPlaceholder.get(placeholder) ?? placeholder);
+    }
+}
+
+export function describeRedactions(findings: RedactionFinding[]): string {
+    return `Redacted ${findings.length} secret(s) before sending to Gemini: ${findings.map(finding => `${finding.label} → ${finding.placeholder}`).join(', ')}. ` +
+        'Placeholders Gemini returns unchanged in proposed file content are replaced by the original values.';
+}
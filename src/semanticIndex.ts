@@ -0,0 +1,428 @@
+// c:\Users\marti\gemini-fs\src\semanticIndex.ts
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { buildExcludeGlob, hasBinaryExtension, loadGitignoreFilter, looksLikeBinaryContent, toRelativePath } from './contextCollector';
+import { getDeniedPathMatcher, isRealPathInsideRoot } from './pathSecurity';
+import { EmbeddingProvider } from './embeddingProvider';
+import { getWorkspacePolicy } from './workspacePolicy';
+
+const INDEX_FILE_NAME = 'semantic-index.json';
+const INDEX_FORMAT_VERSION = 1;
+const MAX_INDEXED_FILES = 2000;
+const MAX_INDEXED_FILE_SIZE = 256 * 1024;
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP_LINES = 10;
+const MAX_CHUNK_CHARS = 4000; // Long-line files (minified, data) get shorter chunks
+const UPDATE_DEBOUNCE_MS = 2000;
+const MIN_RELEVANCE_SCORE = 0.15; // Below this a chunk is noise rather than related code
+
+export interface TextChunk {
+    startLine: number; // 1-based, inclusive
+    endLine: number;
+    text: string;
+}
+
+interface IndexedChunk {
+    startLine: number;
+    endLine: number;
+    vector: string; // Float32Array, base64; the text is read from the file when the chunk is retrieved
+}
+
+interface IndexedFile {
+    hash: string; // sha1 of the content the chunks were computed from
+    chunks: IndexedChunk[];
+}
+
+interface IndexData {
+    version: number;
+    providerId: string;
+    builtAt: number;
+    updatedAt: number;
+    files: Record<string, IndexedFile>; // Keyed by workspace-relative path
+}
+
+export interface RetrievedChunk extends TextChunk {
+    filePath: string;
+    score: number; // Cosine similarity to the query
+}
+
+export interface IndexStatus {
+    state: 'missing' | 'building' | 'ready';
+    providerId?: string;
+    fileCount: number;
+    chunkCount: number;
+    builtAt?: number;
+    updatedAt?: number;
+    pendingUpdates: number;
+}
+
+export interface RebuildResult {
+    indexedFiles: number;
+    reusedFiles: number; // Unchanged since the last build, embeddings kept
+    skippedFiles: number; // Binary, too large or unreadable
+    chunkCount: number;
+    truncated: boolean; // More than MAX_INDEXED_FILES candidates
+}
+
+/**
+ * Splits a file into overlapping line windows. Empty and whitespace-only files have no chunks.
+ */
+export function chunkText(text: string): TextChunk[] {
+    const lines = text.split(/\r?\n/);
+    const chunks: TextChunk[] = [];
+    let start = 0;
+    while (start < lines.length) {
+        let end = Math.min(start + CHUNK_LINES, lines.length);
+        let length = 0;
+        for (let i = start; i < end; i++) {
+            length += lines[i].length + 1;
+            if (length > MAX_CHUNK_CHARS && i > start) {
+                end = i;
+                break;
+            }
+        }
+        const chunkLines = lines.slice(start, end);
+        if (chunkLines.some(line => line.trim())) {
+            chunks.push({ startLine: start + 1, endLine: end, text: chunkLines.join('\n') });
+        }
+        if (end >= lines.length) {
+            break;
+        }
+        start = Math.max(end - CHUNK_OVERLAP_LINES, start + 1);
+    }
+    return chunks;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const bytes = Buffer.from(encoded, 'base64');
+    return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
+
+function hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * On-disk index of the workspace's text files as embedded chunks, used to pull relevant code into a chat turn
+ * without the user curating /context. Built by /index rebuild; afterwards a file watcher re-embeds changed
+ * files (debounced) and drops deleted ones. Index and updates use the exclusions of /search.
+ */
+export class SemanticIndex implements vscode.Disposable {
+    private data: IndexData | undefined;
+    private loaded: Promise<void>;
+    private queue: Promise<unknown> = Promise.resolve(); // Rebuilds and updates run one at a time
+    private building = false;
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+    private isIgnored: (relativePath: string) => boolean = () => false;
+    private watcher: vscode.FileSystemWatcher | undefined;
+
+    constructor(
+        private getWorkspaceRoot: () => vscode.Uri | undefined,
+        private storageUri: vscode.Uri | undefined, // Without workspace storage the index lives in memory only
+        private getProvider: () => Promise<EmbeddingProvider>
+    ) {
+        this.loaded = this.load();
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.pendingUpdates.clear();
+        this.watcher?.dispose();
+    }
+
+    public async getStatus(): Promise<IndexStatus> {
+        await this.loaded;
+        const files = Object.values(this.data?.files ?? {});
+        return {
+            state: this.building ? 'building' : this.data ? 'ready' : 'missing',
+            providerId: this.data?.providerId,
+            fileCount: files.length,
+            chunkCount: files.reduce((sum, file) => sum + file.chunks.length, 0),
+            builtAt: this.data?.builtAt,
+            updatedAt: this.data?.updatedAt,
+            pendingUpdates: this.pendingUpdates.size
+        };
+    }
+
+    /**
+     * Re-scans the workspace. Files whose content and embedding provider did not change keep their embeddings.
+     */
+    public rebuild(onProgress?: (done: number, total: number) => void): Promise<RebuildResult> {
+        return this.enqueue(async () => {
+            await this.loaded;
+            const workspaceRoot = this.requireWorkspaceRoot();
+            this.building = true;
+            try {
+                const provider = await this.getProvider();
+                const previous = this.data?.providerId === provider.id ? this.data.files : {};
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(workspaceRoot, '**/*'),
+                    buildExcludeGlob(workspaceRoot, ['files', 'search']),
+                    MAX_INDEXED_FILES + 1
+                );
+                this.isIgnored = await this.loadExclusionFilter(workspaceRoot);
+                const candidates = uris
+                    .slice(0, MAX_INDEXED_FILES)
+                    .map(uri => ({ uri, relativePath: toRelativePath(workspaceRoot, uri) }))
+                    .filter(file => !hasBinaryExtension(file.relativePath) && !this.isIgnored(file.relativePath));
+
+                const files: Record<string, IndexedFile> = {};
+                const result: RebuildResult = { indexedFiles: 0, reusedFiles: 0, skippedFiles: 0, chunkCount: 0, truncated: uris.length > MAX_INDEXED_FILES };
+                for (let i = 0; i < candidates.length; i++) {
+                    onProgress?.(i, candidates.length);
+                    const { uri, relativePath } = candidates[i];
+                    const text = await this.readIndexableText(uri);
+                    if (text === undefined) {
+                        result.skippedFiles++;
+                        continue;
+                    }
+                    const hash = hashContent(text);
+                    if (previous[relativePath]?.hash === hash) {
+                        files[relativePath] = previous[relativePath];
+                        result.reusedFiles++;
+                    } else {
+                        files[relativePath] = await this.embedFile(relativePath, text, hash, provider);
+                        result.indexedFiles++;
+                    }
+                    result.chunkCount += files[relativePath].chunks.length;
+                }
+                const now = Date.now();
+                this.data = { version: INDEX_FORMAT_VERSION, providerId: provider.id, builtAt: now, updatedAt: now, files };
+                await this.save();
+                this.ensureWatcher(workspaceRoot);
+                return result;
+            } finally {
+                this.building = false;
+            }
+        });
+    }
+
+    /**
+     * The `topK` chunks most similar to `queryText`, skipping files in `excludePaths` (already in the context).
+     * Returns nothing while there is no index. Throws if the query cannot be embedded.
+     */
+    public async query(queryText: string, topK: number, excludePaths: ReadonlySet<string>): Promise<RetrievedChunk[]> {
+        await this.loaded;
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!this.data || !workspaceRoot || topK <= 0) {
+            return [];
+        }
+        const provider = await this.getProvider();
+        if (provider.id !== this.data.providerId) {
+            throw new Error(`The index was built with ${this.data.providerId}, but the embedding provider is now ${provider.id}. Run /index rebuild.`);
+        }
+        const [queryVector] = await provider.embed([queryText], 'query');
+
+        const scored: { filePath: string, chunk: IndexedChunk, score: number }[] = [];
+        for (const [filePath, file] of Object.entries(this.data.files)) {
+            if (excludePaths.has(filePath) || this.isIgnored(filePath)) {
+                continue;
+            }
+            for (const chunk of file.chunks) {
+                const score = cosineSimilarity(queryVector, decodeVector(chunk.vector));
+                if (score >= MIN_RELEVANCE_SCORE) {
+                    scored.push({ filePath, chunk, score });
+                }
+            }
+        }
+        scored.sort((a, b) => b.score - a.score);
+
+        const retrieved: RetrievedChunk[] = [];
+        for (const { filePath, chunk, score } of scored) {
+            if (retrieved.length >= topK) {
+                break;
+            }
+            // Overlapping windows of one file would mostly repeat each other
+            if (retrieved.some(r => r.filePath === filePath && r.startLine <= chunk.endLine && chunk.startLine <= r.endLine)) {
+                continue;
+            }
+            const text = await this.readIndexableText(vscode.Uri.joinPath(workspaceRoot, filePath));
+            if (text === undefined) {
+                continue;
+            }
+            const lines = text.split(/\r?\n/).slice(chunk.startLine - 1, chunk.endLine);
+            retrieved.push({ filePath, startLine: chunk.startLine, endLine: chunk.endLine, text: lines.join('\n'), score });
+        }
+        return retrieved;
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private requireWorkspaceRoot(): vscode.Uri {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) {
+            throw new Error("No workspace folder is open.");
+        }
+        return workspaceRoot;
+    }
+
+    private async embedFile(relativePath: string, text: string, hash: string, provider: EmbeddingProvider): Promise<IndexedFile> {
+        const chunks = chunkText(text);
+        // The path is part of what gets embedded, so "where is X configured" can match config/x.ts
+        const vectors = chunks.length > 0 ? await provider.embed(chunks.map(chunk => `${relativePath}\n${chunk.text}`), 'document') : [];
+        return {
+            hash,
+            chunks: chunks.map((chunk, i) => ({ startLine: chunk.startLine, endLine: chunk.endLine, vector: encodeVector(vectors[i]) }))
+        };
+    }
+
+    // .gitignore, geminiFS.security.deniedPaths and the forbidden paths of .gemini-fs.json: excluded files must not
+    // reach the embedding provider either. The policy is looked up on each call, as it can change without a rebuild.
+    private async loadExclusionFilter(workspaceRoot: vscode.Uri): Promise<(relativePath: string) => boolean> {
+        const isGitignored = await loadGitignoreFilter(workspaceRoot);
+        const isDenied = getDeniedPathMatcher();
+        return relativePath => isGitignored(relativePath) || isDenied(relativePath) || getWorkspacePolicy(workspaceRoot).isForbidden(relativePath);
+    }
+
+    private async readIndexableText(uri: vscode.Uri): Promise<string | undefined> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (workspaceRoot && !await isRealPathInsideRoot(workspaceRoot, uri)) {
+            return undefined;
+        }
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type !== vscode.FileType.File || stat.size > MAX_INDEXED_FILE_SIZE) {
+                return undefined;
+            }
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return looksLikeBinaryContent(bytes) ? undefined : new TextDecoder().decode(bytes);
+        } catch (error: any) {
+            if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                console.warn(`SemanticIndex: Could not read ${uri.fsPath}: ${error.message}`);
+            }
+            return undefined;
+        }
+    }
+
+    // The watcher only runs once an index exists; before that there is nothing to keep up to date
+    private ensureWatcher(workspaceRoot: vscode.Uri): void {
+        if (this.watcher) {
+            return;
+        }
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, '**/*'));
+        this.watcher.onDidChange(uri => this.scheduleUpdate(uri));
+        this.watcher.onDidCreate(uri => this.scheduleUpdate(uri));
+        this.watcher.onDidDelete(uri => this.scheduleUpdate(uri));
+    }
+
+    private scheduleUpdate(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const existing = this.pendingUpdates.get(key);
+        if (existing) {
+            clearTimeout(existing);
+        }
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.enqueue(() => this.updateFile(uri)).catch(error => {
+                console.warn(`SemanticIndex: Could not update ${uri.fsPath}: ${error.message}`);
+            });
+        }, UPDATE_DEBOUNCE_MS));
+    }
+
+    private async updateFile(uri: vscode.Uri): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!this.data || !workspaceRoot) {
+            return;
+        }
+        const relativePath = toRelativePath(workspaceRoot, uri);
+        const files = this.data.files;
+        const text = await this.readIndexableText(uri);
+        if (text === undefined) {
+            // Deleted (a deleted folder takes its files with it), or no longer indexable
+            const removed = Object.keys(files).filter(p => p === relativePath || p.startsWith(`${relativePath}/`));
+            removed.forEach(p => delete files[p]);
+            if (removed.length > 0) {
+                await this.touchAndSave();
+            }
+            return;
+        }
+        if (!files[relativePath]) {
+            // A new file: index it only if a rebuild would have picked it up
+            const included = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(workspaceRoot, relativePath),
+                buildExcludeGlob(workspaceRoot, ['files', 'search']),
+                1
+            );
+            if (included.length === 0 || hasBinaryExtension(relativePath) || this.isIgnored(relativePath)
+                || Object.keys(files).length >= MAX_INDEXED_FILES) {
+                return;
+            }
+        }
+        const hash = hashContent(text);
+        if (files[relativePath]?.hash === hash) {
+            return;
+        }
+        const provider = await this.getProvider();
+        if (provider.id !== this.data.providerId) {
+            return; // Mixed vectors would be useless; query() asks for a rebuild
+        }
+        files[relativePath] = await this.embedFile(relativePath, text, hash, provider);
+        await this.touchAndSave();
+    }
+
+    private async touchAndSave(): Promise<void> {
+        if (this.data) {
+            this.data.updatedAt = Date.now();
+        }
+        await this.save();
+    }
+
+    private get indexFileUri(): vscode.Uri | undefined {
+        return this.storageUri ? vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME) : undefined;
+    }
+
+    private async load(): Promise<void> {
+        const indexFileUri = this.indexFileUri;
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!indexFileUri || !workspaceRoot) {
+            return;
+        }
+        try {
+            const parsed = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(indexFileUri))) as IndexData;
+            if (parsed.version !== INDEX_FORMAT_VERSION) {
+                console.log("SemanticIndex: Ignoring an index written by another version; /index rebuild creates a new one.");
+                return;
+            }
+            this.data = parsed;
+            this.isIgnored = await this.loadExclusionFilter(workspaceRoot);
+            this.ensureWatcher(workspaceRoot);
+        } catch (error: any) {
+            if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                console.warn(`SemanticIndex: Could not load ${indexFileUri.fsPath}: ${error.message}`);
+            }
+        }
+    }
+
+    private async save(): Promise<void> {
+        const indexFileUri = this.indexFileUri;
+        if (!indexFileUri || !this.data) {
+            return;
+        }
+        await vscode.workspace.fs.createDirectory(this.storageUri!);
+        await vscode.workspace.fs.writeFile(indexFileUri, new TextEncoder().encode(JSON.stringify(this.data)));
+    }
+}
@@ -0,0 +1,36 @@
+// c:\Users\marti\gemini-fs\src\test\auditLog.test.ts
+import * as assert from 'assert';
+import { createHash } from 'crypto';
+import { createAuditEntry, toAuditContent } from '../auditLog';
+
+suite('Audit Log Test Suite', () => {
+    const session = { id: 's1', name: 'Default' };
+    const now = new Date(Date.UTC(2024, 4, 1, 12, 30));
+
+    test('records hashes of prompts and responses by default', () => {
+        const entry = createAuditEntry({ command: 'write', paths: ['src/app.ts'], prompt: 'Add logging', response: 'export {};', outcome: 'completed' }, session, false, now);
+
+        assert.strictEqual(entry.timestamp, '2024-05-01T12:30:00.000Z');
+        assert.deepStrictEqual(entry.session, session);
+        assert.deepStrictEqual(entry.paths, ['src/app.ts']);
+        assert.deepStrictEqual(entry.prompt, { sha256: createHash('sha256').update('Add logging').digest('hex'), length: 11 });
+        assert.strictEqual(entry.response?.text, undefined);
+        assert.strictEqual(entry.detail, undefined);
+    });
+
+    test('includes the bodies when configured to', () => {
+        const entry = createAuditEntry({ command: 'chat', prompt: 'Hello', response: 'Hi there', outcome: 'completed', detail: 'chat request to gemini-pro' }, session, true, now);
+
+        assert.strictEqual(entry.prompt?.text, 'Hello');
+        assert.strictEqual(entry.response?.text, 'Hi there');
+        assert.strictEqual(entry.detail, 'chat request to gemini-pro');
+        assert.deepStrictEqual(toAuditContent('Hello', true), entry.prompt);
+    });
+
+    test('leaves out content for file operation outcomes', () => {
+        const entry = createAuditEntry({ command: 'delete', outcome: 'discarded' }, session, true, now);
+
+        assert.deepStrictEqual(entry, { timestamp: '2024-05-01T12:30:00.000Z', session, command: 'delete', paths: [], outcome: 'discarded' });
+        assert.ok(!('prompt' in entry) && !('response' in entry));
+    });
+});
@@ -0,0 +1,37 @@
+// c:\Users\marti\gemini-fs\src\test\changeSet.test.ts
+import * as assert from 'assert';
+import { parseChangeSet } from '../changeSet';
+
+suite('Change Set Test Suite', () => {
+    test('should split a response into per-file sections', () => {
+        const response = [
+            'Sure, here are the changes.',
+            'FILE: src/a.ts',
+            '<<<<<<< SEARCH',
+            'old',
+            '=======',
+            'new',
+            '>>>>>>> REPLACE',
+            '### NEW FILE: `src/b.ts`',
+            '```ts',
+            'export {};',
+            '```',
+            '**DELETE FILE: src/c.ts**'
+        ].join('\n');
+        const sections = parseChangeSet(response);
+        assert.deepStrictEqual(sections.map(s => [s.kind, s.path]), [['modify', 'src/a.ts'], ['create', 'src/b.ts'], ['delete', 'src/c.ts']]);
+        assert.ok(sections[0].body.includes('<<<<<<< SEARCH'));
+        assert.ok(sections[1].body.includes('export {};'));
+    });
+
+    test('should merge repeated sections for the same modified file', () => {
+        const response = 'FILE: ./a.ts\nfirst\nFILE: a.ts\nsecond';
+        const sections = parseChangeSet(response);
+        assert.strictEqual(sections.length, 1);
+        assert.strictEqual(sections[0].body, 'first\nsecond');
+    });
+
+    test('should return nothing when there are no file headers', () => {
+        assert.deepStrictEqual(parseChangeSet('I cannot do that.'), []);
+    });
+});
@@ -0,0 +1,82 @@
+// c:\Users\marti\gemini-fs\src\test\changeSetCommands.test.ts
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { ChangeSetCommands } from '../changeSetCommands';
+import { ChatMessage, GeminiService } from '../geminiService';
+import { OperationJournal } from '../operationJournal';
+import { WorkspacePolicyStore } from '../workspacePolicy';
+
+suite('Change Set Commands Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let sandboxDir: string;
+    let workspaceRoot: vscode.Uri;
+    let policyStore: WorkspacePolicyStore | undefined;
+    let geminiService: sinon.SinonStubbedInstance<GeminiService>;
+    let webview: vscode.Webview & { postMessage: sinon.SinonStub };
+    let messages: string[];
+    let commands: ChangeSetCommands;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        sandboxDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-fs-')));
+        fs.writeFileSync(path.join(sandboxDir, 'old.ts'), 'export const old = 1;\n');
+        fs.writeFileSync(path.join(sandboxDir, 'app.ts'), 'export const app = 1;\n');
+        workspaceRoot = vscode.Uri.file(sandboxDir);
+        sandbox.replaceGetter(vscode.workspace, 'workspaceFolders', () => [{ uri: workspaceRoot, name: 'app', index: 0 }]);
+
+        messages = [];
+        const history: ChatMessage[] = [{ role: 'user', parts: [{ text: '/refactor remove old.ts' }] }];
+        geminiService = sandbox.createStubInstance(GeminiService);
+        geminiService.restoreRedactedSecrets.callsFake((text: string) => text);
+        webview = { postMessage: sandbox.stub().resolves(true) } as any;
+        commands = new ChangeSetCommands(
+            () => workspaceRoot,
+            (_webview, message) => { messages.push(message); },
+            () => history,
+            geminiService as unknown as GeminiService,
+            () => [{ path: 'old.ts', content: 'export const old = 1;\n' }, { path: 'app.ts', content: 'export const app = 1;\n' }],
+            new OperationJournal(() => workspaceRoot),
+            () => { /* Not audited here */ }
+        );
+    });
+
+    teardown(() => {
+        policyStore?.dispose();
+        policyStore = undefined;
+        sandbox.restore();
+        fs.rmSync(sandboxDir, { recursive: true, force: true });
+    });
+
+    const previewChangeSet = async (response: string): Promise<string> => {
+        geminiService.askGeminiWithHistory.resolves(response);
+        await commands.handleRefactorCommand('remove old.ts', webview, 'key', 'gemini-pro');
+        const preview = webview.postMessage.getCalls().map(call => call.args[0]).find(message => message.command === 'showChangeSetPreview');
+        assert.ok(preview, 'the change set should be previewed');
+        return preview.changeSetId;
+    };
+
+    test('refuses the whole change set when the policy disables one of its deletes', async () => {
+        fs.writeFileSync(path.join(sandboxDir, '.gemini-fs.json'), JSON.stringify({ commands: { delete: false } }));
+        policyStore = new WorkspacePolicyStore(() => ['delete', 'refactor']);
+        await policyStore.ready;
+
+        const changeSetId = await previewChangeSet([
+            'FILE: app.ts',
+            '<<<<<<< SEARCH',
+            'export const app = 1;',
+            '=======',
+            'export const app = 2;',
+            '>>>>>>> REPLACE',
+            'DELETE FILE: old.ts'
+        ].join('\n'));
+        await commands.performConfirmedChangeSet(changeSetId, ['app.ts', 'old.ts'], webview);
+
+        assert.ok(messages.some(message => message.startsWith('/delete is disabled in this workspace by .gemini-fs.json')), messages.join('\n'));
+        assert.ok(fs.existsSync(path.join(sandboxDir, 'old.ts')));
+        assert.strictEqual(fs.readFileSync(path.join(sandboxDir, 'app.ts'), 'utf8'), 'export const app = 1;\n');
+    });
+});
@@ -0,0 +1,89 @@
+// c:\Users\marti\gemini-fs\src\test\commandRegistry.test.ts
+import * as assert from 'assert';
+import { CommandLineError, CommandRegistry, getCommandName, quoteArgument, tokenizeCommandLine } from '../commandRegistry';
+
+suite('Command Registry Test Suite', () => {
+    let registry: CommandRegistry<void>;
+
+    setup(() => {
+        registry = new CommandRegistry<void>();
+        const noop = async () => { /* parse-only tests */ };
+        registry.register({ name: 'list', usage: ['/list [folderPath]'], description: 'List a folder.', maxArgs: 1, run: noop });
+        registry.register({ name: 'write', usage: ['/write <filePath> <description>'], description: 'Change a file.', minArgs: 1, freeTextAfter: 1, run: noop });
+        registry.register({
+            name: 'copy',
+            usage: ['/copy <source> <destination> [--overwrite]'],
+            description: 'Copy a file.',
+            flags: [{ name: 'overwrite', description: 'Replace the destination.' }, { name: 'glob', alias: 'g', valueName: 'pattern', description: 'Filter.' }],
+            minArgs: 2,
+            maxArgs: 2,
+            pathArguments: 2,
+            run: noop
+        });
+        registry.register({ name: 'session', usage: ['/session switch <name>'], description: 'Sessions.', subcommands: ['new', 'switch'], minArgs: 1, freeTextAfter: 1, run: noop });
+    });
+
+    test('keeps quoted arguments together and unescapes them', () => {
+        assert.deepStrictEqual(tokenizeCommandLine(`"my file.txt" 'it''s' "say \\"hi\\""`).map(token => token.value), ['my file.txt', 'its', 'say "hi"']);
+        assert.throws(() => tokenizeCommandLine('"unterminated'), CommandLineError);
+        assert.strictEqual(quoteArgument('my file.txt'), '"my file.txt"');
+        assert.strictEqual(quoteArgument('src/app.ts'), 'src/app.ts');
+    });
+
+    test('parses flags, flag values and the end-of-options marker', () => {
+        const parsed = registry.parse('/copy "a b.txt" --overwrite -g *.ts -- --odd-name');
+        assert.deepStrictEqual(parsed.args, ['a b.txt', '--odd-name']);
+        assert.deepStrictEqual(parsed.flags, { overwrite: true, glob: '*.ts' });
+        assert.deepStrictEqual(registry.parse('/copy a b --glob=src/**').flags, { glob: 'src/**' });
+    });
+
+    test('passes free text verbatim, quotes included', () => {
+        const parsed = registry.parse(`/write "src/my app.ts" don't touch the "config" --verbose`);
+        assert.deepStrictEqual(parsed.args, ['src/my app.ts']);
+        assert.strictEqual(parsed.text, `don't touch the "config" --verbose`);
+    });
+
+    test('unquotes free text that is a single quoted argument', () => {
+        assert.strictEqual(registry.parse('/session new "My session"').text, 'My session');
+        assert.strictEqual(registry.parse(`/session new 'it''s mine'`).text, 'its mine');
+        assert.strictEqual(registry.parse('/write a.ts "config" is wrong, fix "it"').text, '"config" is wrong, fix "it"');
+        assert.strictEqual(registry.parse(`/write a.ts 'tis done`).text, `'tis done`);
+    });
+
+    test('does not treat a longer word as a known command', () => {
+        assert.strictEqual(getCommandName('/listfoo'), 'listfoo');
+        assert.strictEqual(getCommandName('/etc/hosts is missing'), undefined);
+        assert.throws(() => registry.parse('/listfoo'), /Unknown command \/listfoo\. Did you mean \/list\?/);
+    });
+
+    test('reports typos in commands, options and subcommands with suggestions', () => {
+        assert.throws(() => registry.parse('/wirte a.ts x'), /Did you mean \/write\?/);
+        assert.throws(() => registry.parse('/copy a b --overwirte'), /Unknown option --overwirte for \/copy\. Did you mean --overwrite\?/);
+        assert.throws(() => registry.parse('/session swtich main'), /Did you mean switch\?/);
+    });
+
+    test('checks argument counts against the declared usage', () => {
+        assert.throws(() => registry.parse('/copy only-one'), /Usage: \/copy <source> <destination> \[--overwrite\]/);
+        assert.throws(() => registry.parse('/list my folder'), /Too many arguments for \/list\. Quote paths/);
+    });
+
+    test('generates help from the declarations', () => {
+        assert.deepStrictEqual(registry.parse('/copy --help'), { name: 'help', args: ['copy'], flags: {}, text: '' });
+        const overview = registry.formatHelp();
+        assert.ok(overview.includes('/list [folderPath] — List a folder.'));
+        assert.ok(overview.includes('/help [command]'));
+        const detail = registry.formatHelp('/copy');
+        assert.ok(detail.includes('  /copy <source> <destination> [--overwrite]'));
+        assert.ok(detail.includes('--glob <pattern>, -g  Filter.'));
+        assert.throws(() => registry.formatHelp('lst'), /Did you mean \/list\?/);
+    });
+
+    test('describes the commands for the webview autocomplete', () => {
+        const descriptions = registry.describeCommands();
+        assert.deepStrictEqual(descriptions.map(description => description.name), ['copy', 'help', 'list', 'session', 'write']);
+        assert.deepStrictEqual(descriptions.find(description => description.name === 'copy'),
+            { name: 'copy', usage: '/copy <source> <destination> [--overwrite]', description: 'Copy a file.', subcommands: [], pathArguments: 2 });
+        assert.deepStrictEqual(descriptions.find(description => description.name === 'session')?.subcommands, ['new', 'switch']);
+        assert.deepStrictEqual(descriptions.find(description => description.name === 'help')?.subcommands, ['copy', 'help', 'list', 'session', 'write']);
+    });
+});
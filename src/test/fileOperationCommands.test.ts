@@ -0,0 +1,78 @@
+// c:\Users\marti\gemini-fs\src\test\fileOperationCommands.test.ts
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { FileOperationCommands } from '../fileOperationCommands';
+import { ChatMessage, GeminiService } from '../geminiService';
+import { OperationJournal } from '../operationJournal';
+
+suite('File Operation Commands Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let sandboxDir: string;
+    let workspaceRoot: vscode.Uri;
+    let geminiService: sinon.SinonStubbedInstance<GeminiService>;
+    let webview: vscode.Webview & { postMessage: sinon.SinonStub };
+    let messages: string[];
+    let commands: FileOperationCommands;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        sandboxDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-fs-')));
+        workspaceRoot = vscode.Uri.file(sandboxDir);
+        sandbox.replaceGetter(vscode.workspace, 'workspaceFolders', () => [{ uri: workspaceRoot, name: 'app', index: 0 }]);
+
+        messages = [];
+        const history: ChatMessage[] = [{ role: 'user', parts: [{ text: '/write app.ts bump b' }] }];
+        geminiService = sandbox.createStubInstance(GeminiService);
+        geminiService.restoreRedactedSecrets.callsFake((text: string) => text);
+        webview = { postMessage: sandbox.stub().resolves(true) } as any;
+        commands = new FileOperationCommands(
+            () => workspaceRoot,
+            (_webview, message) => { messages.push(message); },
+            () => history,
+            geminiService as unknown as GeminiService,
+            () => [],
+            new OperationJournal(() => workspaceRoot),
+            () => { /* Not audited here */ }
+        );
+    });
+
+    teardown(() => {
+        sandbox.restore();
+        fs.rmSync(sandboxDir, { recursive: true, force: true });
+    });
+
+    test('confirms a /write on an editor with unsaved but otherwise unchanged edits', async () => {
+        fs.writeFileSync(path.join(sandboxDir, 'app.ts'), 'const a = 1;\n');
+        const uri = vscode.Uri.joinPath(workspaceRoot, 'app.ts');
+        const bufferText = 'const a = 1;\nconst b = 2;\n'; // Typed in the editor, not saved
+        const document = {
+            uri,
+            isDirty: true,
+            getText: () => bufferText,
+            positionAt: (offset: number) => new vscode.Position(0, offset),
+            save: sandbox.stub().resolves(true)
+        };
+        sandbox.replaceGetter(vscode.workspace, 'textDocuments', () => [document as unknown as vscode.TextDocument]);
+        sandbox.stub(vscode.workspace, 'openTextDocument').resolves(document as unknown as vscode.TextDocument);
+        const applyEdit = sandbox.stub(vscode.workspace, 'applyEdit').resolves(true);
+        sandbox.stub(vscode.window, 'showTextDocument').resolves();
+        geminiService.askGeminiWithHistory.resolves(['<<<<<<< SEARCH', 'const b = 2;', '=======', 'const b = 3;', '>>>>>>> REPLACE'].join('\n'));
+
+        await commands.handleWriteCommand('app.ts', 'bump b', webview, 'key', 'gemini-pro');
+        const preview = webview.postMessage.getCalls().map(call => call.args[0]).find(message => message.command === 'showFilePreviewForWrite');
+        assert.ok(preview, 'the write should be previewed');
+        assert.strictEqual(preview.originalContent, bufferText);
+        assert.strictEqual(preview.proposedContent, 'const a = 1;\nconst b = 3;\n');
+
+        await commands.performConfirmedWrite('app.ts', preview.proposedContent, webview, { originalContent: preview.originalContent, contentHash: preview.contentHash });
+
+        assert.ok(!messages.some(message => message.includes('changed after the preview was shown')), messages.join('\n'));
+        assert.ok(messages.some(message => message.startsWith('Merged the changes into the unsaved editor for app.ts')), messages.join('\n'));
+        assert.ok(applyEdit.calledOnce);
+        assert.ok(document.save.notCalled, "the user's own unsaved edits must not be saved for them");
+    });
+});
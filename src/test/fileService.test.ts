@@ -48,6 +48,7 @@ suite('FileService Test Suite', () => {
 
         // Stub GeminiService
         mockGeminiService = sandbox.createStubInstance(GeminiService);
+        mockGeminiService.restoreRedactedSecrets.callsFake((text: string) => text);
 
         fileService = new FileService(mockContext, mockGeminiService);
 
@@ -0,0 +1,94 @@
+// c:\Users\marti\gemini-fs\src\test\fileTools.test.ts
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { FileToolExecutor } from '../fileTools';
+import { FileOperationCommands } from '../fileOperationCommands';
+
+suite('File Tools Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let files: Map<string, string>; // In-memory workspace, keyed by workspace-relative path
+    let fileOpCommands: { showProposedChange: sinon.SinonStub };
+    let executor: FileToolExecutor;
+    const workspaceRootUri = vscode.Uri.file('/test-workspace');
+    const webview = { postMessage: () => Promise.resolve(true) } as unknown as vscode.Webview;
+    const toKey = (uri: vscode.Uri) => uri.fsPath.replace(/\\/g, '/').slice(workspaceRootUri.fsPath.replace(/\\/g, '/').length + 1);
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        files = new Map([['src/app.ts', 'line one\nline two\n'], ['README.md', '# Readme\n']]);
+        const fsMock = {
+            stat: sandbox.stub().callsFake(async (uri: vscode.Uri) => {
+                const key = toKey(uri);
+                if (files.has(key)) {
+                    return { type: vscode.FileType.File, size: files.get(key)!.length };
+                }
+                if ([...files.keys()].some(p => p.startsWith(`${key}/`))) {
+                    return { type: vscode.FileType.Directory, size: 0 };
+                }
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }),
+            readFile: sandbox.stub().callsFake(async (uri: vscode.Uri) => new TextEncoder().encode(files.get(toKey(uri)))),
+            readDirectory: sandbox.stub().callsFake(async (uri: vscode.Uri) => {
+                const prefix = toKey(uri) ? `${toKey(uri)}/` : '';
+                const names = new Map<string, vscode.FileType>();
+                [...files.keys()].filter(p => p.startsWith(prefix)).forEach(p => {
+                    const [name, ...rest] = p.slice(prefix.length).split('/');
+                    names.set(name, rest.length > 0 ? vscode.FileType.Directory : vscode.FileType.File);
+                });
+                return [...names.entries()];
+            })
+        };
+        sandbox.replaceGetter(vscode.workspace, 'fs', () => fsMock as unknown as vscode.FileSystem);
+        fileOpCommands = { showProposedChange: sandbox.stub().callsFake(async (filePath: string) => ({ relativePath: filePath, isNewFile: false })) };
+        executor = new FileToolExecutor(() => workspaceRootUri, fileOpCommands as unknown as FileOperationCommands, webview);
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('should read a workspace file', async () => {
+        const outcome = await executor.execute({ name: 'read_file', args: { path: 'src/app.ts' } });
+
+        assert.deepStrictEqual(outcome.response, { path: 'src/app.ts', content: 'line one\nline two\n', truncated: false });
+        assert.strictEqual(outcome.trace, 'read_file src/app.ts: 3 lines');
+    });
+
+    test('should refuse paths outside the workspace', async () => {
+        const outcome = await executor.execute({ name: 'read_file', args: { path: '../secrets.txt' } });
+
+        assert.match((outcome.response as { error: string }).error, /outside the workspace/);
+        assert.match(outcome.trace, /failed/);
+    });
+
+    test('should list a folder with folders marked by a slash', async () => {
+        const outcome = await executor.execute({ name: 'list_dir', args: {} });
+
+        assert.deepStrictEqual((outcome.response as { entries: string[] }).entries, ['README.md', 'src/']);
+    });
+
+    test('should leave denied paths out of folder listings', async () => {
+        files.set('.env', 'TOKEN=abc123');
+        files.set('src/server.key', 'key');
+        const root = await executor.execute({ name: 'list_dir', args: {} });
+        const src = await executor.execute({ name: 'list_dir', args: { path: 'src' } });
+
+        assert.deepStrictEqual((root.response as { entries: string[] }).entries, ['README.md', 'src/']);
+        assert.deepStrictEqual((src.response as { entries: string[] }).entries, ['app.ts']);
+    });
+
+    test('should route propose_write to the confirmation preview, once per message', async () => {
+        const first = await executor.execute({ name: 'propose_write', args: { path: 'src/app.ts', content: 'new', summary: 'rewrite' } });
+        const second = await executor.execute({ name: 'propose_write', args: { path: 'README.md', content: 'new' } });
+
+        assert.strictEqual((first.response as { status: string }).status, 'awaiting_user_confirmation');
+        assert.ok(fileOpCommands.showProposedChange.calledOnceWith('src/app.ts', 'new', 'rewrite', webview));
+        assert.match((second.response as { error: string }).error, /already waiting/);
+    });
+
+    test('should report unknown functions to Gemini', async () => {
+        const outcome = await executor.execute({ name: 'delete_everything', args: {} });
+        assert.deepStrictEqual(outcome.response, { error: 'Unknown function delete_everything.' });
+    });
+});
@@ -0,0 +1,54 @@
+// c:\Users\marti\gemini-fs\src\test\intentRouter.test.ts
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { IntentRouter, intentToCommand, mightBeFileRequest, needsClarification } from '../intentRouter';
+
+suite('Intent Router Test Suite', () => {
+    let generateJson: sinon.SinonStub;
+    let router: IntentRouter;
+
+    setup(() => {
+        generateJson = sinon.stub();
+        router = new IntentRouter({ generateJson });
+    });
+
+    test('routes a confident read request to /read', async () => {
+        generateJson.resolves({ action: 'read', path: 'src\\app.ts', confidence: 0.95 });
+
+        const intent = await router.route('show me src/app.ts', ['src/app.ts']);
+
+        assert.deepStrictEqual(intent, { action: 'read', path: 'src/app.ts', description: undefined, confidence: 0.95 });
+        assert.strictEqual(intentToCommand(intent), '/read src/app.ts');
+        assert.strictEqual(needsClarification(intent, 0.75), false);
+        assert.ok((generateJson.firstCall.args[0] as string).includes('src/app.ts'), 'Known files should be listed in the prompt');
+    });
+
+    test('treats malformed classifier output as chat', async () => {
+        generateJson.resolves({ action: 'format-disk', confidence: 1 });
+
+        const intent = await router.route('read the room');
+
+        assert.deepStrictEqual(intent, { action: 'chat', confidence: 0 });
+        assert.strictEqual(intentToCommand(intent), undefined);
+    });
+
+    test('asks for clarification on low confidence and on destructive actions', () => {
+        assert.strictEqual(needsClarification({ action: 'read', path: 'a.ts', confidence: 0.4 }, 0.75), true);
+        assert.strictEqual(needsClarification({ action: 'delete', path: 'a.ts', confidence: 1 }, 0.75), true);
+        assert.strictEqual(needsClarification({ action: 'write', path: 'a.ts', description: 'x', confidence: 1 }, 0.75), true);
+    });
+
+    test('builds no command when the intent lacks what the command needs', () => {
+        assert.strictEqual(intentToCommand({ action: 'read', confidence: 1 }), undefined);
+        assert.strictEqual(intentToCommand({ action: 'write', path: 'a.ts', confidence: 1 }), undefined);
+        assert.strictEqual(intentToCommand({ action: 'list', confidence: 1 }), '/list');
+        assert.strictEqual(intentToCommand({ action: 'create', path: 'b.ts', description: 'a logger', confidence: 1 }), '/create b.ts a logger');
+        assert.strictEqual(intentToCommand({ action: 'delete', path: 'old logs', confidence: 1 }), '/delete "old logs"');
+    });
+
+    test('only sends messages that mention files or folders to the classifier', () => {
+        assert.strictEqual(mightBeFileRequest('please delete the old logs folder'), true);
+        assert.strictEqual(mightBeFileRequest('open package.json'), true);
+        assert.strictEqual(mightBeFileRequest('what does a closure capture?'), false);
+    });
+});
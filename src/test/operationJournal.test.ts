@@ -0,0 +1,100 @@
+// c:\Users\marti\gemini-fs\src\test\operationJournal.test.ts
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { JournalError, OperationJournal } from '../operationJournal';
+import { WorkspacePolicyStore } from '../workspacePolicy';
+
+suite('Operation Journal Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let files: Map<string, Uint8Array>; // In-memory workspace, keyed by workspace-relative path
+    let journal: OperationJournal;
+    const workspaceRootUri = vscode.Uri.file('/test-workspace');
+    const webview = {} as vscode.Webview;
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const decode = (bytes: Uint8Array | undefined) => bytes === undefined ? undefined : new TextDecoder().decode(bytes);
+    const toKey = (uri: vscode.Uri) => uri.fsPath.replace(/\\/g, '/').slice(workspaceRootUri.fsPath.replace(/\\/g, '/').length + 1);
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        files = new Map();
+        const fsMock = {
+            readFile: sandbox.stub().callsFake(async (uri: vscode.Uri) => {
+                const content = files.get(toKey(uri));
+                if (!content) {
+                    throw vscode.FileSystemError.FileNotFound(uri);
+                }
+                return content;
+            }),
+            writeFile: sandbox.stub().callsFake(async (uri: vscode.Uri, content: Uint8Array) => { files.set(toKey(uri), content); }),
+            delete: sandbox.stub().callsFake(async (uri: vscode.Uri) => { files.delete(toKey(uri)); }),
+            createDirectory: sandbox.stub().resolves()
+        };
+        sandbox.replaceGetter(vscode.workspace, 'fs', () => fsMock as unknown as vscode.FileSystem);
+        journal = new OperationJournal(() => workspaceRootUri);
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('should undo and redo a write', async () => {
+        files.set('a.txt', encode('new'));
+        journal.record({ operation: 'write', label: 'write a.txt', changes: [{ relativePath: 'a.txt', before: encode('old'), after: encode('new') }], removedDirectories: [] });
+
+        await journal.undo(webview);
+        assert.strictEqual(decode(files.get('a.txt')), 'old');
+        await journal.redo(webview);
+        assert.strictEqual(decode(files.get('a.txt')), 'new');
+    });
+
+    test('should undo a create by removing the file', async () => {
+        files.set('b.txt', encode('created'));
+        journal.record({ operation: 'create', label: 'create b.txt', changes: [{ relativePath: 'b.txt', before: undefined, after: encode('created') }], removedDirectories: [] });
+
+        await journal.undo(webview);
+        assert.strictEqual(files.has('b.txt'), false);
+    });
+
+    test('should refuse to undo when the file changed since', async () => {
+        files.set('a.txt', encode('edited by hand'));
+        journal.record({ operation: 'write', label: 'write a.txt', changes: [{ relativePath: 'a.txt', before: encode('old'), after: encode('new') }], removedDirectories: [] });
+
+        await assert.rejects(journal.undo(webview), (error: Error) => error instanceof JournalError && /a\.txt was modified/.test(error.message));
+        assert.strictEqual(decode(files.get('a.txt')), 'edited by hand');
+    });
+
+    test('should refuse to undo into a path that is denied now', async () => {
+        files.set('.env', encode('SECRET=new'));
+        journal.record({ operation: 'write', label: 'write .env', changes: [{ relativePath: '.env', before: encode('SECRET=old'), after: encode('SECRET=new') }], removedDirectories: [] });
+
+        await assert.rejects(journal.undo(webview), (error: Error) => error instanceof JournalError && /blocked by the geminiFS\.security\.deniedPaths setting/.test(error.message));
+        assert.strictEqual(decode(files.get('.env')), 'SECRET=new');
+    });
+
+    test('should refuse to undo a create when the workspace policy disables /delete', async () => {
+        files.set('.gemini-fs.json', encode(JSON.stringify({ commands: { delete: false } })));
+        files.set('b.txt', encode('created'));
+        sandbox.replaceGetter(vscode.workspace, 'workspaceFolders', () => [{ uri: workspaceRootUri, name: 'test-workspace', index: 0 }]);
+        const policyStore = new WorkspacePolicyStore(() => ['delete', 'undo']);
+        try {
+            await policyStore.ready;
+            journal.record({ operation: 'create', label: 'create b.txt', changes: [{ relativePath: 'b.txt', before: undefined, after: encode('created') }], removedDirectories: [] });
+
+            await assert.rejects(journal.undo(webview), /Cannot undo "create b\.txt": \/delete is disabled in this workspace by \.gemini-fs\.json/);
+            assert.strictEqual(decode(files.get('b.txt')), 'created');
+        } finally {
+            policyStore.dispose();
+        }
+    });
+
+    test('should drop undone entries when a new operation is recorded', async () => {
+        files.set('a.txt', encode('new'));
+        journal.record({ operation: 'write', label: 'write a.txt', changes: [{ relativePath: 'a.txt', before: encode('old'), after: encode('new') }], removedDirectories: [] });
+        await journal.undo(webview);
+        journal.record({ operation: 'create', label: 'create c.txt', changes: [{ relativePath: 'c.txt', before: undefined, after: encode('c') }], removedDirectories: [] });
+
+        assert.deepStrictEqual(journal.list().map(({ entry }) => entry.label), ['create c.txt']);
+        await assert.rejects(journal.redo(webview), /Nothing to redo/);
+    });
+});
@@ -0,0 +1,61 @@
+// c:\Users\marti\gemini-fs\src\test\patchApplier.test.ts
+import * as assert from 'assert';
+import { applyFileEdits, parseFileEdits } from '../patchApplier';
+
+suite('Patch Applier Test Suite', () => {
+    const original = 'function a() {\n    return 1;\n}\n\nfunction b() {\n    return 2;\n}\n';
+
+    suite('parseFileEdits', () => {
+        test('should parse search/replace blocks and ignore surrounding prose', () => {
+            const response = 'Here you go:\n```\n<<<<<<< SEARCH\n    return 1;\n=======\n    return 42;\n>>>>>>> REPLACE\n```\nDone.';
+            const edits = parseFileEdits(response);
+            assert.strictEqual(edits.length, 1);
+            assert.deepStrictEqual(edits[0].oldLines, ['    return 1;']);
+            assert.deepStrictEqual(edits[0].newLines, ['    return 42;']);
+        });
+
+        test('should parse unified diff hunks with their start line', () => {
+            const response = '```diff\n--- a/x.ts\n+++ b/x.ts\n@@ -5,3 +5,3 @@\n function b() {\n-    return 2;\n+    return 3;\n }\n```';
+            const edits = parseFileEdits(response);
+            assert.strictEqual(edits.length, 1);
+            assert.strictEqual(edits[0].hintLine, 5);
+            assert.deepStrictEqual(edits[0].oldLines, ['function b() {', '    return 2;', '}']);
+            assert.deepStrictEqual(edits[0].newLines, ['function b() {', '    return 3;', '}']);
+        });
+
+        test('should return no edits for a plain answer', () => {
+            assert.deepStrictEqual(parseFileEdits('I would rather not.'), []);
+        });
+    });
+
+    suite('applyFileEdits', () => {
+        test('should apply matching edits and keep unrelated code', () => {
+            const edits = parseFileEdits('<<<<<<< SEARCH\n    return 2;\n=======\n    return 3;\n>>>>>>> REPLACE');
+            const result = applyFileEdits(original, edits);
+            assert.strictEqual(result.content, original.replace('return 2;', 'return 3;'));
+            assert.deepStrictEqual(result.rejectedEdits, []);
+        });
+
+        test('should reject edits whose search text is missing', () => {
+            const edits = parseFileEdits('<<<<<<< SEARCH\n    return 7;\n=======\n    return 8;\n>>>>>>> REPLACE');
+            const result = applyFileEdits(original, edits);
+            assert.strictEqual(result.content, original);
+            assert.strictEqual(result.appliedEdits.length, 0);
+            assert.match(result.rejectedEdits[0].reason, /not found/);
+        });
+
+        test('should reject ambiguous edits unless a hunk header pins them', () => {
+            const ambiguous = parseFileEdits('<<<<<<< SEARCH\n}\n=======\n};\n>>>>>>> REPLACE');
+            assert.match(applyFileEdits(original, ambiguous).rejectedEdits[0].reason, /2 times/);
+
+            const pinned = parseFileEdits('@@ -7,1 +7,1 @@\n-}\n+};');
+            const result = applyFileEdits(original, pinned);
+            assert.strictEqual(result.content, 'function a() {\n    return 1;\n}\n\nfunction b() {\n    return 2;\n};\n');
+        });
+
+        test('should keep CRLF line endings', () => {
+            const edits = parseFileEdits('<<<<<<< SEARCH\nb\n=======\nc\n>>>>>>> REPLACE');
+            assert.strictEqual(applyFileEdits('a\r\nb\r\n', edits).content, 'a\r\nc\r\n');
+        });
+    });
+});
@@ -0,0 +1,81 @@
+// c:\Users\marti\gemini-fs\src\test\pathSecurity.test.ts
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { resolvePathAcrossRootsUtil, resolvePathUtil } from '../fileSystemUtils';
+import { createDeniedPathMatcher, DEFAULT_DENIED_PATHS, isPathInsideRoot, isRealPathInsideRoot } from '../pathSecurity';
+
+suite('Path Security Test Suite', () => {
+    const webview = {} as vscode.Webview;
+    let sandboxDir: string;
+    let workspaceRoot: vscode.Uri;
+    let messages: string[];
+    const showMessage = (_webview: vscode.Webview, message: string) => { messages.push(message); };
+
+    setup(() => {
+        messages = [];
+        // /tmp itself may be a symlink (macOS); everything below is compared by real path
+        sandboxDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-fs-')));
+        fs.mkdirSync(path.join(sandboxDir, 'app', 'src'), { recursive: true });
+        fs.mkdirSync(path.join(sandboxDir, 'app-secrets'));
+        fs.writeFileSync(path.join(sandboxDir, 'app', 'src', 'index.ts'), 'export {};');
+        fs.writeFileSync(path.join(sandboxDir, 'app-secrets', 'token.txt'), 'secret');
+        workspaceRoot = vscode.Uri.file(path.join(sandboxDir, 'app'));
+    });
+
+    teardown(() => {
+        fs.rmSync(sandboxDir, { recursive: true, force: true });
+    });
+
+    test('compares whole path segments', () => {
+        assert.strictEqual(isPathInsideRoot('/work/app', '/work/app/src/a.ts', false), true);
+        assert.strictEqual(isPathInsideRoot('/work/app', '/work/app', false), true);
+        assert.strictEqual(isPathInsideRoot('/work/app', '/work/app-secrets/a.ts', false), false);
+        assert.strictEqual(isPathInsideRoot('/work/app', '/work', false), false);
+        assert.strictEqual(isPathInsideRoot('C:\\Work\\App', 'c:/work/app/src', true), true);
+        assert.strictEqual(isPathInsideRoot('C:\\Work\\App', 'c:/work/app/src', false), false);
+    });
+
+    test('rejects traversal out of the workspace in every spelling', () => {
+        for (const rawPath of ['../app-secrets/token.txt', 'src/../../app-secrets/token.txt', '..\\app-secrets\\token.txt', 'src/../..']) {
+            assert.strictEqual(resolvePathUtil(rawPath, workspaceRoot, webview, showMessage), null, rawPath);
+        }
+        assert.ok(messages.every(message => message.startsWith('Path is outside the workspace')));
+
+        // Staying inside is fine, and a leading slash means the workspace root, not the file system root
+        assert.strictEqual(resolvePathUtil('src/../src/index.ts', workspaceRoot, webview, showMessage)?.relativePath, 'src/index.ts');
+        assert.strictEqual(resolvePathUtil('/src/index.ts', workspaceRoot, webview, showMessage)?.relativePath, 'src/index.ts');
+    });
+
+    test('denies sensitive paths at any depth, including their contents', () => {
+        const isDenied = createDeniedPathMatcher(DEFAULT_DENIED_PATHS);
+        assert.ok(isDenied('.env') && isDenied('config/.env.production') && isDenied('.git') && isDenied('.git/config'));
+        assert.ok(isDenied('certs/server.key') && isDenied('deploy/id_ed25519') && isDenied('./.npmrc'));
+        assert.ok(!isDenied('.env.example') && !isDenied('src/env.ts') && !isDenied('.github/workflows/ci.yml') && !isDenied('.'));
+
+        assert.strictEqual(resolvePathUtil('.git/config', workspaceRoot, webview, showMessage), null);
+        assert.match(messages[0], /Access to \.git\/config is blocked by the geminiFS\.security\.deniedPaths setting/);
+    });
+
+    test('follows symlinks that lead out of the workspace', async function () {
+        try {
+            fs.symlinkSync(path.join(sandboxDir, 'app-secrets'), path.join(workspaceRoot.fsPath, 'linked'), 'dir');
+            fs.symlinkSync(path.join(sandboxDir, 'missing.txt'), path.join(workspaceRoot.fsPath, 'dangling.txt'));
+            fs.symlinkSync(path.join(workspaceRoot.fsPath, 'src'), path.join(workspaceRoot.fsPath, 'alias'), 'dir');
+        } catch (error: any) {
+            this.skip(); // Creating symlinks needs extra rights on Windows
+        }
+
+        assert.strictEqual(await isRealPathInsideRoot(workspaceRoot, vscode.Uri.joinPath(workspaceRoot, 'linked', 'token.txt')), false);
+        assert.strictEqual(await isRealPathInsideRoot(workspaceRoot, vscode.Uri.joinPath(workspaceRoot, 'linked', 'new.txt')), false);
+        assert.strictEqual(await isRealPathInsideRoot(workspaceRoot, vscode.Uri.joinPath(workspaceRoot, 'dangling.txt')), false);
+        assert.strictEqual(await isRealPathInsideRoot(workspaceRoot, vscode.Uri.joinPath(workspaceRoot, 'alias', 'index.ts')), true);
+        assert.strictEqual(await isRealPathInsideRoot(workspaceRoot, vscode.Uri.joinPath(workspaceRoot, 'src', 'new', 'file.ts')), true);
+
+        assert.strictEqual(await resolvePathAcrossRootsUtil('linked/token.txt', workspaceRoot, webview, showMessage), null);
+        assert.match(messages[0], /linked\/token\.txt is a symbolic link/);
+        assert.strictEqual((await resolvePathAcrossRootsUtil('alias/index.ts', workspaceRoot, webview, showMessage))?.relativePath, 'alias/index.ts');
+    });
+});
@@ -0,0 +1,45 @@
+// c:\Users\marti\gemini-fs\src\test\responseCleaner.test.ts
+import * as assert from 'assert';
+import { extractFileContent } from '../responseCleaner';
+
+suite('Response Cleaner Test Suite', () => {
+    test('should unwrap a single fenced block', () => {
+        const result = extractFileContent('```typescript\nexport const a = 1;\n```', 'src/a.ts');
+        assert.strictEqual(result.content, 'export const a = 1;\n');
+        assert.deepStrictEqual(result.warnings, []);
+        assert.deepStrictEqual(result.strippedText, ['```typescript', '```']);
+    });
+
+    test('should drop prose around the code and warn about it', () => {
+        const result = extractFileContent('Here is the updated file:\n```ts\nlet x = 2;\n```\nLet me know if you need more.', 'x.ts');
+        assert.strictEqual(result.content, 'let x = 2;\n');
+        assert.ok(result.warnings.some(w => w.includes('explanations')));
+        assert.ok(result.strippedText.some(t => t.includes('Here is the updated file:')));
+        assert.ok(result.strippedText.some(t => t.includes('Let me know')));
+    });
+
+    test('should prefer the block tagged with the file language', () => {
+        const response = '```bash\nnpm install\n```\n\n```python\nprint("hi")\n```';
+        const result = extractFileContent(response, 'tool.py');
+        assert.strictEqual(result.content, 'print("hi")\n');
+        assert.ok(result.warnings.some(w => w.includes('2 code blocks')));
+    });
+
+    test('should strip a one-line introduction from an unfenced response', () => {
+        const result = extractFileContent('Sure, here it is:\n\nname: test\n', 'config.yml');
+        assert.strictEqual(result.content, 'name: test\n');
+        assert.deepStrictEqual(result.strippedText, ['Sure, here it is:']);
+    });
+
+    test('should keep fences inside a markdown file', () => {
+        const markdown = '# Title\n\n```js\nconsole.log(1);\n```\n';
+        const result = extractFileContent('```markdown\n' + markdown + '```', 'README.md');
+        assert.strictEqual(result.content, markdown);
+    });
+
+    test('should leave clean content untouched', () => {
+        const result = extractFileContent('const a = 1;\n', 'a.js');
+        assert.strictEqual(result.content, 'const a = 1;\n');
+        assert.deepStrictEqual(result.strippedText, []);
+    });
+});
@@ -0,0 +1,37 @@
+// c:\Users\marti\gemini-fs\src\test\semanticIndex.test.ts
+import * as assert from 'assert';
+import { chunkText, cosineSimilarity } from '../semanticIndex';
+import { LocalEmbeddingProvider, tokenizeForEmbedding } from '../embeddingProvider';
+
+suite('Semantic Index Test Suite', () => {
+    test('should split long files into overlapping line windows', () => {
+        const text = Array.from({ length: 130 }, (_, i) => `line ${i + 1}`).join('\n');
+        const chunks = chunkText(text);
+
+        assert.deepStrictEqual(chunks.map(c => [c.startLine, c.endLine]), [[1, 60], [51, 110], [101, 130]]);
+        assert.ok(chunks[1].text.startsWith('line 51\n'));
+    });
+
+    test('should not produce chunks for blank files', () => {
+        assert.deepStrictEqual(chunkText(''), []);
+        assert.deepStrictEqual(chunkText('\n   \n'), []);
+    });
+
+    test('should split identifiers into their parts', () => {
+        assert.deepStrictEqual(tokenizeForEmbedding('parseHTTPResponse max_size'), ['parsehttpresponse', 'parse', 'http', 'response', 'max_size', 'max', 'size']);
+    });
+
+    test('should embed deterministically and rank related text higher', async () => {
+        const provider = new LocalEmbeddingProvider();
+        const [query, related, unrelated] = await provider.embed([
+            'where is the token budget computed?',
+            'export function getInputTokenBudget(modelName: string): number { return budget; }',
+            'body { color: red; margin: 0; }'
+        ]);
+        const [again] = await provider.embed(['where is the token budget computed?']);
+
+        assert.deepStrictEqual(again, query);
+        assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+        assert.strictEqual(cosineSimilarity(query, new Array(query.length).fill(0)), 0);
+    });
+});
@@ -0,0 +1,24 @@
+// c:\Users\marti\gemini-fs\src\test\textMerge.test.ts
+import * as assert from 'assert';
+import { mergeProposedChanges } from '../textMerge';
+
+suite('Text Merge Test Suite', () => {
+    const base = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', 'line 7', 'line 8', 'line 9', 'line 10', ''].join('\n');
+
+    test('should return the proposal when the file did not change', () => {
+        const proposed = base.replace('line 2', 'line two');
+        assert.strictEqual(mergeProposedChanges(base, base, proposed), proposed);
+    });
+
+    test('should combine changes to different parts of the file', () => {
+        const current = base.replace('line 9', 'line nine');
+        const proposed = base.replace('line 2', 'line two');
+        assert.strictEqual(mergeProposedChanges(base, current, proposed), base.replace('line 9', 'line nine').replace('line 2', 'line two'));
+    });
+
+    test('should report a conflict when both change the same lines', () => {
+        const current = base.replace('line 5', 'line five');
+        const proposed = base.replace('line 5', 'line 5!');
+        assert.strictEqual(mergeProposedChanges(base, current, proposed), undefined);
+    });
+});
@@ -0,0 +1,40 @@
+// c:\Users\marti\gemini-fs\src\test\tokenBudget.test.ts
+import * as assert from 'assert';
+import { countOldestToDrop, getInputTokenBudget, truncateToTokenShare, TRUNCATION_MARKER } from '../tokenBudget';
+
+suite('Token Budget Test Suite', () => {
+    suite('getInputTokenBudget', () => {
+        test('should use the longest matching model prefix', () => {
+            assert.strictEqual(getInputTokenBudget('gemini-1.5-pro-latest'), 2_097_152);
+            assert.strictEqual(getInputTokenBudget('models/gemini-1.5-flash-latest'), 1_048_576);
+        });
+
+        test('should fall back to a conservative limit for unknown models', () => {
+            assert.strictEqual(getInputTokenBudget('some-future-model'), 30_720);
+        });
+    });
+
+    suite('truncateToTokenShare', () => {
+        test('should leave content alone when it already fits', () => {
+            assert.strictEqual(truncateToTokenShare('abcdef', 10, 20), 'abcdef');
+        });
+
+        test('should cut content proportionally and mark it as truncated', () => {
+            const content = 'x'.repeat(1000);
+            const truncated = truncateToTokenShare(content, 100, 50);
+            assert.ok(truncated.endsWith(TRUNCATION_MARKER));
+            assert.strictEqual(truncated.length, 500);
+        });
+    });
+
+    suite('countOldestToDrop', () => {
+        test('should drop just enough leading entries', () => {
+            assert.strictEqual(countOldestToDrop([100, 200, 300], 250), 2);
+            assert.strictEqual(countOldestToDrop([100, 200, 300], 100), 1);
+        });
+
+        test('should drop everything when even that is not enough', () => {
+            assert.strictEqual(countOldestToDrop([100, 200], 1000), 2);
+        });
+    });
+});
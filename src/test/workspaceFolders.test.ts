@@ -0,0 +1,53 @@
+// c:\Users\marti\gemini-fs\src\test\workspaceFolders.test.ts
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { dirnameOfWorkspacePath, formatWorkspacePath, isWorkspaceFolderRoot, parseWorkspacePath, rootsForGlob, splitRootPrefix } from '../workspaceFolders';
+
+suite('Workspace Folders Test Suite', () => {
+    const backend = vscode.Uri.file('/projects/backend');
+    const frontend = vscode.Uri.file('/projects/frontend');
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+            { uri: backend, name: 'backend', index: 0 },
+            { uri: frontend, name: 'frontend', index: 1 }
+        ]);
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('splits folder prefixes but not Windows drive letters', () => {
+        assert.deepStrictEqual(splitRootPrefix('backend:src/app.ts'), { rootName: 'backend', path: 'src/app.ts' });
+        assert.deepStrictEqual(splitRootPrefix('frontend:'), { rootName: 'frontend', path: '' });
+        assert.strictEqual(splitRootPrefix('C:\\src\\app.ts'), undefined);
+        assert.strictEqual(splitRootPrefix('src/app.ts'), undefined);
+    });
+
+    test('qualifies paths with the folder name and parses them back', () => {
+        assert.strictEqual(formatWorkspacePath(frontend, 'src/index.ts'), 'frontend:src/index.ts');
+        assert.strictEqual(formatWorkspacePath(backend, '.'), 'backend:');
+        assert.deepStrictEqual(parseWorkspacePath('Frontend:src/index.ts', backend), { rootUri: frontend, relativePath: 'src/index.ts' });
+        assert.deepStrictEqual(parseWorkspacePath('src/app.ts', backend), { rootUri: backend, relativePath: 'src/app.ts' });
+        assert.strictEqual(dirnameOfWorkspacePath('backend:app.ts'), 'backend:');
+        assert.strictEqual(dirnameOfWorkspacePath('backend:src/app.ts'), 'backend:src');
+        assert.ok(isWorkspaceFolderRoot('backend:') && !isWorkspaceFolderRoot('backend:src'));
+    });
+
+    test('keeps paths plain with a single folder open', () => {
+        sandbox.stub(vscode.workspace, 'workspaceFolders').value([{ uri: backend, name: 'backend', index: 0 }]);
+
+        assert.strictEqual(formatWorkspacePath(backend, 'src/app.ts'), 'src/app.ts');
+        assert.deepStrictEqual(rootsForGlob('src/**', backend), [{ rootUri: backend, glob: 'src/**' }]);
+    });
+
+    test('applies a glob to the folder it names, or to every folder', () => {
+        assert.deepStrictEqual(rootsForGlob('frontend:**/*.tsx', backend), [{ rootUri: frontend, glob: '**/*.tsx' }]);
+        assert.deepStrictEqual(rootsForGlob('**/*.ts', backend)?.map(root => root.rootUri), [backend, frontend]);
+        assert.strictEqual(rootsForGlob('docs:*.md', backend), undefined);
+    });
+});
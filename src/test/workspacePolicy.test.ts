@@ -0,0 +1,63 @@
+// c:\Users\marti\gemini-fs\src\test\workspacePolicy.test.ts
+import * as assert from 'assert';
+import { parseWorkspacePolicy, PolicyError } from '../workspacePolicy';
+
+suite('Workspace Policy Test Suite', () => {
+    const knownCommands = ['read', 'write', 'delete', 'help'];
+
+    test('reads paths, commands, sizes and confirmation levels', () => {
+        const { policy, problems } = parseWorkspacePolicy(JSON.stringify({
+            readOnly: ['src/generated/', 'package-lock.json'],
+            forbidden: ['secrets/**', '*.sqlite'],
+            commands: { '/delete': false, write: true },
+            maxFileSizeKB: { read: 64, context: 16 },
+            confirmation: { write: 'modal', delete: 'typed' }
+        }), '.gemini-fs.json', knownCommands);
+
+        assert.deepStrictEqual(problems, []);
+        assert.ok(policy.isReadOnly('src/generated/api.ts') && policy.isReadOnly('package-lock.json'));
+        assert.ok(!policy.isReadOnly('src/app.ts'));
+        assert.ok(policy.isForbidden('secrets/prod/db.txt') && policy.isForbidden('data/cache.sqlite'));
+        assert.ok(!policy.isForbidden('src/secrets.ts'));
+        assert.deepStrictEqual([...policy.disabledCommands], ['delete']);
+        assert.strictEqual(policy.maxReadFileSize, 64 * 1024);
+        assert.strictEqual(policy.maxContextFileSize, 16 * 1024);
+        assert.deepStrictEqual(policy.confirmation, { write: 'modal', delete: 'typed' });
+    });
+
+    test('always treats the policy file itself as read-only', () => {
+        const { policy } = parseWorkspacePolicy('{}', '.gemini-fs.json');
+        assert.ok(policy.isReadOnly('.gemini-fs.json') && policy.isReadOnly('./.gemini-fs.json'));
+        assert.ok(!policy.isReadOnly('docs/.gemini-fs.json'));
+    });
+
+    test('skips invalid entries and lists them as problems', () => {
+        const { policy, problems } = parseWorkspacePolicy(JSON.stringify({
+            readonly: ['dist/'],
+            forbidden: 'secrets/',
+            commands: { deploy: false, read: 'no' },
+            maxFileSizeKB: { read: -1, write: 10 },
+            confirmation: { delete: 'always', publish: 'modal', write: 'typed' }
+        }), 'backend:.gemini-fs.json', knownCommands);
+
+        assert.deepStrictEqual(problems, [
+            'Unknown setting "readonly".',
+            '"forbidden" must be a list of glob patterns.',
+            'Unknown command "deploy" in "commands".',
+            '"commands.read" must be true or false.',
+            '"maxFileSizeKB.read" must be a positive number.',
+            'Unknown limit "maxFileSizeKB.write" (use "read" or "context").',
+            '"confirmation.delete" must be one of preview, modal, typed.',
+            'Unknown operation "confirmation.publish" (use create, write, delete, rename, move, copy, refactor).'
+        ]);
+        assert.ok(!policy.isForbidden('secrets/key.txt') && !policy.isReadOnly('dist/app.js'));
+        assert.strictEqual(policy.disabledCommands.size, 0);
+        assert.strictEqual(policy.maxReadFileSize, undefined);
+        assert.deepStrictEqual(policy.confirmation, { write: 'typed' });
+    });
+
+    test('rejects files that are not a JSON object', () => {
+        assert.throws(() => parseWorkspacePolicy('{ "readOnly": [', '.gemini-fs.json'), (error: any) => error instanceof PolicyError && /is not valid JSON/.test(error.message));
+        assert.throws(() => parseWorkspacePolicy('["dist/"]', 'backend:.gemini-fs.json'), /backend:\.gemini-fs\.json must contain a JSON object/);
+    });
+});
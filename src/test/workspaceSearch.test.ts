@@ -0,0 +1,39 @@
+// c:\Users\marti\gemini-fs\src\test\workspaceSearch.test.ts
+import * as assert from 'assert';
+import { buildSearchRegex, findMatchesInText } from '../workspaceSearch';
+
+suite('Workspace Search Test Suite', () => {
+    test('should treat plain patterns as literals with smart case', () => {
+        const lowerCase = buildSearchRegex('a.b');
+        assert.ok(lowerCase.test('xA.Bx'));
+        lowerCase.lastIndex = 0;
+        assert.ok(!lowerCase.test('axb'));
+
+        const mixedCase = buildSearchRegex('Foo');
+        assert.ok(!mixedCase.test('foo'));
+    });
+
+    test('should accept /regex/flags patterns and reject invalid ones', () => {
+        const regex = buildSearchRegex('/colou?r/i');
+        assert.ok(regex.test('COLOR'));
+        assert.throws(() => buildSearchRegex('/(unclosed/'), SyntaxError);
+    });
+
+    test('should report one match per line with 1-based positions', () => {
+        const text = 'first line\r\n    const todo = 1; // todo again\nnothing\ntodo';
+        const matches = findMatchesInText(text, buildSearchRegex('todo'), 'src/a.ts', 10);
+
+        assert.deepStrictEqual(matches.map(m => [m.line, m.column]), [[2, 11], [4, 1]]);
+        assert.strictEqual(matches[0].preview, 'const todo = 1; // todo again');
+        assert.strictEqual(matches[0].filePath, 'src/a.ts');
+    });
+
+    test('should stop at the limit and shorten long lines around the match', () => {
+        const longLine = `${'x'.repeat(300)}needle${'y'.repeat(300)}`;
+        const matches = findMatchesInText(`${longLine}\nneedle\nneedle`, buildSearchRegex('needle'), 'big.txt', 2);
+
+        assert.strictEqual(matches.length, 2);
+        assert.ok(matches[0].preview.startsWith('…') && matches[0].preview.endsWith('…'));
+        assert.ok(matches[0].preview.includes('needle'));
+    });
+});
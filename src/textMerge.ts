@@ -0,0 +1,18 @@
+// c:\Users\marti\gemini-fs\src\textMerge.ts
+import { applyPatch, structuredPatch } from 'diff';
+
+/**
+ * Three-way merge of a proposal into a file that changed after the proposal was made: the changes from `base` to
+ * `proposed` are replayed onto `current`. Returns undefined when they conflict with the changes in `current`.
+ */
+export function mergeProposedChanges(base: string, current: string, proposed: string): string | undefined {
+    if (current === base) {
+        return proposed;
+    }
+    if (proposed === base || current === proposed) {
+        return current;
+    }
+    const patch = structuredPatch('base', 'proposed', base, proposed, '', '', { context: 3 });
+    const merged = applyPatch(current, patch, { fuzzFactor: 0 });
+    return merged === false ? undefined : merged;
+}
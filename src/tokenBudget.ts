@@ -0,0 +1,63 @@
+// c:\Users\marti\gemini-fs\src\tokenBudget.ts
+import * as vscode from 'vscode';
+
+// Input token limits of known models, matched on the model name prefix (the longest matching prefix wins)
+const MODEL_INPUT_TOKEN_LIMITS: [string, number][] = [
+    ['gemini-1.5-pro', 2_097_152],
+    ['gemini-1.5-flash', 1_048_576],
+    ['gemini-2.0', 1_048_576],
+    ['gemini-2.5', 1_048_576],
+    ['gemini-1.0-pro', 30_720],
+    ['gemini-pro', 30_720],
+];
+const DEFAULT_INPUT_TOKEN_LIMIT = 30_720; // Conservative fallback for models not in the table
+
+export const TRUNCATION_MARKER = '\n... [truncated to fit the token budget]';
+
+// What the user can do when a message would not fit into the model's context window
+export type TokenBudgetChoice = 'truncate' | 'summarize' | 'dropOldest';
+
+export function isTokenBudgetChoice(value: unknown): value is TokenBudgetChoice {
+    return value === 'truncate' || value === 'summarize' || value === 'dropOldest';
+}
+
+/**
+ * Input token budget for a model: the `geminiFS.maxInputTokens` setting when set, else the model's known limit.
+ */
+export function getInputTokenBudget(modelName: string): number {
+    const configuredBudget = vscode.workspace.getConfiguration('geminiFS').get<number>('maxInputTokens', 0);
+    if (configuredBudget > 0) {
+        return configuredBudget;
+    }
+    const normalizedName = modelName.replace(/^models\//, '');
+    const bestMatch = MODEL_INPUT_TOKEN_LIMITS
+        .filter(([prefix]) => normalizedName.startsWith(prefix))
+        .sort((a, b) => b[0].length - a[0].length)[0];
+    return bestMatch ? bestMatch[1] : DEFAULT_INPUT_TOKEN_LIMIT;
+}
+
+/**
+ * Cuts `content` down to roughly `allowedTokens`, assuming tokens are spread evenly over the text.
+ */
+export function truncateToTokenShare(content: string, tokenCount: number, allowedTokens: number): string {
+    if (tokenCount <= allowedTokens || tokenCount === 0) {
+        return content;
+    }
+    const keptCharacters = Math.max(0, Math.floor(content.length * (allowedTokens / tokenCount)) - TRUNCATION_MARKER.length);
+    return content.slice(0, keptCharacters) + TRUNCATION_MARKER;
+}
+
+/**
+ * Number of leading (oldest) entries that have to go to free at least `tokensToFree` tokens.
+ * Returns the total number of entries if even dropping all of them is not enough.
+ */
+export function countOldestToDrop(tokenCounts: number[], tokensToFree: number): number {
+    let freed = 0;
+    for (let i = 0; i < tokenCounts.length; i++) {
+        freed += tokenCounts[i];
+        if (freed >= tokensToFree) {
+            return i + 1;
+        }
+    }
+    return tokenCounts.length;
+}
@@ -0,0 +1,30 @@
+// c:\Users\marti\gemini-fs\src\types\diff.d.ts
+// Declarations for the parts of the `diff` package used by the extension host (the webview loads it untyped)
+declare module 'diff' {
+    export interface Hunk {
+        oldStart: number;
+        oldLines: number;
+        newStart: number;
+        newLines: number;
+        lines: string[];
+    }
+
+    export interface ParsedDiff {
+        oldFileName?: string;
+        newFileName?: string;
+        hunks: Hunk[];
+    }
+
+    export function structuredPatch(
+        oldFileName: string,
+        newFileName: string,
+        oldStr: string,
+        newStr: string,
+        oldHeader?: string,
+        newHeader?: string,
+        options?: { context?: number }
+    ): ParsedDiff;
+
+    // Returns false when a hunk does not fit the source
+    export function applyPatch(source: string, patch: ParsedDiff, options?: { fuzzFactor?: number }): string | false;
+}
@@ -31,26 +31,47 @@ function ensureDiffLibraryLoaded() {
 // Global state for the current file being previewed, if any.
 let activePreview = {
     filePath: null,
-    action: null, // 'create', 'write', or 'delete'
+    action: null, // 'create', 'write', 'delete', 'changeSet' or 'transfer'
     proposedContent: null, // For create/write
-    originalContent: null // For write
+    originalContent: null, // For write
+    contentHash: null, // For write, hash of the file version the proposal is based on
+    changeSetId: null // For changeSet, the files themselves stay with the extension
 };
 
+// The Gemini reply currently being streamed in, if any: { element, contentElement, text }
+let streamingResponse = null;
+
 // Define constants for message commands to improve maintainability and reduce typos
 const MESSAGE_COMMANDS = {
     // Webview to Extension
     GET_API_KEY: 'getApiKey',
+    WEBVIEW_READY: 'webviewReady', // Asks the extension to replay the saved conversation
     SEND_TO_GEMINI: 'sendToGemini',
     CONFIRM_CREATE: 'confirmCreate',
     CONFIRM_WRITE: 'confirmWrite',
     CONFIRM_DELETE: 'confirmDelete',
+    CONFIRM_CHANGE_SET: 'confirmChangeSet', // Accepted files of a /refactor change set
+    CONFIRM_TRANSFER: 'confirmTransfer', // User confirmed a /rename, /move or /copy
     DISCARD_CHANGES: 'discardChanges', // User discards a preview/confirmation
+    CANCEL_REQUEST: 'cancelRequest', // User clicked Stop while Gemini was working
+    SWITCH_SESSION: 'switchSession', // User picked another session in the dropdown
+    NEW_SESSION: 'newSession', // User clicked the New session button
+    RESOLVE_TOKEN_BUDGET: 'resolveTokenBudget', // User's choice after TOKEN_BUDGET_EXCEEDED
+    OPEN_SEARCH_RESULT: 'openSearchResult', // User clicked a file:line link of a /search result
+    ADD_SEARCH_RESULT_TO_CONTEXT: 'addSearchResultToContext', // User clicked "Add to context" on a /search result file
+    RESOLVE_INTENT: 'resolveIntent', // User's answer to INTENT_CLARIFICATION
+    COMPLETE_PATH: 'completePath', // Path typed so far after a command, answered with PATH_COMPLETIONS
 
     // Extension to Webview
     API_KEY: 'apiKey',
     GEMINI_RESPONSE: 'geminiResponse',
+    GEMINI_RESPONSE_CHUNK: 'geminiResponseChunk', // A piece of a streamed Gemini reply
+    GEMINI_RESPONSE_END: 'geminiResponseEnd', // Streamed reply finished (possibly with an error)
     SHOW_FILE_PREVIEW_CREATE: 'showFilePreviewForCreate',
     SHOW_FILE_PREVIEW_WRITE: 'showFilePreviewForWrite',
+    SHOW_STALE_WRITE_PREVIEW: 'showStaleWritePreview', // File changed between preview and confirmation: original/current/proposed
+    SHOW_CHANGE_SET_PREVIEW: 'showChangeSetPreview', // Several files changed by /refactor, accepted or rejected per file
+    SHOW_TRANSFER_PREVIEW: 'showTransferPreview', // Source and destination of a /rename, /move or /copy
     // Note: CONFIRM_DELETE is used for both directions.
     // Extension sends it to request webview to show delete UI.
     // Webview sends it back when user confirms deletion.
@@ -60,6 +81,14 @@ const MESSAGE_COMMANDS = {
     ERROR: 'error',
     SYSTEM_MESSAGE: 'systemMessage', // General system messages
     HISTORY_UPDATE: 'historyUpdate', // For restoring chat history
+    REQUEST_STATE_CHANGED: 'requestStateChanged', // Whether a Gemini request is in flight (toggles the Stop button)
+    SESSIONS_UPDATE: 'sessionsUpdate', // List of chat sessions for the session dropdown
+    TOKEN_BUDGET_EXCEEDED: 'tokenBudgetExceeded', // Message held back, user must choose how to make it fit
+    SEARCH_RESULTS: 'searchResults', // Matches of a /search, grouped by file in the chat
+    TOOL_CALL: 'toolCall', // Trace line for a file tool Gemini called during the current reply
+    INTENT_CLARIFICATION: 'intentClarification', // A free-text message looks like a file command, user must confirm it
+    COMMAND_LIST: 'commandList', // Names, usage and argument kinds of the slash commands, for autocomplete
+    PATH_COMPLETIONS: 'pathCompletions', // Workspace paths matching a COMPLETE_PATH request
 };
 
 function requestApiKey() {
@@ -68,6 +97,9 @@ function requestApiKey() {
 
 document.addEventListener('DOMContentLoaded', () => {
     const sendButton = document.getElementById('send-button');
+    const stopButton = document.getElementById('stop-button');
+    const sessionSelect = document.getElementById('session-select');
+    const newSessionButton = document.getElementById('new-session-button');
     const messageInput = document.getElementById('message-input');
     const chatMessages = document.getElementById('chat-messages'); // Renamed from chat-container for consistency
 
@@ -86,6 +118,8 @@ document.addEventListener('DOMContentLoaded', () => {
 
     // Request API key on load
     requestApiKey();
+    // Ask for the saved conversation (if any); the reply arrives after the message listener below is registered
+    vscode.postMessage({ command: MESSAGE_COMMANDS.WEBVIEW_READY });
 
     sendButton.addEventListener('click', () => {
         const message = messageInput.value;
@@ -93,6 +127,37 @@ document.addEventListener('DOMContentLoaded', () => {
             appendMessage('You', message);
             vscode.postMessage({ command: MESSAGE_COMMANDS.SEND_TO_GEMINI, text: message });
             messageInput.value = '';
+            hideCompletions();
+        }
+    });
+
+    if (stopButton) {
+        stopButton.addEventListener('click', () => {
+            vscode.postMessage({ command: MESSAGE_COMMANDS.CANCEL_REQUEST });
+            stopButton.disabled = true; // Re-enabled when the extension reports the next state change
+        });
+    }
+
+    if (sessionSelect) {
+        sessionSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: MESSAGE_COMMANDS.SWITCH_SESSION, sessionId: sessionSelect.value });
+        });
+    }
+
+    if (newSessionButton) {
+        newSessionButton.addEventListener('click', () => {
+            vscode.postMessage({ command: MESSAGE_COMMANDS.NEW_SESSION });
+        });
+    }
+
+    messageInput.addEventListener('keydown', (event) => {
+        if (handleCompletionKey(event)) {
+            return;
+        }
+        // Escape stops the running request, same as clicking Stop
+        if (event.key === 'Escape' && stopButton && !stopButton.classList.contains('hidden')) {
+            event.preventDefault();
+            stopButton.click();
         }
     });
 
@@ -103,11 +168,268 @@ document.addEventListener('DOMContentLoaded', () => {
         }
     });
 
+    // Autocomplete: command names after "/", then subcommands or workspace paths depending on the command
+    const completionList = document.getElementById('completion-list');
+    const completionStatus = document.getElementById('completion-status');
+    let availableCommands = []; // From COMMAND_LIST
+    let completionItems = []; // { label, detail, insertText, reopen }
+    let activeCompletionIndex = -1;
+    let completionTarget = null; // { start, end } of the input text the chosen item replaces
+    let pathRequestId = 0;
+    let pathRequestTimer = null;
+
+    messageInput.addEventListener('input', () => updateCompletions());
+    messageInput.addEventListener('blur', () => hideCompletions());
+    if (completionList) {
+        // Keep the focus in the textarea when an item is clicked
+        completionList.addEventListener('mousedown', (event) => event.preventDefault());
+    }
+
+    // Splits the text like the extension's command parser: whitespace-separated, quotes group (an unclosed quote runs to the end)
+    function tokenizeCommandInput(text) {
+        const tokens = [];
+        let i = 0;
+        while (i < text.length) {
+            if (/\s/.test(text[i])) {
+                i++;
+                continue;
+            }
+            const token = { start: i, end: i, value: '' };
+            while (i < text.length && !/\s/.test(text[i])) {
+                const quote = text[i];
+                if (quote !== '"' && quote !== "'") {
+                    token.value += text[i++];
+                    continue;
+                }
+                i++;
+                while (i < text.length && text[i] !== quote) {
+                    if (quote === '"' && text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+                        i++;
+                    }
+                    token.value += text[i++];
+                }
+                i++; // Closing quote, if already typed
+            }
+            token.end = Math.min(i, text.length);
+            tokens.push(token);
+        }
+        return tokens;
+    }
+
+    function quoteArgument(value) {
+        if (value !== '' && !/[\s"'\\]/.test(value) && !value.startsWith('-')) {
+            return value;
+        }
+        return `"${value.replace(/[\\"]/g, match => `\\${match}`)}"`;
+    }
+
+    function updateCompletions() {
+        clearTimeout(pathRequestTimer);
+        const requestId = ++pathRequestId; // Any path answer still on its way is for older input
+        const cursor = messageInput.selectionStart;
+        const textBeforeCursor = messageInput.value.substring(0, cursor);
+        if (cursor !== messageInput.selectionEnd || !textBeforeCursor.startsWith('/') || textBeforeCursor.includes('\n')) {
+            hideCompletions();
+            return;
+        }
+        const tokens = tokenizeCommandInput(textBeforeCursor);
+        const lastToken = tokens[tokens.length - 1];
+        const current = lastToken && lastToken.end === cursor ? lastToken : { start: cursor, end: cursor, value: '' };
+        const target = { start: current.start, end: cursor };
+
+        if (current === tokens[0]) {
+            const typedName = current.value.substring(1).toLowerCase();
+            showCompletions(availableCommands
+                .filter(command => command.name.startsWith(typedName))
+                .map(command => ({ label: `/${command.name}`, detail: command.description, insertText: `/${command.name} `, reopen: true })), target);
+            return;
+        }
+
+        const command = availableCommands.find(candidate => `/${candidate.name}` === tokens[0].value.toLowerCase());
+        if (!command || current.value.startsWith('-')) {
+            hideCompletions();
+            return;
+        }
+        // Position of the current argument, not counting flags typed before it
+        const argumentIndex = tokens.slice(1).filter(token => token !== current && token.end < current.start && !token.value.startsWith('-')).length;
+        if (argumentIndex === 0 && command.subcommands.length > 0) {
+            showCompletions(command.subcommands
+                .filter(subcommand => subcommand.startsWith(current.value.toLowerCase()))
+                .map(subcommand => ({ label: subcommand, detail: '', insertText: `${subcommand} `, reopen: false })), target);
+            return;
+        }
+        if (argumentIndex >= command.pathArguments) {
+            hideCompletions();
+            return;
+        }
+        // Debounced: every keystroke would otherwise read a folder
+        pathRequestTimer = setTimeout(() => {
+            completionTarget = target;
+            vscode.postMessage({ command: MESSAGE_COMMANDS.COMPLETE_PATH, partialPath: current.value, requestId });
+        }, 100);
+    }
+
+    function showCompletions(items, target) {
+        if (!completionList || items.length === 0) {
+            hideCompletions();
+            return;
+        }
+        completionItems = items;
+        completionTarget = target;
+        completionList.innerHTML = '';
+        items.forEach((item, index) => {
+            const option = document.createElement('li');
+            option.id = `completion-item-${index}`;
+            option.setAttribute('role', 'option');
+            option.textContent = item.label;
+            if (item.detail) {
+                const detail = document.createElement('span');
+                detail.className = 'completion-detail';
+                detail.textContent = item.detail;
+                option.appendChild(detail);
+            }
+            option.addEventListener('click', () => acceptCompletion(index));
+            completionList.appendChild(option);
+        });
+        completionList.classList.remove('hidden');
+        messageInput.setAttribute('aria-expanded', 'true');
+        if (completionStatus) {
+            completionStatus.textContent = `${items.length} suggestion${items.length === 1 ? '' : 's'}. Use the arrow keys to choose, Tab or Enter to insert.`;
+        }
+        setActiveCompletion(0);
+    }
+
+    function hideCompletions() {
+        clearTimeout(pathRequestTimer);
+        pathRequestId++;
+        completionItems = [];
+        activeCompletionIndex = -1;
+        if (completionList) {
+            completionList.classList.add('hidden');
+            completionList.innerHTML = '';
+        }
+        messageInput.setAttribute('aria-expanded', 'false');
+        messageInput.removeAttribute('aria-activedescendant');
+    }
+
+    function setActiveCompletion(index) {
+        activeCompletionIndex = index;
+        Array.from(completionList.children).forEach((option, optionIndex) => {
+            option.setAttribute('aria-selected', optionIndex === index ? 'true' : 'false');
+        });
+        const activeOption = document.getElementById(`completion-item-${index}`);
+        if (activeOption) {
+            messageInput.setAttribute('aria-activedescendant', activeOption.id);
+            activeOption.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    function acceptCompletion(index) {
+        const item = completionItems[index];
+        if (!item || !completionTarget) {
+            return;
+        }
+        const text = messageInput.value;
+        messageInput.value = text.substring(0, completionTarget.start) + item.insertText + text.substring(completionTarget.end);
+        const cursor = completionTarget.start + item.insertText.length;
+        messageInput.setSelectionRange(cursor, cursor);
+        hideCompletions();
+        if (item.reopen) {
+            updateCompletions(); // Next level: a folder's entries, or the arguments of a command
+        }
+    }
+
+    // Returns true if the key was used by the open suggestion list
+    function handleCompletionKey(event) {
+        if (event.key === ' ' && event.ctrlKey) {
+            event.preventDefault();
+            updateCompletions();
+            return true;
+        }
+        if (completionItems.length === 0) {
+            return false;
+        }
+        switch (event.key) {
+            case 'ArrowDown':
+                setActiveCompletion((activeCompletionIndex + 1) % completionItems.length);
+                break;
+            case 'ArrowUp':
+                setActiveCompletion((activeCompletionIndex - 1 + completionItems.length) % completionItems.length);
+                break;
+            case 'Tab':
+            case 'Enter':
+                if (event.shiftKey) {
+                    return false;
+                }
+                acceptCompletion(activeCompletionIndex);
+                break;
+            case 'Escape':
+                hideCompletions();
+                break;
+            default:
+                return false;
+        }
+        event.preventDefault();
+        return true;
+    }
+
     function clearAndHidePreview() {
         filePreviewContentElement.innerHTML = '';
         fileNameDisplayElement.textContent = '';
         filePreviewArea.classList.add('hidden');
-        activePreview = { filePath: null, action: null, proposedContent: null, originalContent: null };
+        activePreview = { filePath: null, action: null, proposedContent: null, originalContent: null, contentHash: null, changeSetId: null };
+    }
+
+    // Line-by-line diff of two versions of a file, as a <pre> with +/- prefixed spans
+    function buildDiffElement(Diff, originalContent, proposedContent) {
+        const preElement = document.createElement('pre');
+        const codeElement = document.createElement('code');
+        const diffResult = Diff.diffLines(originalContent, proposedContent, { newlineIsToken: true });
+        const fragment = document.createDocumentFragment();
+        diffResult.forEach((part) => {
+            const span = document.createElement('span');
+            span.className = part.added ? 'diff-added' : part.removed ? 'diff-removed' : 'diff-common';
+
+            let linePrefix = '  '; // For common lines
+            if (part.added) {
+                linePrefix = '+ ';
+            } else if (part.removed) {
+                linePrefix = '- ';
+            }
+
+            const lines = part.value.split('\n');
+            const isLastLineEmptyDueToTrailingNewline = lines.length > 1 && lines[lines.length - 1] === '';
+            let processedText = lines
+                .slice(0, isLastLineEmptyDueToTrailingNewline ? lines.length - 1 : lines.length)
+                .map(line => `${linePrefix}${line}`)
+                .join('\n');
+            if (isLastLineEmptyDueToTrailingNewline) {
+                processedText += '\n';
+            }
+            span.textContent = processedText;
+            fragment.appendChild(span);
+        });
+        codeElement.appendChild(fragment);
+        preElement.appendChild(codeElement);
+        return preElement;
+    }
+
+    // Collapsed list of the parts of Gemini's response that were left out of the file (fences, explanations)
+    function appendStrippedTextNotice(strippedText) {
+        if (!Array.isArray(strippedText) || strippedText.length === 0) {
+            return;
+        }
+        const details = document.createElement('details');
+        details.className = 'stripped-text';
+        const summary = document.createElement('summary');
+        summary.textContent = `Removed from Gemini's response (${strippedText.length} part${strippedText.length === 1 ? '' : 's'})`;
+        details.appendChild(summary);
+        strippedText.forEach(text => {
+            const pre = document.createElement('pre');
+            pre.textContent = text;
+            details.appendChild(pre);
+        });
+        filePreviewContentElement.appendChild(details);
     }
 
     function showPreviewArea() {
@@ -127,9 +449,192 @@ document.addEventListener('DOMContentLoaded', () => {
         [MESSAGE_COMMANDS.GEMINI_RESPONSE]: (message) => {
             appendMessage(message.sender || 'Gemini', message.text, message.isError);
         },
+        [MESSAGE_COMMANDS.GEMINI_RESPONSE_CHUNK]: (message) => {
+            if (!streamingResponse) {
+                const element = appendMessage('Gemini', '');
+                const contentElement = document.createElement('span');
+                contentElement.classList.add('streaming-content');
+                element.appendChild(contentElement);
+                element.classList.add('streaming');
+                streamingResponse = { element, contentElement, text: '' };
+            }
+            streamingResponse.text += message.text;
+            // Plain text while streaming; links and code blocks are rendered once the reply is complete
+            streamingResponse.contentElement.textContent = streamingResponse.text;
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        },
+        [MESSAGE_COMMANDS.GEMINI_RESPONSE_END]: (message) => {
+            const finalText = message.text || (streamingResponse ? streamingResponse.text : '');
+            if (streamingResponse) {
+                streamingResponse.element.classList.remove('streaming');
+                if (finalText) {
+                    streamingResponse.contentElement.textContent = '';
+                    streamingResponse.contentElement.appendChild(createMessageContentWithLinks(finalText));
+                } else {
+                    streamingResponse.element.remove();
+                }
+            } else if (finalText) {
+                appendMessage('Gemini', finalText);
+            }
+            streamingResponse = null;
+            if (message.isError && message.errorText) {
+                appendMessage('System', message.errorText, true, true);
+            } else if (message.cancelled || message.noticeText) {
+                appendMessage('System', message.noticeText || 'Request cancelled.', false, true);
+            }
+        },
+        [MESSAGE_COMMANDS.TOOL_CALL]: (message) => {
+            const element = appendMessage('System', `Tool call: ${message.text}`, false, true);
+            element.classList.add('tool-call');
+            if (streamingResponse) {
+                // Keep the reply in one bubble below the calls it is based on, matching the saved transcript
+                chatMessages.insertBefore(element, streamingResponse.element);
+            }
+        },
+        [MESSAGE_COMMANDS.TOKEN_BUDGET_EXCEEDED]: (message) => {
+            const element = appendMessage('System', message.text, false, true);
+            element.classList.add('confirmation');
+            const choices = [
+                ['truncate', 'Truncate context'],
+                ['summarize', 'Summarize context'],
+                ['dropOldest', 'Drop oldest context'],
+                ['cancel', "Don't send"]
+            ];
+            const buttonRow = document.createElement('div');
+            buttonRow.setAttribute('role', 'group');
+            buttonRow.setAttribute('aria-label', 'How to fit the message into the token budget');
+            choices.forEach(([choice, label]) => {
+                const button = document.createElement('button');
+                button.textContent = label;
+                button.onclick = () => {
+                    vscode.postMessage({ command: MESSAGE_COMMANDS.RESOLVE_TOKEN_BUDGET, choice });
+                    buttonRow.remove(); // One answer per prompt
+                };
+                buttonRow.appendChild(button);
+            });
+            element.appendChild(buttonRow);
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        },
+        [MESSAGE_COMMANDS.INTENT_CLARIFICATION]: (message) => {
+            const element = appendMessage('System', message.text, false, true);
+            element.classList.add('confirmation');
+            const choices = [
+                ['run', `Run ${message.proposedCommand}`],
+                ['chat', 'Answer as chat'],
+                ['cancel', 'Cancel']
+            ];
+            const buttonRow = document.createElement('div');
+            buttonRow.setAttribute('role', 'group');
+            buttonRow.setAttribute('aria-label', 'How to handle the message');
+            choices.forEach(([choice, label]) => {
+                const button = document.createElement('button');
+                button.textContent = label;
+                button.onclick = () => {
+                    vscode.postMessage({ command: MESSAGE_COMMANDS.RESOLVE_INTENT, choice });
+                    buttonRow.remove(); // One answer per prompt
+                };
+                buttonRow.appendChild(button);
+            });
+            element.appendChild(buttonRow);
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        },
+        [MESSAGE_COMMANDS.COMMAND_LIST]: (message) => {
+            availableCommands = Array.isArray(message.commands) ? message.commands : [];
+        },
+        [MESSAGE_COMMANDS.PATH_COMPLETIONS]: (message) => {
+            if (message.requestId !== pathRequestId || document.activeElement !== messageInput) {
+                return; // Answer to input that has changed since
+            }
+            const items = (message.items || []).map(item => ({
+                label: item.value,
+                detail: '',
+                insertText: quoteArgument(item.value) + (item.isDirectory ? '' : ' '),
+                reopen: item.isDirectory
+            }));
+            showCompletions(items, completionTarget);
+        },
+        [MESSAGE_COMMANDS.SESSIONS_UPDATE]: (message) => {
+            if (!sessionSelect || !Array.isArray(message.sessions)) {
+                return;
+            }
+            sessionSelect.innerHTML = '';
+            message.sessions.forEach(session => {
+                const option = document.createElement('option');
+                option.value = session.id;
+                option.textContent = session.name;
+                option.selected = !!session.active;
+                sessionSelect.appendChild(option);
+            });
+        },
+        [MESSAGE_COMMANDS.REQUEST_STATE_CHANGED]: (message) => {
+            if (!stopButton) {
+                return;
+            }
+            stopButton.classList.toggle('hidden', !message.busy);
+            stopButton.disabled = false;
+        },
         [MESSAGE_COMMANDS.SYSTEM_MESSAGE]: (message) => {
             appendMessage('System', message.text, message.isError, true);
         },
+        [MESSAGE_COMMANDS.SEARCH_RESULTS]: (message) => {
+            if (!chatMessages || message.matches.length === 0) {
+                return;
+            }
+            const resultsElement = document.createElement('div');
+            resultsElement.classList.add('message', 'system-message', 'search-results');
+            resultsElement.setAttribute('aria-label', `Search results for ${message.pattern}`);
+
+            const matchesByFile = new Map();
+            message.matches.forEach(match => {
+                if (!matchesByFile.has(match.filePath)) {
+                    matchesByFile.set(match.filePath, []);
+                }
+                matchesByFile.get(match.filePath).push(match);
+            });
+
+            matchesByFile.forEach((matches, filePath) => {
+                const fileElement = document.createElement('div');
+                fileElement.classList.add('search-result-file');
+
+                const header = document.createElement('div');
+                header.classList.add('search-result-header');
+                const fileName = document.createElement('strong');
+                fileName.textContent = `${filePath} (${matches.length})`;
+                const addButton = document.createElement('button');
+                addButton.textContent = 'Add to context';
+                addButton.title = `Add ${filePath} to the chat context`;
+                addButton.onclick = () => {
+                    vscode.postMessage({ command: MESSAGE_COMMANDS.ADD_SEARCH_RESULT_TO_CONTEXT, filePath });
+                    addButton.disabled = true;
+                };
+                header.appendChild(fileName);
+                header.appendChild(addButton);
+                fileElement.appendChild(header);
+
+                const list = document.createElement('ul');
+                matches.forEach(match => {
+                    const item = document.createElement('li');
+                    const link = document.createElement('a');
+                    link.href = '#';
+                    link.textContent = `${match.filePath}:${match.line}`;
+                    link.onclick = (event) => {
+                        event.preventDefault();
+                        vscode.postMessage({ command: MESSAGE_COMMANDS.OPEN_SEARCH_RESULT, filePath: match.filePath, line: match.line, column: match.column });
+                    };
+                    const preview = document.createElement('code');
+                    preview.textContent = match.preview;
+                    item.appendChild(link);
+                    item.appendChild(document.createTextNode(' '));
+                    item.appendChild(preview);
+                    list.appendChild(item);
+                });
+                fileElement.appendChild(list);
+                resultsElement.appendChild(fileElement);
+            });
+
+            chatMessages.appendChild(resultsElement);
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        },
         [MESSAGE_COMMANDS.HISTORY_UPDATE]: (message) => {
             if (chatMessages && message.history) {
                 chatMessages.innerHTML = ''; // Clear existing messages
@@ -177,6 +682,8 @@ document.addEventListener('DOMContentLoaded', () => {
                 filePreviewContentElement.appendChild(infoMessage);
             }
 
+            appendStrippedTextNotice(message.strippedText);
+
             const preElement = document.createElement('pre');
             const codeElement = document.createElement('code');
             codeElement.textContent = message.proposedContent;
@@ -211,6 +718,7 @@ document.addEventListener('DOMContentLoaded', () => {
             activePreview.action = 'write';
             activePreview.proposedContent = message.proposedContent;
             activePreview.originalContent = message.originalContent;
+            activePreview.contentHash = message.contentHash || null;
 
             fileNameDisplayElement.textContent = `Preview changes for: ${message.filePath}`;
             filePreviewContentElement.innerHTML = ''; // Clear previous content
@@ -221,6 +729,8 @@ document.addEventListener('DOMContentLoaded', () => {
                 filePreviewContentElement.appendChild(infoMessage);
             }
 
+            appendStrippedTextNotice(message.strippedText);
+
             try {
                 Diff = await ensureDiffLibraryLoaded(); // Await the library
             } catch (error) {
@@ -248,39 +758,7 @@ document.addEventListener('DOMContentLoaded', () => {
                 filePreviewContentElement.appendChild(preProposed);
 
             } else {
-                const preElement = document.createElement('pre');
-                const codeElement = document.createElement('code');
-
-                // --- Diff Rendering Logic ---
-                const diffResult = Diff.diffLines(message.originalContent || '', message.proposedContent || '', { newlineIsToken: true });
-                const fragment = document.createDocumentFragment();
-                diffResult.forEach((part) => {
-                    const span = document.createElement('span');
-                    span.className = part.added ? 'diff-added' : part.removed ? 'diff-removed' : 'diff-common';
-
-                    let linePrefix = '  '; // For common lines
-                    if (part.added) {
-                        linePrefix = '+ ';
-                    } else if (part.removed) {
-                        linePrefix = '- ';
-                    }
-
-                    const lines = part.value.split('\n');
-                    const isLastLineEmptyDueToTrailingNewline = lines.length > 1 && lines[lines.length - 1] === '';
-                    let processedText = lines
-                        .slice(0, isLastLineEmptyDueToTrailingNewline ? lines.length - 1 : lines.length)
-                        .map(line => `${linePrefix}${line}`)
-                        .join('\n');
-                    if (isLastLineEmptyDueToTrailingNewline) {
-                        processedText += '\n';
-                    }
-                    span.textContent = processedText;
-                    fragment.appendChild(span);
-                });
-                codeElement.appendChild(fragment);
-                // --- End Diff Rendering Logic ---
-                preElement.appendChild(codeElement);
-                filePreviewContentElement.appendChild(preElement);
+                filePreviewContentElement.appendChild(buildDiffElement(Diff, message.originalContent || '', message.proposedContent || ''));
             }
 
             const actionButton = document.createElement('button');
@@ -289,7 +767,9 @@ document.addEventListener('DOMContentLoaded', () => {
                 vscode.postMessage({
                     command: MESSAGE_COMMANDS.CONFIRM_WRITE,
                     filePath: activePreview.filePath,
-                    proposedContent: activePreview.proposedContent
+                    proposedContent: activePreview.proposedContent,
+                    originalContent: activePreview.originalContent,
+                    contentHash: activePreview.contentHash
                 });
                 clearAndHidePreview();
             };
@@ -305,6 +785,174 @@ document.addEventListener('DOMContentLoaded', () => {
             filePreviewContentElement.appendChild(discardButton);
             showPreviewArea();
         },
+        [MESSAGE_COMMANDS.SHOW_STALE_WRITE_PREVIEW]: async (message) => {
+            let Diff;
+            activePreview.filePath = message.filePath;
+            activePreview.action = 'write';
+            activePreview.originalContent = message.currentContent; // Whatever is applied from here builds on the current version
+            activePreview.proposedContent = message.proposedContent;
+            activePreview.contentHash = message.contentHash;
+
+            fileNameDisplayElement.textContent = `File changed since the preview: ${message.filePath}`;
+            filePreviewContentElement.innerHTML = '';
+
+            const warning = document.createElement('p');
+            warning.className = 'warning-message';
+            warning.textContent = `${message.filePath} was modified after Gemini's changes were proposed. Nothing has been written yet.`;
+            filePreviewContentElement.appendChild(warning);
+
+            try {
+                Diff = await ensureDiffLibraryLoaded();
+            } catch (error) {
+                // Already reported by ensureDiffLibraryLoaded
+            }
+            const hasDiff = Diff && typeof Diff.diffLines === 'function';
+            // Three views: what happened to the file, what Gemini wants, and what applying the merge would do
+            const sections = [
+                { title: 'Changes made since the preview (original → current)', from: message.originalContent, to: message.currentContent },
+                { title: "Gemini's proposal (original → proposed)", from: message.originalContent, to: message.proposedContent }
+            ];
+            if (message.mergedContent !== null && message.mergedContent !== undefined) {
+                sections.push({ title: 'Result of merging both (current → merged)', from: message.currentContent, to: message.mergedContent });
+            }
+            sections.forEach(section => {
+                const details = document.createElement('details');
+                details.className = 'preview-section';
+                details.open = true;
+                const summary = document.createElement('summary');
+                summary.textContent = section.title;
+                details.appendChild(summary);
+                if (hasDiff) {
+                    details.appendChild(buildDiffElement(Diff, section.from || '', section.to || ''));
+                } else {
+                    const pre = document.createElement('pre');
+                    pre.textContent = section.to || '';
+                    details.appendChild(pre);
+                }
+                filePreviewContentElement.appendChild(details);
+            });
+            if (message.mergedContent === null || message.mergedContent === undefined) {
+                const conflict = document.createElement('p');
+                conflict.className = 'warning-message';
+                conflict.textContent = "The two sets of changes overlap, so they can't be merged automatically.";
+                filePreviewContentElement.appendChild(conflict);
+            }
+
+            const confirmWith = (proposedContent) => {
+                vscode.postMessage({
+                    command: MESSAGE_COMMANDS.CONFIRM_WRITE,
+                    filePath: activePreview.filePath,
+                    proposedContent,
+                    originalContent: activePreview.originalContent,
+                    contentHash: activePreview.contentHash
+                });
+                clearAndHidePreview();
+            };
+
+            if (message.mergedContent !== null && message.mergedContent !== undefined) {
+                const mergeButton = document.createElement('button');
+                mergeButton.textContent = 'Apply Merged';
+                mergeButton.onclick = () => confirmWith(message.mergedContent);
+                filePreviewContentElement.appendChild(mergeButton);
+            }
+
+            const overwriteButton = document.createElement('button');
+            overwriteButton.textContent = 'Overwrite With Proposal';
+            overwriteButton.title = 'Replaces the current file, including the changes made since the preview';
+            overwriteButton.onclick = () => confirmWith(message.proposedContent);
+            filePreviewContentElement.appendChild(overwriteButton);
+
+            const discardButton = document.createElement('button');
+            discardButton.textContent = 'Discard';
+            discardButton.onclick = () => {
+                vscode.postMessage({ command: MESSAGE_COMMANDS.DISCARD_CHANGES, filePath: activePreview.filePath, action: 'write' });
+                clearAndHidePreview();
+            };
+            filePreviewContentElement.appendChild(discardButton);
+            showPreviewArea();
+        },
+        [MESSAGE_COMMANDS.SHOW_CHANGE_SET_PREVIEW]: async (message) => {
+            let Diff;
+            activePreview.filePath = null;
+            activePreview.action = 'changeSet';
+            activePreview.proposedContent = null;
+            activePreview.originalContent = null;
+            activePreview.changeSetId = message.changeSetId;
+
+            const files = Array.isArray(message.files) ? message.files : [];
+            fileNameDisplayElement.textContent = `Preview change set (${files.length} file${files.length === 1 ? '' : 's'})`;
+            filePreviewContentElement.innerHTML = '';
+
+            if (message.description) {
+                const infoMessage = document.createElement('p');
+                infoMessage.textContent = message.description;
+                filePreviewContentElement.appendChild(infoMessage);
+            }
+
+            try {
+                Diff = await ensureDiffLibraryLoaded();
+            } catch (error) {
+                // Already reported by ensureDiffLibraryLoaded, the files are shown without a diff
+            }
+
+            const kindLabels = { modify: 'modified', create: 'new file', delete: 'deleted' };
+            const acceptCheckboxes = [];
+            files.forEach((file, index) => {
+                // One collapsible section per file, each with its own accept checkbox
+                const details = document.createElement('details');
+                details.className = 'preview-section';
+                details.open = files.length <= 3;
+
+                const summary = document.createElement('summary');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = true;
+                checkbox.id = `change-set-file-${index}`;
+                checkbox.dataset.filePath = file.filePath;
+                checkbox.setAttribute('aria-label', `Accept changes to ${file.filePath}`);
+                checkbox.addEventListener('click', (event) => event.stopPropagation()); // Don't toggle the section
+                acceptCheckboxes.push(checkbox);
+                summary.appendChild(checkbox);
+                summary.appendChild(document.createTextNode(` ${file.filePath} (${kindLabels[file.kind] || file.kind})`));
+                details.appendChild(summary);
+
+                if (file.kind === 'delete') {
+                    const note = document.createElement('p');
+                    note.className = 'warning-message';
+                    note.textContent = 'This file will be deleted.';
+                    details.appendChild(note);
+                } else if (Diff && typeof Diff.diffLines === 'function') {
+                    details.appendChild(buildDiffElement(Diff, file.originalContent || '', file.proposedContent || ''));
+                } else {
+                    const pre = document.createElement('pre');
+                    pre.textContent = file.proposedContent || '';
+                    details.appendChild(pre);
+                }
+                filePreviewContentElement.appendChild(details);
+            });
+
+            const actionButton = document.createElement('button');
+            actionButton.textContent = 'Apply Selected Changes';
+            actionButton.onclick = () => {
+                vscode.postMessage({
+                    command: MESSAGE_COMMANDS.CONFIRM_CHANGE_SET,
+                    changeSetId: activePreview.changeSetId,
+                    acceptedPaths: acceptCheckboxes.filter(box => box.checked).map(box => box.dataset.filePath)
+                });
+                clearAndHidePreview();
+            };
+
+            const discardButton = document.createElement('button');
+            discardButton.textContent = 'Discard All';
+            discardButton.onclick = () => {
+                vscode.postMessage({ command: MESSAGE_COMMANDS.DISCARD_CHANGES, filePath: 'the change set', action: 'changeSet' });
+                clearAndHidePreview();
+            };
+
+            filePreviewContentElement.appendChild(actionButton);
+            filePreviewContentElement.appendChild(discardButton);
+            showPreviewArea();
+        },
         [MESSAGE_COMMANDS.CONFIRM_DELETE]: (message) => { // This handles the request from extension to show delete UI
             activePreview.filePath = message.filePath;
             activePreview.action = 'delete';
@@ -339,6 +987,47 @@ document.addEventListener('DOMContentLoaded', () => {
             filePreviewContentElement.appendChild(discardButton);
             showPreviewArea();
         },
+        [MESSAGE_COMMANDS.SHOW_TRANSFER_PREVIEW]: (message) => {
+            activePreview.filePath = message.sourcePath;
+            activePreview.action = 'transfer';
+            activePreview.proposedContent = null;
+            activePreview.originalContent = null;
+
+            const verb = message.operation.charAt(0).toUpperCase() + message.operation.slice(1);
+            fileNameDisplayElement.textContent = `Confirm ${verb}: ${message.sourcePath} → ${message.destinationPath}`;
+            filePreviewContentElement.innerHTML = '';
+
+            const confirmMessageEl = document.createElement('p');
+            confirmMessageEl.textContent = message.message;
+            if (message.overwrite) {
+                confirmMessageEl.classList.add('warning-message');
+            }
+            filePreviewContentElement.appendChild(confirmMessageEl);
+
+            const confirmButton = document.createElement('button');
+            confirmButton.textContent = `Confirm ${verb}`;
+            confirmButton.onclick = () => {
+                vscode.postMessage({
+                    command: MESSAGE_COMMANDS.CONFIRM_TRANSFER,
+                    operation: message.operation,
+                    sourcePath: message.sourcePath,
+                    destinationPath: message.destinationPath,
+                    overwrite: message.overwrite
+                });
+                clearAndHidePreview();
+            };
+
+            const discardButton = document.createElement('button');
+            discardButton.textContent = 'Cancel';
+            discardButton.onclick = () => {
+                vscode.postMessage({ command: MESSAGE_COMMANDS.DISCARD_CHANGES, filePath: message.sourcePath, destinationPath: message.destinationPath, action: message.operation });
+                clearAndHidePreview();
+            };
+
+            filePreviewContentElement.appendChild(confirmButton);
+            filePreviewContentElement.appendChild(discardButton);
+            showPreviewArea();
+        },
         [MESSAGE_COMMANDS.CHANGES_APPLIED]: (message) => {
             appendMessage('System', `Changes applied to ${message.filePath}`, false, true);
         },
@@ -447,6 +1136,7 @@ document.addEventListener('DOMContentLoaded', () => {
         } else {
             console.error("chatMessages element not found, cannot append message:", sender, text);
         }
+        return messageElement;
     }
 
     // Helper function to escape HTML for safe rendering in pre/code tags if not using textContent
@@ -0,0 +1,116 @@
+// c:\Users\marti\gemini-fs\src\workspaceFolders.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// In a multi-root workspace, paths name their workspace folder: "backend:src/app.ts". This qualified form is what
+// the chat shows, what context entries and the journal store, and what resolvePathUtil accepts. With a single
+// folder open, paths stay plain ("src/app.ts"), so sessions saved before multi-root support keep working.
+
+export function getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+    return vscode.workspace.workspaceFolders ?? [];
+}
+
+export function isMultiRootWorkspace(): boolean {
+    return getWorkspaceFolders().length > 1;
+}
+
+/**
+ * Splits "backend:src/app.ts" into the folder name and the path inside it. A single letter followed by a slash
+ * is a Windows drive ("C:\src"), not a folder name.
+ */
+export function splitRootPrefix(rawPath: string): { rootName: string, path: string } | undefined {
+    const match = rawPath.match(/^([^/\\:]+):(.*)$/s);
+    if (!match || (match[1].length === 1 && /^[/\\]/.test(match[2]))) {
+        return undefined;
+    }
+    return { rootName: match[1], path: match[2] };
+}
+
+export function findWorkspaceFolder(name: string): vscode.WorkspaceFolder | undefined {
+    const folders = getWorkspaceFolders();
+    return folders.find(folder => folder.name === name) ?? folders.find(folder => folder.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * The path as shown and stored: prefixed with the folder name in multi-root workspaces. A folder's root is "backend:".
+ */
+export function formatWorkspacePath(rootUri: vscode.Uri, relativePath: string): string {
+    if (!isMultiRootWorkspace()) {
+        return relativePath;
+    }
+    const folder = getWorkspaceFolders().find(candidate => candidate.uri.toString() === rootUri.toString());
+    if (!folder) {
+        return relativePath;
+    }
+    return `${folder.name}:${relativePath === '.' ? '' : relativePath}`;
+}
+
+/**
+ * The (qualified) workspace path of `uri`, or undefined if it is outside every workspace folder or is a folder root.
+ * `defaultRoot` applies when no workspace folder claims the uri.
+ */
+export function toWorkspacePath(uri: vscode.Uri, defaultRoot: vscode.Uri | undefined): string | undefined {
+    const root = (isMultiRootWorkspace() ? vscode.workspace.getWorkspaceFolder(uri)?.uri : undefined) ?? defaultRoot;
+    if (!root || uri.scheme !== root.scheme) {
+        return undefined;
+    }
+    const relativePath = path.relative(root.fsPath, uri.fsPath).replace(/\\/g, '/');
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return undefined;
+    }
+    return formatWorkspacePath(root, relativePath);
+}
+
+/**
+ * Inverse of formatWorkspacePath for paths that were stored earlier. Unqualified paths belong to `defaultRoot`.
+ */
+export function parseWorkspacePath(workspacePath: string, defaultRoot: vscode.Uri): { rootUri: vscode.Uri, relativePath: string } {
+    const prefixed = splitRootPrefix(workspacePath);
+    const folder = prefixed ? findWorkspaceFolder(prefixed.rootName) : undefined;
+    return folder && prefixed
+        ? { rootUri: folder.uri, relativePath: prefixed.path }
+        : { rootUri: defaultRoot, relativePath: workspacePath };
+}
+
+// True for "." and for a folder root such as "backend:"
+export function isWorkspaceFolderRoot(workspacePath: string): boolean {
+    return workspacePath === '.' || splitRootPrefix(workspacePath)?.path === '';
+}
+
+// path.posix.dirname that keeps the folder prefix: "backend:a.ts" → "backend:"
+export function dirnameOfWorkspacePath(workspacePath: string): string {
+    const prefixed = splitRootPrefix(workspacePath);
+    if (!prefixed) {
+        return path.posix.dirname(workspacePath);
+    }
+    const directory = path.posix.dirname(prefixed.path);
+    return `${prefixed.rootName}:${directory === '.' ? '' : directory}`;
+}
+
+export function workspacePathToUri(workspacePath: string, defaultRoot: vscode.Uri): vscode.Uri {
+    const { rootUri, relativePath } = parseWorkspacePath(workspacePath, defaultRoot);
+    return vscode.Uri.joinPath(rootUri, relativePath.replace(/^[/\\]+/, ''));
+}
+
+/**
+ * The folders a glob applies to: the one it names ("frontend:src/**"), otherwise all of them (or just `defaultRoot`
+ * outside multi-root workspaces). Returns undefined for an unknown folder name.
+ */
+export function rootsForGlob(glob: string | undefined, defaultRoot: vscode.Uri): { rootUri: vscode.Uri, glob: string | undefined }[] | undefined {
+    const prefixed = glob !== undefined ? splitRootPrefix(glob) : undefined;
+    if (prefixed) {
+        const folder = findWorkspaceFolder(prefixed.rootName);
+        if (folder) {
+            return [{ rootUri: folder.uri, glob: prefixed.path || undefined }];
+        }
+        if (isMultiRootWorkspace()) {
+            return undefined;
+        }
+    }
+    const roots = isMultiRootWorkspace() ? getWorkspaceFolders().map(folder => folder.uri) : [defaultRoot];
+    return roots.map(rootUri => ({ rootUri, glob }));
+}
+
+export function describeWorkspaceFolders(): string {
+    return getWorkspaceFolders().map(folder => `${folder.name}:`).join(', ');
+}
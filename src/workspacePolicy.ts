@@ -0,0 +1,258 @@
+// c:\Users\marti\gemini-fs\src\workspacePolicy.ts
+import * as vscode from 'vscode';
+import { createDeniedPathMatcher } from './pathSecurity';
+import { formatWorkspacePath, getWorkspaceFolders } from './workspaceFolders';
+
+// Read from the root of each workspace folder. Paths and globs in it are relative to that folder.
+export const POLICY_FILE_NAME = '.gemini-fs.json';
+
+export type ConfirmationLevel = 'preview' | 'modal' | 'typed';
+export type PolicyOperation = 'create' | 'write' | 'delete' | 'rename' | 'move' | 'copy' | 'refactor';
+
+const CONFIRMATION_LEVELS: ConfirmationLevel[] = ['preview', 'modal', 'typed'];
+const POLICY_OPERATIONS: PolicyOperation[] = ['create', 'write', 'delete', 'rename', 'move', 'copy', 'refactor'];
+const POLICY_KEYS = ['readOnly', 'forbidden', 'commands', 'maxFileSizeKB', 'confirmation'];
+
+/**
+ * What a workspace folder's .gemini-fs.json allows. `source` names the file for violation messages;
+ * a folder without a policy file gets EMPTY_POLICY, which allows everything.
+ */
+export interface WorkspacePolicy {
+    source: string | undefined;
+    isForbidden(relativePath: string): boolean;
+    isReadOnly(relativePath: string): boolean;
+    disabledCommands: ReadonlySet<string>;
+    maxReadFileSize: number | undefined; // Bytes
+    maxContextFileSize: number | undefined; // Bytes
+    confirmation: Partial<Record<PolicyOperation, ConfirmationLevel>>;
+}
+
+export const EMPTY_POLICY: WorkspacePolicy = {
+    source: undefined,
+    isForbidden: () => false,
+    isReadOnly: () => false,
+    disabledCommands: new Set(),
+    maxReadFileSize: undefined,
+    maxContextFileSize: undefined,
+    confirmation: {}
+};
+
+export class PolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PolicyError';
+    }
+}
+
+function readStringArray(raw: Record<string, unknown>, key: string, problems: string[]): string[] {
+    const value = raw[key];
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        problems.push(`"${key}" must be a list of glob patterns.`);
+        return [];
+    }
+    return value as string[];
+}
+
+function readObject(raw: Record<string, unknown>, key: string, problems: string[]): Record<string, unknown> {
+    const value = raw[key];
+    if (value === undefined) {
+        return {};
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        problems.push(`"${key}" must be an object.`);
+        return {};
+    }
+    return value as Record<string, unknown>;
+}
+
+/**
+ * Parses the text of a policy file. Throws a PolicyError if it is not a JSON object; entries that don't make
+ * sense (unknown keys, wrong types, unknown commands when `knownCommands` is given) are skipped and listed in `problems`.
+ */
+export function parseWorkspacePolicy(text: string, source: string, knownCommands?: readonly string[]): { policy: WorkspacePolicy, problems: string[] } {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error: any) {
+        throw new PolicyError(`${source} is not valid JSON: ${error.message}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new PolicyError(`${source} must contain a JSON object.`);
+    }
+    const policyJson = raw as Record<string, unknown>;
+    const problems = Object.keys(policyJson).filter(key => !POLICY_KEYS.includes(key)).map(key => `Unknown setting "${key}".`);
+
+    const forbidden = readStringArray(policyJson, 'forbidden', problems);
+    const readOnly = readStringArray(policyJson, 'readOnly', problems);
+
+    const disabledCommands = new Set<string>();
+    for (const [name, enabled] of Object.entries(readObject(policyJson, 'commands', problems))) {
+        const commandName = name.replace(/^\//, '');
+        if (typeof enabled !== 'boolean') {
+            problems.push(`"commands.${name}" must be true or false.`);
+        } else if (knownCommands && !knownCommands.includes(commandName)) {
+            problems.push(`Unknown command "${name}" in "commands".`);
+        } else if (commandName === 'help') {
+            problems.push('/help cannot be disabled.');
+        } else if (!enabled) {
+            disabledCommands.add(commandName);
+        }
+    }
+
+    const sizes: { read?: number, context?: number } = {};
+    for (const [kind, size] of Object.entries(readObject(policyJson, 'maxFileSizeKB', problems))) {
+        if (kind !== 'read' && kind !== 'context') {
+            problems.push(`Unknown limit "maxFileSizeKB.${kind}" (use "read" or "context").`);
+        } else if (typeof size !== 'number' || !(size > 0)) {
+            problems.push(`"maxFileSizeKB.${kind}" must be a positive number.`);
+        } else {
+            sizes[kind] = Math.floor(size * 1024);
+        }
+    }
+
+    const confirmation: Partial<Record<PolicyOperation, ConfirmationLevel>> = {};
+    for (const [operation, level] of Object.entries(readObject(policyJson, 'confirmation', problems))) {
+        if (!POLICY_OPERATIONS.includes(operation as PolicyOperation)) {
+            problems.push(`Unknown operation "confirmation.${operation}" (use ${POLICY_OPERATIONS.join(', ')}).`);
+        } else if (!CONFIRMATION_LEVELS.includes(level as ConfirmationLevel)) {
+            problems.push(`"confirmation.${operation}" must be one of ${CONFIRMATION_LEVELS.join(', ')}.`);
+        } else {
+            confirmation[operation as PolicyOperation] = level as ConfirmationLevel;
+        }
+    }
+
+    const isForbidden = createDeniedPathMatcher(forbidden);
+    const matchesReadOnly = createDeniedPathMatcher(readOnly);
+    return {
+        policy: {
+            source,
+            isForbidden,
+            // The policy file itself is always read-only, or the chat could lift its own restrictions
+            isReadOnly: relativePath => relativePath.replace(/^\.?\/+/, '') === POLICY_FILE_NAME || matchesReadOnly(relativePath),
+            disabledCommands,
+            maxReadFileSize: sizes.read,
+            maxContextFileSize: sizes.context,
+            confirmation
+        },
+        problems
+    };
+}
+
+// Loaded policies by workspace folder URI; filled by WorkspacePolicyStore
+const loadedPolicies = new Map<string, WorkspacePolicy>();
+
+export function getWorkspacePolicy(rootUri: vscode.Uri | undefined): WorkspacePolicy {
+    return (rootUri && loadedPolicies.get(rootUri.toString())) || EMPTY_POLICY;
+}
+
+// The policy file that disables `commandName`, if any. Commands act on the whole workspace, so any folder can disable one.
+export function findCommandRestriction(commandName: string): string | undefined {
+    return [...loadedPolicies.values()].find(policy => policy.disabledCommands.has(commandName))?.source;
+}
+
+/**
+ * Checks a confirmed operation against the policies of the folders it touches, right before it is applied: its
+ * command must be enabled, and a 'modal' or 'typed' confirmation level asks once more on top of the chat preview
+ * (the strictest level of those folders wins). Returns why the operation must not go ahead, or undefined.
+ */
+export async function checkPolicyBeforeApplying(operation: PolicyOperation, rootUris: vscode.Uri[], description: string, typedConfirmation: string): Promise<string | undefined> {
+    const restrictedBy = findCommandRestriction(operation);
+    if (restrictedBy) {
+        return `/${operation} is disabled in this workspace by ${restrictedBy}. Nothing was changed.`;
+    }
+    let strictest: { level: ConfirmationLevel, source?: string } = { level: 'preview' };
+    for (const rootUri of rootUris) {
+        const policy = getWorkspacePolicy(rootUri);
+        const level = policy.confirmation[operation];
+        if (level && CONFIRMATION_LEVELS.indexOf(level) > CONFIRMATION_LEVELS.indexOf(strictest.level)) {
+            strictest = { level, source: policy.source };
+        }
+    }
+    if (strictest.level === 'modal') {
+        const choice = await vscode.window.showWarningMessage(description, { modal: true, detail: `${strictest.source} requires this confirmation.` }, 'Confirm');
+        return choice === 'Confirm' ? undefined : `Cancelled, nothing was changed: ${description}`;
+    }
+    if (strictest.level === 'typed') {
+        const typed = await vscode.window.showInputBox({
+            title: description,
+            prompt: `${strictest.source} requires you to type "${typedConfirmation}" to confirm.`,
+            placeHolder: typedConfirmation,
+            ignoreFocusOut: true
+        });
+        if (typed === undefined) {
+            return `Cancelled, nothing was changed: ${description}`;
+        }
+        return typed.trim() === typedConfirmation ? undefined : `Nothing was changed: the confirmation did not match "${typedConfirmation}".`;
+    }
+    return undefined;
+}
+
+/**
+ * Loads .gemini-fs.json from every workspace folder and reloads it when it changes. `onDidReload` reports each
+ * (re)load with the problems found, so the chat can tell the user which rules are in force.
+ */
+export class WorkspacePolicyStore implements vscode.Disposable {
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private reloadEmitter = new vscode.EventEmitter<{ source: string, message: string }>();
+    public readonly onDidReload = this.reloadEmitter.event;
+    public ready: Promise<void>;
+
+    constructor(private knownCommands: () => readonly string[]) {
+        this.ready = this.loadAll();
+        this.disposables.push(
+            this.reloadEmitter,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => { this.ready = this.loadAll(); })
+        );
+    }
+
+    private async loadAll(): Promise<void> {
+        this.watchers.forEach(watcher => watcher.dispose());
+        loadedPolicies.clear();
+        const folders = getWorkspaceFolders();
+        this.watchers = folders.map(folder => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder.uri, POLICY_FILE_NAME));
+            const reload = () => { void this.load(folder.uri, true); };
+            watcher.onDidChange(reload);
+            watcher.onDidCreate(reload);
+            watcher.onDidDelete(reload);
+            return watcher;
+        });
+        await Promise.all(folders.map(folder => this.load(folder.uri, false)));
+    }
+
+    private async load(rootUri: vscode.Uri, announce: boolean): Promise<void> {
+        const source = formatWorkspacePath(rootUri, POLICY_FILE_NAME);
+        let text: string;
+        try {
+            text = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(rootUri, POLICY_FILE_NAME)));
+        } catch (error: any) {
+            const hadPolicy = loadedPolicies.delete(rootUri.toString());
+            if (announce && hadPolicy) {
+                this.reloadEmitter.fire({ source, message: `${source} was removed; its restrictions no longer apply.` });
+            }
+            return;
+        }
+        try {
+            const { policy, problems } = parseWorkspacePolicy(text, source, this.knownCommands());
+            loadedPolicies.set(rootUri.toString(), policy);
+            if (announce || problems.length > 0) {
+                const ignored = problems.length > 0 ? ` Ignored: ${problems.join(' ')}` : '';
+                this.reloadEmitter.fire({ source, message: `Workspace policy ${announce ? 'reloaded' : 'loaded'} from ${source}.${ignored}` });
+            }
+        } catch (error: any) {
+            // Keep enforcing the last valid version; a half-typed edit must not lift the restrictions
+            const kept = loadedPolicies.has(rootUri.toString()) ? ' The previous version stays in force.' : '';
+            this.reloadEmitter.fire({ source, message: `${error.message}${kept}` });
+        }
+    }
+
+    public dispose(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.disposables.forEach(disposable => disposable.dispose());
+        loadedPolicies.clear();
+    }
+}
@@ -0,0 +1,141 @@
+// c:\Users\marti\gemini-fs\src\workspaceSearch.ts
+import * as vscode from 'vscode';
+import { buildExcludeGlob, hasBinaryExtension, loadGitignoreFilter, looksLikeBinaryContent, toRelativePath } from './contextCollector';
+import { describeWorkspaceFolders, formatWorkspacePath, rootsForGlob } from './workspaceFolders';
+import { getDeniedPathMatcher, isRealPathInsideRoot } from './pathSecurity';
+import { getWorkspacePolicy } from './workspacePolicy';
+
+const MAX_FILES_SEARCHED = 5000; // Upper bound on files read for a single /search
+const MAX_SEARCHED_FILE_SIZE = 1024 * 1024; // Larger files are skipped, like ripgrep skips huge generated files
+const MAX_PREVIEW_LENGTH = 160;
+
+export interface SearchMatch {
+    filePath: string; // Workspace-relative, forward slashes; "folder:path" in multi-root workspaces
+    line: number; // 1-based
+    column: number; // 1-based
+    preview: string; // The matching line, shortened around the match
+}
+
+export interface SearchResult {
+    matches: SearchMatch[];
+    truncated: boolean; // Stopped at the result cap (or the file cap) before searching everything
+    filesSearched: number;
+}
+
+/**
+ * Turns a /search pattern into a regular expression. `/regex/flags` is used as a regex, anything else is a literal.
+ * Like ripgrep's --smart-case, a pattern without uppercase letters matches case-insensitively.
+ * Throws a SyntaxError for an invalid regex.
+ */
+export function buildSearchRegex(pattern: string): RegExp {
+    const regexLiteral = pattern.match(/^\/(.+)\/([imsu]*)$/);
+    if (regexLiteral) {
+        return new RegExp(regexLiteral[1], `${regexLiteral[2]}g`);
+    }
+    const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(escaped, pattern === pattern.toLowerCase() ? 'gi' : 'g');
+}
+
+/**
+ * Matches of `regex` (which must have the g flag) in `text`, one entry per matching line, at most `limit` of them.
+ */
+export function findMatchesInText(text: string, regex: RegExp, filePath: string, limit: number): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length && matches.length < limit; i++) {
+        regex.lastIndex = 0;
+        const match = regex.exec(lines[i]);
+        if (match) {
+            matches.push({ filePath, line: i + 1, column: match.index + 1, preview: buildPreview(lines[i], match.index) });
+        }
+    }
+    return matches;
+}
+
+function buildPreview(line: string, matchIndex: number): string {
+    const leadingWhitespace = line.length - line.trimStart().length;
+    let start = leadingWhitespace;
+    if (matchIndex - start > MAX_PREVIEW_LENGTH / 2) {
+        start = matchIndex - MAX_PREVIEW_LENGTH / 4;
+    }
+    const preview = line.substring(start, start + MAX_PREVIEW_LENGTH).trimEnd();
+    return `${start > leadingWhitespace ? '…' : ''}${preview}${start + MAX_PREVIEW_LENGTH < line.length ? '…' : ''}`;
+}
+
+/**
+ * Searches the text files under `workspaceRoot` (optionally limited to `glob`) for `regex`. Honors files.exclude,
+ * search.exclude and, unless search.useIgnoreFiles is off, .gitignore. Binary and very large files, denied and
+ * forbidden paths and symlinks leading out of the workspace are skipped. Open editors are searched in their current, possibly unsaved state.
+ */
+export async function searchWorkspace(workspaceRoot: vscode.Uri, regex: RegExp, glob: string | undefined, maxResults: number): Promise<SearchResult> {
+    const include = new vscode.RelativePattern(workspaceRoot, (glob ?? '**/*').replace(/\\/g, '/').replace(/^\.?\//, ''));
+    const uris = await vscode.workspace.findFiles(include, buildExcludeGlob(workspaceRoot, ['files', 'search']), MAX_FILES_SEARCHED + 1);
+    const useIgnoreFiles = vscode.workspace.getConfiguration('search', workspaceRoot).get<boolean>('useIgnoreFiles', true);
+    const isIgnored = useIgnoreFiles ? await loadGitignoreFilter(workspaceRoot) : () => false;
+    const isDenied = getDeniedPathMatcher();
+    const policy = getWorkspacePolicy(workspaceRoot);
+
+    const files = uris
+        .slice(0, MAX_FILES_SEARCHED)
+        .map(uri => ({ uri, relativePath: toRelativePath(workspaceRoot, uri) }))
+        .filter(file => !hasBinaryExtension(file.relativePath) && !isIgnored(file.relativePath) && !isDenied(file.relativePath) && !policy.isForbidden(file.relativePath))
+        .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+    const matches: SearchMatch[] = [];
+    let filesSearched = 0;
+    for (const file of files) {
+        if (matches.length > maxResults) {
+            break;
+        }
+        const text = await isRealPathInsideRoot(workspaceRoot, file.uri) ? await readSearchableText(file.uri) : undefined;
+        if (text === undefined) {
+            continue;
+        }
+        filesSearched++;
+        // One extra match tells us whether the cap cut anything off
+        matches.push(...findMatchesInText(text, regex, formatWorkspacePath(workspaceRoot, file.relativePath), maxResults + 1 - matches.length));
+    }
+    const truncated = matches.length > maxResults || uris.length > MAX_FILES_SEARCHED;
+    return { matches: matches.slice(0, maxResults), truncated, filesSearched };
+}
+
+/**
+ * searchWorkspace over the workspace folders `glob` applies to: the one it names ("api:src/**"), otherwise all of
+ * them. Throws for an unknown folder name.
+ */
+export async function searchWorkspaceFolders(defaultRoot: vscode.Uri, regex: RegExp, glob: string | undefined, maxResults: number): Promise<SearchResult> {
+    const roots = rootsForGlob(glob, defaultRoot);
+    if (!roots) {
+        throw new Error(`Unknown workspace folder in ${glob}. Workspace folders: ${describeWorkspaceFolders()}`);
+    }
+    const combined: SearchResult = { matches: [], truncated: false, filesSearched: 0 };
+    for (const root of roots) {
+        if (combined.matches.length >= maxResults) {
+            combined.truncated = true;
+            break;
+        }
+        const result = await searchWorkspace(root.rootUri, regex, root.glob, maxResults - combined.matches.length);
+        combined.matches.push(...result.matches);
+        combined.truncated = combined.truncated || result.truncated;
+        combined.filesSearched += result.filesSearched;
+    }
+    return combined;
+}
+
+async function readSearchableText(uri: vscode.Uri): Promise<string | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > MAX_SEARCHED_FILE_SIZE) {
+            return undefined;
+        }
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return looksLikeBinaryContent(bytes) ? undefined : new TextDecoder().decode(bytes);
+    } catch (error: any) {
+        console.warn(`workspaceSearch: Could not read ${uri.fsPath}: ${error.message}`);
+        return undefined;
+    }
+}